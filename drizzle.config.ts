@@ -1,18 +1,24 @@
 import { type Config, defineConfig } from 'drizzle-kit';
 
+import { resolveDatabaseTarget } from '@/lib/db/profiles';
+import { MIGRATIONS_TABLE } from '@/lib/db/utils';
 import { env } from '@/lib/env';
 
+// Migrations go to the primary, never an embedded replica
+const target = resolveDatabaseTarget();
+
 export default defineConfig({
   dialect: 'turso',
   schema: './src/lib/db/schema/*',
   out: './src/lib/db/migrations',
   dbCredentials: {
-    url: env.DATABASE_URL,
-    authToken:
-      env.DATABASE_AUTH_TOKEN === '' ? undefined : env.DATABASE_AUTH_TOKEN,
+    url: target.syncUrl ?? target.url,
+    authToken: target.authToken,
   },
   casing: 'snake_case',
-  tablesFilter: [`${env.DATABASE_PREFIX}.*`],
+  migrations: { table: MIGRATIONS_TABLE },
+  // The history carries the prefix too, but is not part of the schema
+  tablesFilter: [`${env.DATABASE_PREFIX}.*`, `!${MIGRATIONS_TABLE}`],
   strict: true,
   verbose: true,
 } satisfies Config);
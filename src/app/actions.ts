@@ -0,0 +1,226 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+
+import {
+  AuthError,
+  credentialsSchema,
+  signIn,
+  signOut,
+  signUp,
+} from '@/lib/auth';
+import { withQueryScope } from '@/lib/db/logging';
+import { insertPlayerSchema } from '@/lib/db/schema/players';
+import { type StrategyName, strategyNames } from '@/lib/game/bots/strategy';
+import { type Move, moveSchema, playMove } from '@/lib/lobby/game';
+import {
+  addBot,
+  createRoom,
+  joinRoom,
+  LobbyError,
+  leaveRoom,
+  normalizeRoomCode,
+  removeBot,
+  roomSettingsSchema,
+  setReady,
+  startRoom,
+} from '@/lib/lobby/rooms';
+import { ensurePlayer, getCurrentPlayer } from '@/lib/player';
+
+export type LobbyActionResult =
+  | { ok: true; code: string }
+  | { ok: false; error: string };
+
+export type AuthActionResult = { ok: true } | { ok: false; error: string };
+
+const playerNameSchema = insertPlayerSchema.shape.name;
+
+const roomCodeSchema = z
+  .string()
+  .transform(normalizeRoomCode)
+  .pipe(z.string().regex(/^[A-Z0-9]{6}$/, 'Room codes are 6 characters'));
+
+/** Expected failures as a message the client can toast; rethrows the rest. */
+function failure(error: unknown): { ok: false; error: string } {
+  if (error instanceof LobbyError || error instanceof AuthError) {
+    return { ok: false, error: error.message };
+  }
+  if (error instanceof z.ZodError) {
+    return { ok: false, error: error.issues[0]?.message ?? 'Invalid input' };
+  }
+  throw error;
+}
+
+/**
+ * Runs a lobby mutation that resolves to the room code, turning expected
+ * failures into results the client can toast. `name` labels its queries in
+ * the query log.
+ */
+async function run(
+  name: string,
+  action: () => Promise<string>,
+  { revalidate = true } = {}
+): Promise<LobbyActionResult> {
+  let code: string;
+
+  try {
+    code = await withQueryScope(`action ${name}`, action);
+  } catch (error) {
+    return failure(error);
+  }
+
+  if (revalidate) {
+    revalidatePath('/');
+    revalidatePath(`/rooms/${code}`);
+  }
+  return { ok: true, code };
+}
+
+async function requirePlayer() {
+  const player = await getCurrentPlayer();
+  if (!player) throw new LobbyError('Pick a name first');
+  return player;
+}
+
+export async function createRoomAction(
+  formData: FormData
+): Promise<LobbyActionResult> {
+  return run('createRoom', async () => {
+    const name = playerNameSchema.parse(formData.get('name'));
+    const turnSeconds = formData.get('turnSeconds');
+    const responseSeconds = formData.get('responseSeconds');
+    const settings = roomSettingsSchema.parse({
+      maxPlayers: Number(formData.get('maxPlayers')),
+      turnSeconds: turnSeconds ? Number(turnSeconds) : null,
+      responseSeconds: responseSeconds ? Number(responseSeconds) : null,
+      rules: {
+        allegiance: formData.get('allegiance'),
+        inquisitor: formData.get('fifthRole') === 'inquisitor',
+      },
+    });
+
+    const player = await ensurePlayer(name);
+    return (await createRoom(player.id, settings)).code;
+  });
+}
+
+export async function joinRoomAction(
+  formData: FormData
+): Promise<LobbyActionResult> {
+  return run('joinRoom', async () => {
+    const code = roomCodeSchema.parse(formData.get('code'));
+    const name = playerNameSchema.parse(formData.get('name'));
+    const player = await ensurePlayer(name);
+    return (await joinRoom(player.id, code)).code;
+  });
+}
+
+export async function leaveRoomAction(
+  code: string
+): Promise<LobbyActionResult> {
+  return run('leaveRoom', async () => {
+    await leaveRoom((await requirePlayer()).id, code);
+    return code;
+  });
+}
+
+export async function setReadyAction(
+  code: string,
+  ready: boolean
+): Promise<LobbyActionResult> {
+  return run('setReady', async () => {
+    await setReady((await requirePlayer()).id, code, ready);
+    return code;
+  });
+}
+
+export async function addBotAction(
+  code: string,
+  strategy: StrategyName
+): Promise<LobbyActionResult> {
+  return run('addBot', async () => {
+    const player = await requirePlayer();
+    await addBot(player.id, code, z.enum(strategyNames).parse(strategy));
+    return code;
+  });
+}
+
+export async function removeBotAction(
+  code: string,
+  seatId: string
+): Promise<LobbyActionResult> {
+  return run('removeBot', async () => {
+    await removeBot((await requirePlayer()).id, code, seatId);
+    return code;
+  });
+}
+
+export async function startRoomAction(
+  code: string
+): Promise<LobbyActionResult> {
+  return run('startRoom', async () => {
+    await startRoom((await requirePlayer()).id, code);
+    return code;
+  });
+}
+
+/** Game moves reach clients over the room's event stream, not a re-render. */
+export async function playMoveAction(
+  code: string,
+  move: Move
+): Promise<LobbyActionResult> {
+  return run(
+    'playMove',
+    async () => {
+      await playMove((await requirePlayer()).id, code, moveSchema.parse(move));
+      return code;
+    },
+    { revalidate: false }
+  );
+}
+
+/** Signing in or out changes who every page is rendered for. */
+async function authenticate(
+  name: string,
+  action: () => Promise<void>
+): Promise<AuthActionResult> {
+  try {
+    await withQueryScope(`action ${name}`, action);
+  } catch (error) {
+    return failure(error);
+  }
+
+  revalidatePath('/', 'layout');
+  return { ok: true };
+}
+
+export async function signUpAction(
+  formData: FormData
+): Promise<AuthActionResult> {
+  return authenticate('signUp', () =>
+    signUp(
+      credentialsSchema.parse({
+        username: formData.get('username'),
+        password: formData.get('password'),
+      })
+    )
+  );
+}
+
+export async function signInAction(
+  formData: FormData
+): Promise<AuthActionResult> {
+  return authenticate('signIn', () =>
+    signIn(
+      credentialsSchema.parse({
+        username: formData.get('username'),
+        password: formData.get('password'),
+      })
+    )
+  );
+}
+
+export async function signOutAction(): Promise<AuthActionResult> {
+  return authenticate('signOut', signOut);
+}
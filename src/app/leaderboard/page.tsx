@@ -0,0 +1,36 @@
+import Link from 'next/link';
+import { connection } from 'next/server';
+import { Suspense } from 'react';
+
+import { LeaderboardTable } from '@/components/profile/leaderboard-table';
+import { withQueryScope } from '@/lib/db/logging';
+import { getLeaderboard } from '@/lib/lobby/profiles';
+
+const Leaderboard = async () => {
+  // Ratings change with every game, so never serve a prerendered board
+  await connection();
+  const entries = await withQueryScope('/leaderboard', getLeaderboard);
+  return <LeaderboardTable entries={entries} />;
+};
+
+const LeaderboardPage = () => (
+  <div className="grid gap-6">
+    <Link href="/" className="text-muted-foreground text-sm hover:underline">
+      ← Back to lobby
+    </Link>
+    <header>
+      <h1 className="font-bold text-2xl">Leaderboard</h1>
+      <p className="text-muted-foreground">
+        Elo ratings from games against other people. Games with bots are not
+        rated.
+      </p>
+    </header>
+    <Suspense
+      fallback={<p className="text-muted-foreground text-sm">Loading…</p>}
+    >
+      <Leaderboard />
+    </Suspense>
+  </div>
+);
+
+export default LeaderboardPage;
@@ -1,3 +1,59 @@
-const Page = () => null;
+import Link from 'next/link';
+import { Suspense } from 'react';
+
+import { AccountPanel } from '@/components/account/account-panel';
+import { CreateRoomForm } from '@/components/lobby/create-room-form';
+import { JoinRoomForm } from '@/components/lobby/join-room-form';
+import { RoomList } from '@/components/lobby/room-list';
+import { getSession } from '@/lib/auth';
+import { withQueryScope } from '@/lib/db/logging';
+import { listOpenRooms } from '@/lib/lobby/rooms';
+
+const Lobby = () =>
+  withQueryScope('/', async () => {
+    // The session reads cookies, so the rooms are only queried per request
+    const session = await getSession();
+    const rooms = await listOpenRooms();
+    const player = session?.player ?? undefined;
+
+    return (
+      <>
+        <AccountPanel
+          username={session?.user.username ?? null}
+          playerName={player?.name}
+          playerId={player?.id}
+        />
+        <div className="grid gap-8 sm:grid-cols-2">
+          <CreateRoomForm playerName={player?.name} />
+          <JoinRoomForm playerName={player?.name} />
+        </div>
+        <section className="grid gap-3">
+          <h2 className="font-semibold text-lg">Open rooms</h2>
+          <RoomList rooms={rooms} />
+        </section>
+      </>
+    );
+  });
+
+const Page = () => (
+  <div className="grid gap-8">
+    <header className="flex items-start justify-between gap-4">
+      <div>
+        <h1 className="font-bold text-2xl">Coup</h1>
+        <p className="text-muted-foreground">
+          Bluff, block and bargain your way to being the last one standing.
+        </p>
+      </div>
+      <Link href="/leaderboard" className="text-sm hover:underline">
+        Leaderboard
+      </Link>
+    </header>
+    <Suspense
+      fallback={<p className="text-muted-foreground text-sm">Loading…</p>}
+    >
+      <Lobby />
+    </Suspense>
+  </div>
+);
 
 export default Page;
@@ -0,0 +1,63 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { Suspense } from 'react';
+
+import { MatchHistory } from '@/components/profile/match-history';
+import { PlayerStats } from '@/components/profile/player-stats';
+import { withQueryScope } from '@/lib/db/logging';
+import {
+  getMatchHistory,
+  getPlayerById,
+  getPlayerStats,
+} from '@/lib/lobby/profiles';
+
+type PlayerPageProps = {
+  readonly params: Promise<{ id: string }>;
+  readonly searchParams: Promise<{ page?: string }>;
+};
+
+const Profile = async ({ params, searchParams }: PlayerPageProps) => {
+  const [{ id }, query] = await Promise.all([params, searchParams]);
+  const page = Math.max(1, Number.parseInt(query.page ?? '1', 10) || 1);
+  return withQueryScope(`/players/${id}`, async () => {
+    const [player, stats, history] = await Promise.all([
+      getPlayerById(id),
+      getPlayerStats(id),
+      getMatchHistory(id, page),
+    ]);
+
+    if (!player) notFound();
+
+    return (
+      <>
+        <header>
+          <h1 className="font-bold text-2xl">{player.name}</h1>
+          <p className="text-muted-foreground">
+            {player.user?.username ? `@${player.user.username}` : 'Guest'}
+            {` · ${player.ratedGames} rated ${player.ratedGames === 1 ? 'game' : 'games'}`}
+          </p>
+        </header>
+        <PlayerStats rating={player.rating} stats={stats} />
+        <section className="grid gap-3">
+          <h2 className="font-semibold text-lg">Match history</h2>
+          <MatchHistory playerId={player.id} page={page} {...history} />
+        </section>
+      </>
+    );
+  });
+};
+
+const PlayerPage = (props: PlayerPageProps) => (
+  <div className="grid gap-6">
+    <Link href="/" className="text-muted-foreground text-sm hover:underline">
+      ← Back to lobby
+    </Link>
+    <Suspense
+      fallback={<p className="text-muted-foreground text-sm">Loading…</p>}
+    >
+      <Profile {...props} />
+    </Suspense>
+  </div>
+);
+
+export default PlayerPage;
@@ -0,0 +1,176 @@
+import type { NextRequest } from 'next/server';
+
+import { loadGame, rewindGame } from '@/lib/db/games';
+import { withQueryScope } from '@/lib/db/logging';
+import { diffViews, type GameView, viewFor } from '@/lib/game/view';
+import { getRoomByCode, type RoomWithSeats } from '@/lib/lobby/rooms';
+import { getDeadline } from '@/lib/lobby/timers';
+import { getCurrentPlayer } from '@/lib/player';
+import { formatEvent, type RoomChange, subscribeToRoom } from '@/lib/realtime';
+
+/**
+ * Streams a room over Server-Sent Events. Game updates are diffs of the
+ * caller's own view, each tagged with the action sequence so a reconnecting
+ * client (via `Last-Event-ID` or `?lastEventId=`) only receives what it
+ * missed. Other players' hidden cards never leave the server. Every event
+ * also carries the deadline of the room's clock.
+ */
+
+/** Refresh interval that also keeps proxies from closing idle streams. */
+const HEARTBEAT_MS = 15_000;
+
+type RouteParams = {
+  params: Promise<{ code: string }>;
+};
+
+function parseLastEventId(request: NextRequest): number | null {
+  const raw =
+    request.headers.get('last-event-id') ??
+    request.nextUrl.searchParams.get('lastEventId');
+  const id = Number(raw);
+  return raw !== null && raw !== '' && Number.isInteger(id) && id >= 0
+    ? id
+    : null;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { code } = await params;
+  const [room, player] = await Promise.all([
+    getRoomByCode(code),
+    getCurrentPlayer(),
+  ]);
+
+  if (!room) {
+    return new Response('Room not found', { status: 404 });
+  }
+
+  const seatOf = (current: RoomWithSeats) =>
+    current.seats.find((seat) => seat.playerId === player?.id)?.id ?? null;
+  // Changes when the player takes or leaves a seat while watching
+  let viewer = seatOf(room);
+  const encoder = new TextEncoder();
+  let sent: {
+    sequence: number;
+    view: GameView;
+    deadline: number | null;
+  } | null = null;
+  let lastEventId = parseLastEventId(request);
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        if (!request.signal.aborted) controller.enqueue(encoder.encode(chunk));
+      };
+
+      /** Baseline view for a resuming client, if its last event still exists. */
+      const resumeFrom = async (id: number) => {
+        try {
+          return {
+            sequence: id,
+            view: viewFor(await rewindGame(room.id, id), viewer),
+            deadline: null,
+          };
+        } catch {
+          return null;
+        }
+      };
+
+      // Each update is its own unit in the query log
+      const sendGame = () =>
+        withQueryScope(`/rooms/${room.code}/events`, async () => {
+          let game: Awaited<ReturnType<typeof loadGame>>;
+          try {
+            game = await loadGame(room.id);
+          } catch {
+            // No game has been dealt yet
+            return;
+          }
+
+          if (!sent && lastEventId !== null) {
+            sent = await resumeFrom(Math.min(lastEventId, game.sequence));
+            lastEventId = null;
+          }
+
+          const view = viewFor(game.state, viewer);
+          const deadline = await getDeadline(room.id, game.sequence);
+
+          if (!sent) {
+            write(
+              formatEvent(
+                'sync',
+                { sequence: game.sequence, view, deadline },
+                game.sequence
+              )
+            );
+          } else if (
+            sent.sequence !== game.sequence ||
+            sent.deadline !== deadline
+          ) {
+            write(
+              formatEvent(
+                'diff',
+                {
+                  from: sent.sequence,
+                  sequence: game.sequence,
+                  patch: diffViews(sent.view, view),
+                  deadline,
+                },
+                game.sequence
+              )
+            );
+          }
+
+          sent = { sequence: game.sequence, view, deadline };
+        });
+
+      /** Picks up a new seat; its view is sent whole, not as a diff. */
+      const refreshViewer = () =>
+        withQueryScope(`/rooms/${room.code}/events`, async () => {
+          const current = await getRoomByCode(room.code);
+          const seat = current ? seatOf(current) : null;
+          if (seat === viewer) return;
+
+          viewer = seat;
+          sent = null;
+          await sendGame();
+        });
+
+      // Updates run one at a time so diffs always build on the last one sent
+      let queue = sendGame();
+      const enqueue = (task: () => Promise<void>) => {
+        queue = queue.then(task).catch((error) => {
+          console.error(`Room ${room.code} stream failed:`, error);
+        });
+      };
+
+      const unsubscribe = subscribeToRoom(room.id, (change: RoomChange) => {
+        if (change === 'lobby') {
+          write(formatEvent('lobby', {}));
+          if (player) enqueue(refreshViewer);
+        } else {
+          enqueue(sendGame);
+        }
+      });
+
+      const heartbeat = setInterval(() => {
+        write(': ping\n\n');
+        enqueue(sendGame);
+      }, HEARTBEAT_MS);
+
+      request.signal.addEventListener('abort', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        controller.close();
+      });
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
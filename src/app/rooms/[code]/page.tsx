@@ -0,0 +1,72 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { Suspense } from 'react';
+
+import { GameBoard } from '@/components/game/game-board';
+import { JoinRoomForm } from '@/components/lobby/join-room-form';
+import { RoomLobby } from '@/components/lobby/room-lobby';
+import { withQueryScope } from '@/lib/db/logging';
+import { loadTable } from '@/lib/lobby/game';
+import { getRoomByCode } from '@/lib/lobby/rooms';
+import { getCurrentPlayer } from '@/lib/player';
+
+type RoomPageProps = {
+  readonly params: Promise<{ code: string }>;
+};
+
+const Room = async ({ params }: RoomPageProps) => {
+  const { code } = await params;
+  return withQueryScope(`/rooms/${code}`, async () => {
+    const [room, player] = await Promise.all([
+      getRoomByCode(code),
+      getCurrentPlayer(),
+    ]);
+
+    if (!room) notFound();
+
+    const seated = room.seats.some((seat) => seat.playerId === player?.id);
+
+    if (room.status !== 'waiting') {
+      return (
+        <GameBoard
+          code={room.code}
+          seats={room.seats.map((seat) => ({
+            id: seat.id,
+            name: seat.player.name,
+            position: seat.position,
+            bot: seat.bot !== null,
+          }))}
+          initial={await loadTable(room, player?.id)}
+          responseSeconds={room.responseSeconds}
+        />
+      );
+    }
+
+    return (
+      <div className="grid gap-6">
+        <RoomLobby room={room} playerId={player?.id} />
+        {!seated && room.seats.length < room.maxPlayers && (
+          <section className="grid max-w-sm gap-3">
+            <h2 className="font-semibold text-lg">Take a seat</h2>
+            <JoinRoomForm playerName={player?.name} code={room.code} />
+          </section>
+        )}
+      </div>
+    );
+  });
+};
+
+const RoomPage = (props: RoomPageProps) => (
+  <div className="grid gap-6">
+    <Link href="/" className="text-muted-foreground text-sm hover:underline">
+      ← Back to lobby
+    </Link>
+    <Suspense
+      fallback={<p className="text-muted-foreground text-sm">Loading…</p>}
+    >
+      <Room {...props} />
+    </Suspense>
+  </div>
+);
+
+export default RoomPage;
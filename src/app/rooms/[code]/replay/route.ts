@@ -0,0 +1,34 @@
+import { exportReplay } from '@/lib/db/games';
+import { withQueryScope } from '@/lib/db/logging';
+import { getRoomByCode } from '@/lib/lobby/rooms';
+
+/**
+ * Downloads the replay of a finished game. Every hand is in it, so it is only
+ * available once the game is over.
+ */
+
+type RouteParams = {
+  params: Promise<{ code: string }>;
+};
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  const { code } = await params;
+  return withQueryScope(`/rooms/${code}/replay`, async () => {
+    const room = await getRoomByCode(code);
+
+    if (!room) {
+      return new Response('Room not found', { status: 404 });
+    }
+    if (room.status !== 'finished') {
+      return new Response('The game has not finished yet', { status: 409 });
+    }
+
+    const replay = await exportReplay(room.id);
+    return new Response(`${JSON.stringify(replay, null, 2)}\n`, {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="coup-${room.code}.json"`,
+      },
+    });
+  });
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useTransition } from 'react';
+import { toast } from 'sonner';
+
+import {
+  type AuthActionResult,
+  signInAction,
+  signOutAction,
+  signUpAction,
+} from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+type AccountPanelProps = {
+  /** Account username; `null` for guests and people not signed in yet. */
+  readonly username: string | null;
+  readonly playerName?: string;
+  readonly playerId?: string;
+};
+
+export const AccountPanel = ({
+  username,
+  playerName,
+  playerId,
+}: AccountPanelProps) => {
+  const router = useRouter();
+  const [pending, startTransition] = useTransition();
+
+  const submit = (action: () => Promise<AuthActionResult>, message: string) =>
+    startTransition(async () => {
+      const result = await action();
+      if (!result.ok) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(message);
+      router.refresh();
+    });
+
+  if (username) {
+    return (
+      <section className="flex items-center justify-between gap-3 rounded-md border p-3 text-sm">
+        <p>
+          Signed in as{' '}
+          <Link
+            href={`/players/${playerId}`}
+            className="font-medium hover:underline"
+          >
+            {playerName}
+          </Link>{' '}
+          <span className="text-muted-foreground">@{username}</span>
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={pending}
+          onClick={() => submit(signOutAction, 'Signed out')}
+        >
+          Sign out
+        </Button>
+      </section>
+    );
+  }
+
+  return (
+    <form
+      action={(formData) =>
+        submit(() => signInAction(formData), 'Welcome back')
+      }
+      className="grid gap-3 rounded-md border p-3"
+    >
+      <p className="text-muted-foreground text-sm">
+        {playerName ? (
+          <>
+            Playing as{' '}
+            <Link
+              href={`/players/${playerId}`}
+              className="text-foreground hover:underline"
+            >
+              {playerName}
+            </Link>{' '}
+            (guest). Create an account to keep your name and seats on other
+            devices.
+          </>
+        ) : (
+          'Play as a guest by picking a name below, or sign in to your account.'
+        )}
+      </p>
+      <div className="grid gap-3 sm:grid-cols-[1fr_1fr_auto_auto]">
+        <Input
+          name="username"
+          placeholder="Username"
+          autoComplete="username"
+          maxLength={24}
+          required
+        />
+        <Input
+          name="password"
+          type="password"
+          placeholder="Password"
+          autoComplete="current-password"
+          maxLength={128}
+          required
+        />
+        <Button type="submit" disabled={pending}>
+          Sign in
+        </Button>
+        <Button
+          type="submit"
+          variant="outline"
+          disabled={pending}
+          formAction={(formData) =>
+            submit(() => signUpAction(formData), 'Account created')
+          }
+        >
+          Create account
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,91 @@
+import { ACTION_LABELS, ROLE_LABELS } from '@/components/game/labels';
+import { Button } from '@/components/ui/button';
+import {
+  ACTION_COSTS,
+  ACTION_DENIALS,
+  actionClaim,
+  CONVERT_OTHER_COST,
+  variantActions,
+} from '@/lib/game/rules';
+import type { TurnActionType } from '@/lib/game/types';
+import type { GameView } from '@/lib/game/view';
+
+type ActionBarProps = {
+  readonly view: GameView;
+  readonly pending: boolean;
+  /** Targeted action waiting for the viewer to pick a player. */
+  readonly targeting: TurnActionType | null;
+  readonly onAction: (type: TurnActionType) => void;
+  /** Converts the viewer rather than someone else. */
+  readonly onConvertSelf: () => void;
+  readonly onCancelTarget: () => void;
+};
+
+const VARIANTS: Partial<
+  Record<TurnActionType, 'destructive' | 'secondary' | 'outline'>
+> = {
+  income: 'outline',
+  foreign_aid: 'outline',
+  coup: 'destructive',
+  assassinate: 'destructive',
+  convert: 'outline',
+};
+
+function describeAction(view: GameView, type: TurnActionType) {
+  const claim = actionClaim(type, view.rules);
+  const denial = ACTION_DENIALS[type];
+  if (claim) return `Claims ${ROLE_LABELS[claim]}`;
+  if (denial) return `Claims not to hold the ${ROLE_LABELS[denial]}`;
+  if (type === 'convert') {
+    return `Convert yourself, or someone else for ${CONVERT_OTHER_COST} coins`;
+  }
+  return undefined;
+}
+
+export const ActionBar = ({
+  view,
+  pending,
+  targeting,
+  onAction,
+  onConvertSelf,
+  onCancelTarget,
+}: ActionBarProps) => {
+  if (targeting) {
+    return (
+      <div className="flex items-center gap-2">
+        <span className="flex-1 text-sm">
+          Choose a player to {ACTION_LABELS[targeting].toLowerCase()}.
+        </span>
+        {targeting === 'convert' && (
+          <Button variant="outline" disabled={pending} onClick={onConvertSelf}>
+            Yourself
+          </Button>
+        )}
+        <Button variant="ghost" onClick={onCancelTarget}>
+          Cancel
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {variantActions(view.rules).map((type) => {
+        const cost = ACTION_COSTS[type];
+
+        return (
+          <Button
+            key={type}
+            variant={VARIANTS[type] ?? 'secondary'}
+            disabled={pending || !view.legal.includes(type)}
+            onClick={() => onAction(type)}
+            title={describeAction(view, type)}
+          >
+            {ACTION_LABELS[type]}
+            {cost && <span className="opacity-70">−{cost}</span>}
+          </Button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+'use client';
+
+import { InfluenceCard } from '@/components/game/influence-card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { PlayerView } from '@/lib/game/view';
+
+type CardChoiceDialogProps = {
+  readonly player: PlayerView;
+  readonly title: string;
+  readonly description: string;
+  readonly pending: boolean;
+  /** Receives the index of the chosen card in the player's hand. */
+  readonly onChoose: (card: number) => void;
+};
+
+/** Asks the player to pick one of their face-down cards. */
+export const CardChoiceDialog = ({
+  player,
+  title,
+  description,
+  pending,
+  onChoose,
+}: CardChoiceDialogProps) => (
+  <Dialog open>
+    <DialogContent
+      onEscapeKeyDown={(event) => event.preventDefault()}
+      onInteractOutside={(event) => event.preventDefault()}
+    >
+      <DialogHeader>
+        <DialogTitle>{title}</DialogTitle>
+        <DialogDescription>{description}</DialogDescription>
+      </DialogHeader>
+      <div className="flex justify-center gap-3">
+        {player.influences.map((influence, index) =>
+          influence.revealed ? null : (
+            <InfluenceCard
+              // biome-ignore lint/suspicious/noArrayIndexKey: card slots are fixed
+              key={index}
+              name={`choice-${player.id}-${index}`}
+              influence={influence}
+              size="lg"
+              disabled={pending}
+              onSelect={() => onChoose(index)}
+            />
+          )
+        )}
+      </div>
+    </DialogContent>
+  </Dialog>
+);
@@ -0,0 +1,68 @@
+'use client';
+
+import { InfluenceCard } from '@/components/game/influence-card';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { Role } from '@/lib/game/types';
+import type { Move } from '@/lib/lobby/game';
+
+type ExamineDialogProps = {
+  /** The card the examined player showed. */
+  readonly role: Role | null;
+  readonly targetName: string;
+  readonly pending: boolean;
+  readonly onMove: (move: Move) => void;
+};
+
+/** Lets the Inquisitor send the shown card back to the court, or leave it. */
+export const ExamineDialog = ({
+  role,
+  targetName,
+  pending,
+  onMove,
+}: ExamineDialogProps) => (
+  <Dialog open>
+    <DialogContent
+      onEscapeKeyDown={(event) => event.preventDefault()}
+      onInteractOutside={(event) => event.preventDefault()}
+    >
+      <DialogHeader>
+        <DialogTitle>{targetName} shows you a card</DialogTitle>
+        <DialogDescription>
+          Force them to exchange it for a card from the court, or let them keep
+          it.
+        </DialogDescription>
+      </DialogHeader>
+      <div className="flex justify-center">
+        <InfluenceCard
+          name="examined-card"
+          influence={{ role, revealed: false }}
+          size="lg"
+        />
+      </div>
+      <DialogFooter>
+        <Button
+          variant="destructive"
+          disabled={pending}
+          onClick={() => onMove({ type: 'force_exchange' })}
+        >
+          Force exchange
+        </Button>
+        <Button
+          variant="outline"
+          disabled={pending}
+          onClick={() => onMove({ type: 'allow' })}
+        >
+          Let them keep it
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  </Dialog>
+);
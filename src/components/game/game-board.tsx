@@ -0,0 +1,385 @@
+'use client';
+
+import {
+  CoinsIcon,
+  LayersIcon,
+  PiggyBankIcon,
+  TimerIcon,
+  WifiOffIcon,
+} from 'lucide-react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useState, useTransition } from 'react';
+import { toast } from 'sonner';
+
+import { playMoveAction } from '@/app/actions';
+import { ActionBar } from '@/components/game/action-bar';
+import { CardChoiceDialog } from '@/components/game/card-choice-dialog';
+import { ExamineDialog } from '@/components/game/examine-dialog';
+import { InfluenceCard } from '@/components/game/influence-card';
+import {
+  ACTION_LABELS,
+  FACTION_LABELS,
+  ROLE_LABELS,
+  SEAT_COLORS,
+} from '@/components/game/labels';
+import { PlayerSeat } from '@/components/game/player-seat';
+import { ResponseDialog } from '@/components/game/response-dialog';
+import { Button } from '@/components/ui/button';
+import { isAlive } from '@/lib/game/engine';
+import {
+  ACTION_DENIALS,
+  actionClaim,
+  TARGETED_ACTIONS,
+} from '@/lib/game/rules';
+import type { Faction, PlayerId, TurnActionType } from '@/lib/game/types';
+import type { GameView } from '@/lib/game/view';
+import { useCountdown } from '@/lib/hooks/use-countdown';
+import { useRoomEvents } from '@/lib/hooks/use-room-events';
+import type { Move } from '@/lib/lobby/game';
+import { cn } from '@/lib/utils';
+
+export type TableSeat = {
+  id: string;
+  name: string;
+  position: number;
+  bot: boolean;
+};
+
+type GameBoardProps = {
+  readonly code: string;
+  readonly seats: TableSeat[];
+  readonly initial: {
+    view: GameView;
+    sequence: number;
+    deadline: number | null;
+  };
+  /** Length of the response window; `null` when it is not timed. */
+  readonly responseSeconds: number | null;
+};
+
+/** Faction or team name, in variants that have sides. */
+function sideName(view: GameView, faction: Faction | undefined) {
+  const { allegiance } = view.rules;
+  return allegiance === 'none' || !faction
+    ? undefined
+    : FACTION_LABELS[allegiance][faction];
+}
+
+function describePhase(view: GameView, nameOf: (id: PlayerId) => string) {
+  const { phase } = view;
+
+  switch (phase.kind) {
+    case 'turn':
+      return `${nameOf(view.players[view.turn].id)}'s turn`;
+    case 'respond': {
+      const { type, actor, target } = phase.action;
+      const claim = actionClaim(type, view.rules);
+      const denial = ACTION_DENIALS[type];
+      return [
+        `${nameOf(actor)} uses ${ACTION_LABELS[type]}`,
+        target && ` on ${nameOf(target)}`,
+        claim && ` claiming ${ROLE_LABELS[claim]}`,
+        denial && ` claiming no ${ROLE_LABELS[denial]}`,
+        phase.challengeable ? '' : ' (block window)',
+      ].join('');
+    }
+    case 'respond-block':
+      return `${nameOf(phase.blocker)} blocks ${ACTION_LABELS[phase.action.type]} with ${ROLE_LABELS[phase.role]}`;
+    case 'prove':
+      return `${nameOf(phase.challenger)} challenges ${nameOf(phase.claimant)}'s ${ROLE_LABELS[phase.role]}`;
+    case 'lose-influence':
+      return `${nameOf(phase.player)} must give up an influence`;
+    case 'exchange':
+      return `${nameOf(phase.player)} is exchanging with the court`;
+    case 'show':
+      return `${nameOf(phase.player)} must show a card to ${nameOf(phase.examiner)}`;
+    case 'examine':
+      return `${nameOf(phase.player)} is examining ${nameOf(phase.target)}'s card`;
+    case 'game-over':
+      return phase.team
+        ? `${sideName(view, phase.team)} wins!`
+        : `${nameOf(phase.winner)} wins!`;
+  }
+}
+
+export const GameBoard = ({
+  code,
+  seats,
+  initial,
+  responseSeconds,
+}: GameBoardProps) => {
+  const router = useRouter();
+  const { view, sequence, deadline, connected } = useRoomEvents(code, {
+    initial,
+    onLobbyChange: () => router.refresh(),
+  });
+  const remaining = useCountdown(deadline);
+  const [targeting, setTargeting] = useState<TurnActionType | null>(null);
+  const [keep, setKeep] = useState<number[]>([]);
+  const [pending, startTransition] = useTransition();
+
+  if (!view) return null;
+
+  const seatById = new Map(seats.map((seat) => [seat.id, seat]));
+  const nameOf = (id: PlayerId) => seatById.get(id)?.name ?? 'Unknown';
+  const colorOf = (id: PlayerId) =>
+    SEAT_COLORS[(seatById.get(id)?.position ?? 0) % SEAT_COLORS.length];
+
+  const me = view.players.find((p) => p.id === view.viewer);
+  const myIndex = me ? view.players.indexOf(me) : -1;
+  // Opponents in turn order, starting from the seat after the viewer
+  const opponents = [
+    ...view.players.slice(myIndex + 1),
+    ...view.players.slice(0, Math.max(myIndex, 0)),
+  ];
+
+  const { phase } = view;
+  const description = describePhase(view, nameOf);
+  const waitingOnMe = !!me && view.waitingOn.includes(me.id);
+
+  const play = (move: Move) =>
+    startTransition(async () => {
+      const result = await playMoveAction(code, move);
+      if (!result.ok) toast.error(result.error);
+      setTargeting(null);
+      setKeep([]);
+    });
+
+  const chooseAction = (type: TurnActionType) => {
+    if (TARGETED_ACTIONS.includes(type) || type === 'convert') {
+      setTargeting(type);
+      return;
+    }
+    play({ type } as Move);
+  };
+
+  const target = (id: PlayerId) => {
+    if (!targeting) return;
+    play({ type: targeting, target: id } as Move);
+  };
+
+  // Anyone can be converted, but allies are off limits for everything else
+  const targetable = (id: PlayerId) =>
+    targeting === 'convert'
+      ? view.players.some((p) => p.id === id && isAlive(p))
+      : view.targets.includes(id);
+
+  // Hidden cards first, then the drawn ones, matching the engine's `keep`
+  const exchangeOptions =
+    me && phase.kind === 'exchange' && phase.player === me.id
+      ? [
+          ...me.influences.filter((i) => !i.revealed).map((i) => i.role),
+          ...phase.drawn,
+        ]
+      : null;
+  const keepCount = me?.influences.filter((i) => !i.revealed).length ?? 0;
+
+  return (
+    <div className="grid gap-6">
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+        {opponents.map((player) => (
+          <PlayerSeat
+            key={player.id}
+            player={player}
+            name={nameOf(player.id)}
+            bot={seatById.get(player.id)?.bot ?? false}
+            color={colorOf(player.id)}
+            side={sideName(view, player.faction)}
+            active={view.players[view.turn].id === player.id}
+            waiting={view.waitingOn.includes(player.id)}
+            onTarget={
+              targeting && targetable(player.id)
+                ? () => target(player.id)
+                : undefined
+            }
+          />
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3 rounded-lg border bg-card px-4 py-3">
+        <p className="flex-1 font-medium" aria-live="polite">
+          {description}
+        </p>
+        {remaining !== null && (
+          <span
+            className={cn(
+              'flex items-center gap-1 text-sm tabular-nums',
+              remaining <= 5 ? 'text-destructive' : 'text-muted-foreground'
+            )}
+          >
+            <TimerIcon className="size-4" />
+            {remaining}s
+          </span>
+        )}
+        {view.rules.allegiance === 'factions' && (
+          <span
+            className="flex items-center gap-1 text-muted-foreground text-sm tabular-nums"
+            title="Treasury reserve"
+          >
+            <PiggyBankIcon className="size-4" />
+            {view.treasury}
+          </span>
+        )}
+        <span className="flex items-center gap-1 text-muted-foreground text-sm">
+          <LayersIcon className="size-4" />
+          {view.deckSize}
+        </span>
+        <span className="text-muted-foreground text-sm tabular-nums">
+          #{sequence}
+        </span>
+        {!connected && (
+          <WifiOffIcon
+            className="size-4 text-destructive"
+            aria-label="Reconnecting"
+          />
+        )}
+      </div>
+
+      {phase.kind === 'game-over' && (
+        <div className="flex items-center gap-3">
+          <p className="flex-1 text-muted-foreground">The game is over.</p>
+          <Button asChild variant="outline">
+            <Link href="/">Back to lobby</Link>
+          </Button>
+        </div>
+      )}
+
+      {me && (
+        <section
+          className={cn(
+            'grid gap-4 rounded-lg border-2 p-4',
+            view.players[view.turn].id === me.id
+              ? colorOf(me.id).border
+              : 'border-transparent bg-muted/40'
+          )}
+        >
+          <div className="flex items-center gap-2">
+            <span className={cn('font-semibold', colorOf(me.id).text)}>
+              {nameOf(me.id)} (you)
+            </span>
+            {me.faction && (
+              <span className="text-muted-foreground text-sm">
+                {sideName(view, me.faction)}
+              </span>
+            )}
+            <span className="ml-auto flex items-center gap-1 text-lg tabular-nums">
+              <CoinsIcon className="size-5 text-chart-4" />
+              {me.coins}
+            </span>
+          </div>
+
+          {exchangeOptions ? (
+            <div className="grid gap-3">
+              <p className="text-sm">
+                Keep {keepCount} of these cards; the rest go back to the court.
+              </p>
+              <div className="flex flex-wrap gap-3">
+                {exchangeOptions.map((role, index) => (
+                  <InfluenceCard
+                    // biome-ignore lint/suspicious/noArrayIndexKey: options are positional
+                    key={index}
+                    name={`exchange-${index}`}
+                    influence={{ role, revealed: false }}
+                    size="lg"
+                    selected={keep.includes(index)}
+                    disabled={pending}
+                    onSelect={() =>
+                      setKeep((current) =>
+                        current.includes(index)
+                          ? current.filter((i) => i !== index)
+                          : [...current, index]
+                      )
+                    }
+                  />
+                ))}
+              </div>
+              <Button
+                className="justify-self-start"
+                disabled={pending || keep.length !== keepCount}
+                onClick={() => play({ type: 'keep', cards: keep })}
+              >
+                Keep selected
+              </Button>
+            </div>
+          ) : (
+            <div className="flex gap-3">
+              {me.influences.map((influence, index) => (
+                <InfluenceCard
+                  // biome-ignore lint/suspicious/noArrayIndexKey: card slots are fixed
+                  key={index}
+                  name={`card-${me.id}-${index}`}
+                  influence={influence}
+                  size="lg"
+                />
+              ))}
+            </div>
+          )}
+
+          {phase.kind === 'turn' && (
+            <ActionBar
+              view={view}
+              pending={pending}
+              targeting={targeting}
+              onAction={chooseAction}
+              onConvertSelf={() => play({ type: 'convert' })}
+              onCancelTarget={() => setTargeting(null)}
+            />
+          )}
+        </section>
+      )}
+
+      {me &&
+        waitingOnMe &&
+        (phase.kind === 'respond' || phase.kind === 'respond-block') && (
+          <ResponseDialog
+            view={view}
+            description={description}
+            pending={pending}
+            deadline={deadline}
+            seconds={responseSeconds}
+            onMove={play}
+          />
+        )}
+
+      {me && phase.kind === 'prove' && phase.claimant === me.id && (
+        <CardChoiceDialog
+          player={me}
+          title={`Prove your ${ROLE_LABELS[phase.role]}`}
+          description={`${nameOf(phase.challenger)} challenged you. Reveal the ${ROLE_LABELS[phase.role]} to win the challenge, or any other card to concede it.`}
+          pending={pending}
+          onChoose={(card) => play({ type: 'reveal', card })}
+        />
+      )}
+
+      {me && phase.kind === 'show' && phase.player === me.id && (
+        <CardChoiceDialog
+          player={me}
+          title={`Show a card to ${nameOf(phase.examiner)}`}
+          description="The Inquisitor sees the card you pick and may make you exchange it for one from the court."
+          pending={pending}
+          onChoose={(card) => play({ type: 'show', card })}
+        />
+      )}
+
+      {me && phase.kind === 'examine' && phase.player === me.id && (
+        <ExamineDialog
+          role={phase.role}
+          targetName={nameOf(phase.target)}
+          pending={pending}
+          onMove={play}
+        />
+      )}
+
+      {me && phase.kind === 'lose-influence' && phase.player === me.id && (
+        <CardChoiceDialog
+          player={me}
+          title="Lose an influence"
+          description="Choose a card to reveal. It stays face-up and no longer counts."
+          pending={pending}
+          onChoose={(card) => play({ type: 'lose_influence', card })}
+        />
+      )}
+    </div>
+  );
+};
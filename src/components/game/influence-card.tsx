@@ -0,0 +1,70 @@
+import { ViewTransition } from 'react';
+
+import { ROLE_ICONS, ROLE_LABELS } from '@/components/game/labels';
+import type { InfluenceView } from '@/lib/game/view';
+import { cn } from '@/lib/utils';
+
+type InfluenceCardProps = {
+  readonly influence: InfluenceView;
+  /** Stable view transition name so the card flips in place when revealed. */
+  readonly name: string;
+  readonly size?: 'sm' | 'lg';
+  readonly selected?: boolean;
+  readonly disabled?: boolean;
+  readonly onSelect?: () => void;
+};
+
+export const InfluenceCard = ({
+  influence,
+  name,
+  size = 'sm',
+  selected = false,
+  disabled = false,
+  onSelect,
+}: InfluenceCardProps) => {
+  const { role, revealed } = influence;
+  const Icon = role ? ROLE_ICONS[role] : null;
+
+  const face = (
+    <span
+      className={cn(
+        'flex flex-col items-center justify-center gap-1 rounded-md border text-center transition-shadow',
+        size === 'sm' ? 'h-16 w-12 text-[10px]' : 'h-28 w-20 text-xs',
+        role
+          ? 'bg-card text-card-foreground'
+          : 'bg-[repeating-linear-gradient(45deg,var(--muted),var(--muted)_4px,transparent_4px,transparent_8px)]',
+        revealed && 'opacity-40 grayscale',
+        selected && 'ring-[3px] ring-ring',
+        onSelect &&
+          !disabled &&
+          'cursor-pointer hover:ring-[3px] hover:ring-ring/50'
+      )}
+    >
+      {Icon && <Icon className={size === 'sm' ? 'size-4' : 'size-6'} />}
+      {role && (
+        <span className={cn('font-medium', revealed && 'line-through')}>
+          {ROLE_LABELS[role]}
+        </span>
+      )}
+      {!role && <span className="sr-only">Hidden influence</span>}
+    </span>
+  );
+
+  return (
+    <ViewTransition name={name} update="card-flip">
+      {onSelect ? (
+        <button
+          type="button"
+          disabled={disabled}
+          aria-pressed={selected}
+          onClick={onSelect}
+          className="rounded-md outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+        >
+          {face}
+        </button>
+      ) : (
+        face
+      )}
+    </ViewTransition>
+  );
+};
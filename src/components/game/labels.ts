@@ -0,0 +1,78 @@
+import {
+  AnchorIcon,
+  EyeIcon,
+  LandmarkIcon,
+  type LucideIcon,
+  ScrollTextIcon,
+  ShieldIcon,
+  SwordIcon,
+} from 'lucide-react';
+
+import type { StrategyName } from '@/lib/game/bots/strategy';
+import type {
+  AllegianceMode,
+  Faction,
+  Role,
+  TurnActionType,
+} from '@/lib/game/types';
+
+export const ROLE_LABELS: Record<Role, string> = {
+  duke: 'Duke',
+  assassin: 'Assassin',
+  captain: 'Captain',
+  ambassador: 'Ambassador',
+  contessa: 'Contessa',
+  inquisitor: 'Inquisitor',
+};
+
+export const ROLE_ICONS: Record<Role, LucideIcon> = {
+  duke: LandmarkIcon,
+  assassin: SwordIcon,
+  captain: AnchorIcon,
+  ambassador: ScrollTextIcon,
+  contessa: ShieldIcon,
+  inquisitor: EyeIcon,
+};
+
+export const ACTION_LABELS: Record<TurnActionType, string> = {
+  income: 'Income',
+  foreign_aid: 'Foreign Aid',
+  coup: 'Coup',
+  tax: 'Tax',
+  assassinate: 'Assassinate',
+  steal: 'Steal',
+  exchange: 'Exchange',
+  examine: 'Examine',
+  convert: 'Convert',
+  embezzle: 'Embezzle',
+};
+
+/** What the two sides are called, in variants that have them. */
+export const FACTION_LABELS: Record<
+  Exclude<AllegianceMode, 'none'>,
+  Record<Faction, string>
+> = {
+  factions: { loyalist: 'Loyalist', reformist: 'Reformist' },
+  teams: { loyalist: 'Team A', reformist: 'Team B' },
+};
+
+export const STRATEGY_LABELS: Record<StrategyName, string> = {
+  random: 'Random',
+  honest: 'Honest',
+  heuristic: 'Heuristic',
+};
+
+/**
+ * Seat identity colors, in seat order. Full class names are spelled out so
+ * Tailwind can find them.
+ */
+export const SEAT_COLORS = [
+  { text: 'text-brand', border: 'border-brand', bg: 'bg-brand' },
+  { text: 'text-chart-1', border: 'border-chart-1', bg: 'bg-chart-1' },
+  { text: 'text-chart-2', border: 'border-chart-2', bg: 'bg-chart-2' },
+  { text: 'text-chart-3', border: 'border-chart-3', bg: 'bg-chart-3' },
+  { text: 'text-chart-4', border: 'border-chart-4', bg: 'bg-chart-4' },
+  { text: 'text-chart-5', border: 'border-chart-5', bg: 'bg-chart-5' },
+] as const;
+
+export type SeatColor = (typeof SEAT_COLORS)[number];
@@ -0,0 +1,82 @@
+import { BotIcon, CoinsIcon, CrosshairIcon } from 'lucide-react';
+
+import { InfluenceCard } from '@/components/game/influence-card';
+import type { SeatColor } from '@/components/game/labels';
+import type { PlayerView } from '@/lib/game/view';
+import { cn } from '@/lib/utils';
+
+type PlayerSeatProps = {
+  readonly player: PlayerView;
+  readonly name: string;
+  readonly bot: boolean;
+  readonly color: SeatColor;
+  /** Faction or team name, in variants that have sides. */
+  readonly side?: string;
+  readonly active: boolean;
+  readonly waiting: boolean;
+  /** Set while the viewer is choosing a target for an action. */
+  readonly onTarget?: () => void;
+};
+
+export const PlayerSeat = ({
+  player,
+  name,
+  bot,
+  color,
+  side,
+  active,
+  waiting,
+  onTarget,
+}: PlayerSeatProps) => {
+  const eliminated = player.influences.every((i) => i.revealed);
+
+  return (
+    <div
+      className={cn(
+        'grid gap-2 rounded-lg border-2 p-3 transition-colors',
+        active ? color.border : 'border-transparent bg-muted/40',
+        eliminated && 'opacity-50'
+      )}
+    >
+      <div className="flex items-center gap-2">
+        <span className={cn('size-2.5 shrink-0 rounded-full', color.bg)} />
+        <span className={cn('flex-1 truncate font-medium', color.text)}>
+          {name}
+        </span>
+        {side && <span className="text-muted-foreground text-xs">{side}</span>}
+        {bot && (
+          <BotIcon className="size-4 text-muted-foreground" aria-label="Bot" />
+        )}
+        {waiting && !eliminated && (
+          <span className="animate-pulse text-muted-foreground text-xs">
+            deciding…
+          </span>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        {player.influences.map((influence, index) => (
+          <InfluenceCard
+            // biome-ignore lint/suspicious/noArrayIndexKey: card slots are fixed
+            key={index}
+            name={`card-${player.id}-${index}`}
+            influence={influence}
+          />
+        ))}
+        <span className="ml-auto flex items-center gap-1 tabular-nums">
+          <CoinsIcon className="size-4 text-chart-4" />
+          {player.coins}
+        </span>
+      </div>
+      {onTarget && !eliminated && (
+        <button
+          type="button"
+          onClick={onTarget}
+          className="flex items-center justify-center gap-1 rounded-md border border-destructive/50 py-1 text-destructive text-sm hover:bg-destructive/10"
+        >
+          <CrosshairIcon className="size-4" />
+          Target
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+'use client';
+
+import { ROLE_LABELS } from '@/components/game/labels';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { Role } from '@/lib/game/types';
+import type { GameView } from '@/lib/game/view';
+import { useCountdown } from '@/lib/hooks/use-countdown';
+import type { Move } from '@/lib/lobby/game';
+
+type ResponseDialogProps = {
+  readonly view: GameView;
+  readonly description: string;
+  readonly pending: boolean;
+  /** When the server allows on the player's behalf, in epoch milliseconds. */
+  readonly deadline: number | null;
+  /** Length of the response window, to scale the progress bar. */
+  readonly seconds: number | null;
+  readonly onMove: (move: Move) => void;
+};
+
+/** Challenge / Block / Allow prompt, counting down to the server's deadline. */
+export const ResponseDialog = ({
+  view,
+  description,
+  pending,
+  deadline,
+  seconds,
+  onMove,
+}: ResponseDialogProps) => {
+  const remaining = useCountdown(deadline);
+
+  const block = (role: Role) => onMove({ type: 'block', role });
+
+  return (
+    <Dialog open>
+      <DialogContent
+        onEscapeKeyDown={(event) => event.preventDefault()}
+        onInteractOutside={(event) => event.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle>Your response</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        {remaining !== null && seconds !== null && (
+          <div className="grid gap-1">
+            <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+              <div
+                className="h-full bg-brand transition-[width] duration-300 ease-linear"
+                style={{
+                  width: `${Math.min(1, remaining / seconds) * 100}%`,
+                }}
+              />
+            </div>
+            <span className="text-muted-foreground text-xs tabular-nums">
+              Allowing automatically in {remaining}s
+            </span>
+          </div>
+        )}
+        <DialogFooter>
+          {view.legal.includes('challenge') && (
+            <Button
+              variant="destructive"
+              disabled={pending}
+              onClick={() => onMove({ type: 'challenge' })}
+            >
+              Challenge
+            </Button>
+          )}
+          {view.blockingRoles.map((role) => (
+            <Button
+              key={role}
+              variant="secondary"
+              disabled={pending}
+              onClick={() => block(role)}
+            >
+              Block as {ROLE_LABELS[role]}
+            </Button>
+          ))}
+          <Button
+            variant="outline"
+            disabled={pending}
+            onClick={() => onMove({ type: 'allow' })}
+          >
+            Allow
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,147 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useTransition } from 'react';
+import { toast } from 'sonner';
+
+import { createRoomAction } from '@/app/actions';
+import { ROLE_LABELS } from '@/components/game/labels';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  NativeSelect,
+  NativeSelectOption,
+} from '@/components/ui/native-select';
+import { type AllegianceMode, allegianceModes } from '@/lib/game/types';
+import { responseTimerOptions, turnTimerOptions } from '@/lib/lobby/settings';
+
+const PLAYER_COUNTS = [2, 3, 4, 5, 6];
+
+const VARIANT_LABELS: Record<AllegianceMode, string> = {
+  none: 'Base game',
+  factions: 'Reformation',
+  teams: 'Teams',
+};
+
+/** Choices for the court's fifth role. */
+const FIFTH_ROLES = ['ambassador', 'inquisitor'] as const;
+
+type CreateRoomFormProps = {
+  readonly playerName?: string;
+};
+
+export const CreateRoomForm = ({ playerName }: CreateRoomFormProps) => {
+  const router = useRouter();
+  const [pending, startTransition] = useTransition();
+
+  const submit = (formData: FormData) =>
+    startTransition(async () => {
+      const result = await createRoomAction(formData);
+      if (!result.ok) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(`Room ${result.code} created`);
+      router.push(`/rooms/${result.code}`);
+    });
+
+  return (
+    <form action={submit} className="grid gap-3">
+      <h2 className="font-semibold text-lg">Create a room</h2>
+      <Input
+        name="name"
+        placeholder="Your name"
+        defaultValue={playerName}
+        maxLength={32}
+        required
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <div className="grid gap-1">
+          <label
+            htmlFor="room-players"
+            className="text-muted-foreground text-xs"
+          >
+            Players
+          </label>
+          <NativeSelect id="room-players" name="maxPlayers" defaultValue="6">
+            {PLAYER_COUNTS.map((count) => (
+              <NativeSelectOption key={count} value={count}>
+                {count}
+              </NativeSelectOption>
+            ))}
+          </NativeSelect>
+        </div>
+        <div className="grid gap-1">
+          <label htmlFor="room-timer" className="text-muted-foreground text-xs">
+            Turn timer
+          </label>
+          <NativeSelect id="room-timer" name="turnSeconds" defaultValue="60">
+            <NativeSelectOption value="">None</NativeSelectOption>
+            {turnTimerOptions.map((seconds) => (
+              <NativeSelectOption key={seconds} value={seconds}>
+                {seconds}s
+              </NativeSelectOption>
+            ))}
+          </NativeSelect>
+        </div>
+        <div className="grid gap-1">
+          <label
+            htmlFor="room-response-timer"
+            className="text-muted-foreground text-xs"
+          >
+            Response timer
+          </label>
+          <NativeSelect
+            id="room-response-timer"
+            name="responseSeconds"
+            defaultValue="15"
+          >
+            <NativeSelectOption value="">None</NativeSelectOption>
+            {responseTimerOptions.map((seconds) => (
+              <NativeSelectOption key={seconds} value={seconds}>
+                {seconds}s
+              </NativeSelectOption>
+            ))}
+          </NativeSelect>
+        </div>
+        <div className="grid gap-1">
+          <label
+            htmlFor="room-variant"
+            className="text-muted-foreground text-xs"
+          >
+            Variant
+          </label>
+          <NativeSelect id="room-variant" name="allegiance" defaultValue="none">
+            {allegianceModes.map((mode) => (
+              <NativeSelectOption key={mode} value={mode}>
+                {VARIANT_LABELS[mode]}
+              </NativeSelectOption>
+            ))}
+          </NativeSelect>
+        </div>
+        <div className="grid gap-1">
+          <label
+            htmlFor="room-fifth-role"
+            className="text-muted-foreground text-xs"
+          >
+            Fifth role
+          </label>
+          <NativeSelect
+            id="room-fifth-role"
+            name="fifthRole"
+            defaultValue="ambassador"
+          >
+            {FIFTH_ROLES.map((role) => (
+              <NativeSelectOption key={role} value={role}>
+                {ROLE_LABELS[role]}
+              </NativeSelectOption>
+            ))}
+          </NativeSelect>
+        </div>
+      </div>
+      <Button type="submit" disabled={pending}>
+        Create room
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,64 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useTransition } from 'react';
+import { toast } from 'sonner';
+
+import { joinRoomAction } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+type JoinRoomFormProps = {
+  readonly playerName?: string;
+  /** Joins this room directly instead of asking for a code. */
+  readonly code?: string;
+};
+
+export const JoinRoomForm = ({ playerName, code }: JoinRoomFormProps) => {
+  const router = useRouter();
+  const [pending, startTransition] = useTransition();
+
+  const submit = (formData: FormData) =>
+    startTransition(async () => {
+      const result = await joinRoomAction(formData);
+      if (!result.ok) {
+        toast.error(result.error);
+        return;
+      }
+      toast.success(`Joined room ${result.code}`);
+      router.push(`/rooms/${result.code}`);
+    });
+
+  return (
+    <form action={submit} className="grid gap-3">
+      {!code && <h2 className="font-semibold text-lg">Join with a code</h2>}
+      <Input
+        name="name"
+        placeholder="Your name"
+        defaultValue={playerName}
+        maxLength={32}
+        required
+      />
+      {code ? (
+        <input type="hidden" name="code" value={code} />
+      ) : (
+        <Input
+          name="code"
+          placeholder="ABC234"
+          maxLength={6}
+          autoCapitalize="characters"
+          autoComplete="off"
+          className="font-mono uppercase tracking-widest"
+          required
+        />
+      )}
+      <Button
+        type="submit"
+        variant={code ? 'default' : 'outline'}
+        disabled={pending}
+      >
+        Join room
+      </Button>
+    </form>
+  );
+};
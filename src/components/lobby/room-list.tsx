@@ -0,0 +1,42 @@
+import Link from 'next/link';
+
+import { Button } from '@/components/ui/button';
+import type { OpenRoom } from '@/lib/lobby/rooms';
+
+type RoomListProps = {
+  readonly rooms: OpenRoom[];
+};
+
+export const RoomList = ({ rooms }: RoomListProps) => {
+  if (rooms.length === 0) {
+    return (
+      <p className="text-muted-foreground text-sm">
+        No open rooms yet. Create one and share the code.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y rounded-md border">
+      {rooms.map((room) => {
+        const full = room.seats.length >= room.maxPlayers;
+
+        return (
+          <li key={room.id} className="flex items-center gap-3 px-3 py-2">
+            <span className="font-mono tracking-widest">{room.code}</span>
+            <span className="flex-1 truncate text-muted-foreground text-sm">
+              {room.host.name} · {room.variant}
+              {room.turnSeconds ? ` · ${room.turnSeconds}s turns` : ''}
+            </span>
+            <span className="text-sm tabular-nums">
+              {room.seats.length}/{room.maxPlayers}
+            </span>
+            <Button asChild size="sm" variant="outline" disabled={full}>
+              <Link href={`/rooms/${room.code}`}>{full ? 'Full' : 'Open'}</Link>
+            </Button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
@@ -0,0 +1,213 @@
+'use client';
+
+import { BotIcon, CheckIcon, CopyIcon, CrownIcon, XIcon } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useState, useTransition } from 'react';
+import { toast } from 'sonner';
+
+import {
+  addBotAction,
+  type LobbyActionResult,
+  leaveRoomAction,
+  removeBotAction,
+  setReadyAction,
+  startRoomAction,
+} from '@/app/actions';
+import { STRATEGY_LABELS } from '@/components/game/labels';
+import { Button } from '@/components/ui/button';
+import {
+  NativeSelect,
+  NativeSelectOption,
+} from '@/components/ui/native-select';
+import { type StrategyName, strategyNames } from '@/lib/game/bots/strategy';
+import { useRoomEvents } from '@/lib/hooks/use-room-events';
+import type { RoomWithSeats } from '@/lib/lobby/rooms';
+import { cn } from '@/lib/utils';
+
+type RoomLobbyProps = {
+  readonly room: RoomWithSeats;
+  readonly playerId?: string;
+};
+
+export const RoomLobby = ({ room, playerId }: RoomLobbyProps) => {
+  const router = useRouter();
+  const [pending, startTransition] = useTransition();
+  const [strategy, setStrategy] = useState<StrategyName>('heuristic');
+
+  useRoomEvents(room.code, { onLobbyChange: () => router.refresh() });
+
+  const seat = room.seats.find((s) => s.playerId === playerId);
+  const isHost = room.hostId === playerId;
+  const everyoneReady = room.seats.every(
+    (s) => s.ready || s.playerId === room.hostId
+  );
+  const canStart = isHost && room.seats.length >= 2 && everyoneReady;
+  const full = room.seats.length >= room.maxPlayers;
+
+  const run = (
+    action: () => Promise<LobbyActionResult>,
+    onSuccess?: () => void
+  ) =>
+    startTransition(async () => {
+      const result = await action();
+      if (!result.ok) {
+        toast.error(result.error);
+        return;
+      }
+      onSuccess?.();
+    });
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(
+      `${window.location.origin}/rooms/${room.code}`
+    );
+    toast.success('Invite link copied');
+  };
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex items-center gap-2">
+        <span className="text-muted-foreground text-sm">Room code</span>
+        <span className="font-mono text-lg tracking-widest">{room.code}</span>
+        <Button size="icon-sm" variant="ghost" onClick={copyLink}>
+          <CopyIcon />
+          <span className="sr-only">Copy invite link</span>
+        </Button>
+        <span className="ml-auto text-muted-foreground text-sm">
+          {room.variant}
+        </span>
+      </div>
+
+      <ul className="divide-y rounded-md border">
+        {room.seats.map((s) => (
+          <li key={s.id} className="flex items-center gap-2 px-3 py-2">
+            <span className="flex-1 truncate">
+              {s.player.name}
+              {s.playerId === playerId && (
+                <span className="text-muted-foreground"> (you)</span>
+              )}
+            </span>
+            {s.bot && (
+              <span className="flex items-center gap-1 text-muted-foreground text-xs">
+                <BotIcon className="size-4" />
+                {STRATEGY_LABELS[s.bot]}
+              </span>
+            )}
+            {s.bot && isHost && (
+              <Button
+                size="icon-sm"
+                variant="ghost"
+                disabled={pending}
+                onClick={() => run(() => removeBotAction(room.code, s.id))}
+              >
+                <XIcon />
+                <span className="sr-only">Remove {s.player.name}</span>
+              </Button>
+            )}
+            {s.playerId === room.hostId ? (
+              <CrownIcon className="size-4 text-brand" aria-label="Host" />
+            ) : (
+              <CheckIcon
+                aria-label={s.ready ? 'Ready' : 'Not ready'}
+                className={cn(
+                  'size-4',
+                  s.ready ? 'text-primary' : 'text-muted-foreground/30'
+                )}
+              />
+            )}
+          </li>
+        ))}
+        {Array.from({ length: room.maxPlayers - room.seats.length }, (_, i) => (
+          // biome-ignore lint/suspicious/noArrayIndexKey: empty seats have no identity
+          <li key={i} className="px-3 py-2 text-muted-foreground text-sm">
+            Open seat
+          </li>
+        ))}
+      </ul>
+
+      {isHost && !full && (
+        <div className="flex items-end gap-2">
+          <div className="grid gap-1">
+            <label
+              htmlFor="bot-strategy"
+              className="text-muted-foreground text-xs"
+            >
+              Bot strategy
+            </label>
+            <NativeSelect
+              id="bot-strategy"
+              value={strategy}
+              onChange={(event) =>
+                setStrategy(event.target.value as StrategyName)
+              }
+            >
+              {strategyNames.map((name) => (
+                <NativeSelectOption key={name} value={name}>
+                  {STRATEGY_LABELS[name]}
+                </NativeSelectOption>
+              ))}
+            </NativeSelect>
+          </div>
+          <Button
+            variant="secondary"
+            disabled={pending}
+            onClick={() => run(() => addBotAction(room.code, strategy))}
+          >
+            <BotIcon />
+            Add bot
+          </Button>
+        </div>
+      )}
+
+      {seat && (
+        <div className="flex flex-wrap gap-2">
+          {isHost ? (
+            <Button
+              disabled={pending || !canStart}
+              onClick={() =>
+                run(
+                  () => startRoomAction(room.code),
+                  () => {
+                    toast.success('Game started');
+                    router.refresh();
+                  }
+                )
+              }
+            >
+              Start game
+            </Button>
+          ) : (
+            <Button
+              variant={seat.ready ? 'secondary' : 'default'}
+              disabled={pending}
+              onClick={() => run(() => setReadyAction(room.code, !seat.ready))}
+            >
+              {seat.ready ? 'Not ready' : 'Ready'}
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            disabled={pending}
+            onClick={() =>
+              run(
+                () => leaveRoomAction(room.code),
+                () => {
+                  toast.info(`Left room ${room.code}`);
+                  router.push('/');
+                }
+              )
+            }
+          >
+            Leave
+          </Button>
+        </div>
+      )}
+      {isHost && !canStart && (
+        <p className="text-muted-foreground text-sm">
+          The game can start once at least two players are seated and everyone
+          is ready.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import Link from 'next/link';
+
+import type { LeaderboardEntry } from '@/lib/lobby/profiles';
+
+type LeaderboardTableProps = {
+  readonly entries: LeaderboardEntry[];
+};
+
+export const LeaderboardTable = ({ entries }: LeaderboardTableProps) => {
+  if (entries.length === 0) {
+    return (
+      <p className="text-muted-foreground text-sm">
+        Nobody is rated yet. Finish a game against other people to get on the
+        board.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="divide-y rounded-md border">
+      {entries.map((entry, index) => (
+        <li key={entry.id} className="flex items-center gap-3 px-3 py-2">
+          <span className="w-6 text-right text-muted-foreground text-sm tabular-nums">
+            {index + 1}
+          </span>
+          <Link
+            href={`/players/${entry.id}`}
+            className="flex-1 truncate hover:underline"
+          >
+            {entry.name}
+          </Link>
+          <span className="text-muted-foreground text-sm tabular-nums">
+            {entry.ratedGames} {entry.ratedGames === 1 ? 'game' : 'games'}
+          </span>
+          <span className="w-12 text-right font-semibold tabular-nums">
+            {entry.rating}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+};
@@ -0,0 +1,100 @@
+import Link from 'next/link';
+import { Fragment } from 'react';
+
+import { Button } from '@/components/ui/button';
+import type { MatchSummary } from '@/lib/lobby/profiles';
+import { cn } from '@/lib/utils';
+
+type MatchHistoryProps = {
+  readonly playerId: string;
+  readonly matches: MatchSummary[];
+  readonly page: number;
+  readonly hasMore: boolean;
+};
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+export const MatchHistory = ({
+  playerId,
+  matches,
+  page,
+  hasMore,
+}: MatchHistoryProps) => {
+  if (matches.length === 0) {
+    return (
+      <p className="text-muted-foreground text-sm">
+        {page === 1 ? 'No finished games yet.' : 'No more games.'}
+      </p>
+    );
+  }
+
+  const pageHref = (target: number) => `/players/${playerId}?page=${target}`;
+
+  return (
+    <div className="grid gap-3">
+      <ul className="divide-y rounded-md border">
+        {matches.map((match) => (
+          <li key={match.code} className="flex items-center gap-3 px-3 py-2">
+            <span
+              className={cn(
+                'w-10 font-medium text-sm',
+                match.won ? 'text-green-600' : 'text-muted-foreground'
+              )}
+            >
+              {match.won ? 'Won' : 'Lost'}
+            </span>
+            <span className="flex-1 truncate text-sm">
+              {match.lineup
+                .filter((seat) => seat.playerId !== playerId)
+                .map((seat, index) => (
+                  <Fragment key={seat.playerId}>
+                    {index > 0 && ', '}
+                    {seat.bot ? (
+                      seat.name
+                    ) : (
+                      <Link
+                        href={`/players/${seat.playerId}`}
+                        className="hover:underline"
+                      >
+                        {seat.name}
+                      </Link>
+                    )}
+                  </Fragment>
+                ))}
+              <span className="text-muted-foreground">
+                {' '}
+                · {match.variant}
+                {match.finishedAt &&
+                  ` · ${match.finishedAt.toLocaleDateString()}`}
+              </span>
+            </span>
+            {match.ratingDelta !== null && (
+              <span className="text-sm tabular-nums">
+                {formatDelta(match.ratingDelta)}
+              </span>
+            )}
+            <Button asChild size="sm" variant="outline">
+              <a href={`/rooms/${match.code}/replay`} download>
+                Replay
+              </a>
+            </Button>
+          </li>
+        ))}
+      </ul>
+      <nav className="flex justify-between">
+        {page > 1 ? (
+          <Button asChild size="sm" variant="ghost">
+            <Link href={pageHref(page - 1)}>← Newer</Link>
+          </Button>
+        ) : (
+          <span />
+        )}
+        {hasMore && (
+          <Button asChild size="sm" variant="ghost">
+            <Link href={pageHref(page + 1)}>Older →</Link>
+          </Button>
+        )}
+      </nav>
+    </div>
+  );
+};
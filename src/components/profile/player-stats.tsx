@@ -0,0 +1,44 @@
+import { ROLE_LABELS } from '@/components/game/labels';
+import type { PlayerStats as Stats } from '@/lib/lobby/profiles';
+
+type PlayerStatsProps = {
+  readonly rating: number;
+  readonly stats: Stats;
+};
+
+const percent = (part: number, whole: number) =>
+  whole === 0 ? '–' : `${Math.round((part / whole) * 100)}%`;
+
+export const PlayerStats = ({ rating, stats }: PlayerStatsProps) => {
+  const items = [
+    { label: 'Rating', value: rating.toString() },
+    { label: 'Games played', value: stats.played.toString() },
+    {
+      label: 'Wins',
+      value: `${stats.wins} (${percent(stats.wins, stats.played)})`,
+    },
+    {
+      label: 'Favorite bluff',
+      value: stats.favoriteBluff ? ROLE_LABELS[stats.favoriteBluff] : '–',
+    },
+    {
+      label: 'Bluffs',
+      value: `${stats.bluffs} of ${stats.claims} claims`,
+    },
+    {
+      label: 'Challenge accuracy',
+      value: `${percent(stats.challengesWon, stats.challenges)} of ${stats.challenges}`,
+    },
+  ];
+
+  return (
+    <dl className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+      {items.map((item) => (
+        <div key={item.label} className="rounded-md border p-3">
+          <dt className="text-muted-foreground text-sm">{item.label}</dt>
+          <dd className="font-semibold text-lg tabular-nums">{item.value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
@@ -0,0 +1,12 @@
+/** Runs once per server instance before it starts handling requests. */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { describeDatabaseTarget } = await import('@/lib/db/profiles');
+    const { syncReplica, target } = await import('@/lib/db/client');
+    console.log(`[db] Using ${describeDatabaseTarget(target)}`);
+    await syncReplica();
+
+    const { startTimerSweeper } = await import('@/lib/lobby/sweeper');
+    startTimerSweeper();
+  }
+}
@@ -0,0 +1,99 @@
+import { afterAll, beforeAll, describe, expect, mock, test } from 'bun:test';
+
+import { eq } from 'drizzle-orm';
+import * as headers from 'next/headers';
+
+import { AuthError, getSession, signIn, signOut, signUp } from '@/lib/auth';
+import { sessions } from '@/lib/db/schema/users';
+import { setupTestDatabase } from '@/lib/db/testing';
+
+const database = setupTestDatabase();
+
+/** The browser's cookies, shared by every request of the test. */
+const jar = new Map<string, string>();
+
+const SESSION_COOKIE = 'coup.session';
+
+const originalHeaders = { ...headers };
+
+beforeAll(async () => {
+  await mock.module('next/headers', () => ({
+    ...originalHeaders,
+    cookies: async () => ({
+      get: (name: string) =>
+        jar.has(name) ? { name, value: jar.get(name) } : undefined,
+      set: (name: string, value: string) => jar.set(name, value),
+      delete: (name: string) => jar.delete(name),
+    }),
+  }));
+});
+
+afterAll(async () => {
+  await mock.module('next/headers', () => originalHeaders);
+});
+
+const credentials = { username: 'ada', password: 'correct horse' };
+
+describe('sessions', () => {
+  test('signing up signs the browser in', async () => {
+    jar.clear();
+    await signUp(credentials);
+
+    const session = await getSession();
+    expect(session?.user.username).toBe('ada');
+    expect(session?.name).toBe('ada');
+  });
+
+  test('a cookie with an edited payload is ignored', async () => {
+    const [payload, signature] = (jar.get(SESSION_COOKIE) ?? '').split('.');
+    const edited = {
+      ...JSON.parse(Buffer.from(payload, 'base64url').toString()),
+      name: 'someone else',
+    };
+    jar.set(
+      SESSION_COOKIE,
+      `${Buffer.from(JSON.stringify(edited)).toString('base64url')}.${signature}`
+    );
+
+    expect(await getSession()).toBeUndefined();
+  });
+
+  test('an expired session is ignored and deleted', async () => {
+    jar.clear();
+    await signIn(credentials);
+    const session = await getSession();
+    if (!session) throw new Error('Not signed in');
+
+    await database()
+      .db.update(sessions)
+      .set({ expiresAt: new Date(Date.now() - 1000) })
+      .where(eq(sessions.id, session.id));
+
+    expect(await getSession()).toBeUndefined();
+    expect(
+      await database().db.query.sessions.findFirst({
+        where: eq(sessions.id, session.id),
+      })
+    ).toBeUndefined();
+  });
+
+  test('a wrong password or unknown username is turned away', async () => {
+    jar.clear();
+    const wrong = signIn({ ...credentials, password: 'wrong horse' });
+    await expect(wrong).rejects.toThrow(AuthError);
+    await expect(wrong).rejects.toThrow('Wrong username or password');
+    await expect(signIn({ ...credentials, username: 'grace' })).rejects.toThrow(
+      'Wrong username or password'
+    );
+    expect(jar.has(SESSION_COOKIE)).toBe(false);
+  });
+
+  test('signing out revokes the session', async () => {
+    await signIn(credentials);
+    const value = jar.get(SESSION_COOKIE);
+    await signOut();
+
+    jar.set(SESSION_COOKIE, value ?? '');
+    expect(await getSession()).toBeUndefined();
+  });
+});
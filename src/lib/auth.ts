@@ -0,0 +1,324 @@
+import {
+  createHmac,
+  randomBytes,
+  type ScryptOptions,
+  scrypt,
+  timingSafeEqual,
+} from 'node:crypto';
+
+import { eq, lte } from 'drizzle-orm';
+import { cookies } from 'next/headers';
+import { z } from 'zod';
+
+import { db } from '@/lib/db/client';
+import { type Player, players } from '@/lib/db/schema/players';
+import {
+  sessions,
+  type User,
+  usernameSchema,
+  users,
+} from '@/lib/db/schema/users';
+import { isBusy, isUniqueViolation } from '@/lib/db/utils';
+import { env } from '@/lib/env';
+
+/**
+ * Sessions live in the `sessions` table; the browser holds an httpOnly cookie
+ * with the session id and display name, signed with AUTH_SECRET. A cookie
+ * only counts while its signature checks out and its session row exists, so
+ * nobody can pose as another player by editing it, and signing out revokes it.
+ * Expired rows are deleted when an expired cookie comes back or a session
+ * starts.
+ */
+
+const SESSION_COOKIE = 'coup.session';
+
+const SESSION_MAX_AGE = 60 * 60 * 24 * 90;
+
+const SCRYPT_KEY_LENGTH = 64;
+const SCRYPT_OPTIONS: ScryptOptions = { N: 16384, r: 8, p: 1 };
+
+export class AuthError extends Error {
+  name = 'AuthError';
+}
+
+export const credentialsSchema = z.object({
+  username: usernameSchema,
+  password: z
+    .string()
+    .min(8, 'Passwords need at least 8 characters')
+    .max(128, 'Passwords are at most 128 characters'),
+});
+
+export type Credentials = z.infer<typeof credentialsSchema>;
+
+export interface CurrentSession {
+  id: string;
+  /** Display name the cookie was signed with. */
+  name: string;
+  user: User;
+  player: Player | null;
+}
+
+// ============================================================================
+// Passwords
+// ============================================================================
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) =>
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, SCRYPT_OPTIONS, (error, key) =>
+      error ? reject(error) : resolve(key)
+    )
+  );
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt);
+  return `scrypt$${salt.toString('base64url')}$${key.toString('base64url')}`;
+}
+
+let dummyHash: Promise<string> | undefined;
+
+/**
+ * A hash of no one's password, so an unknown username takes as long to
+ * reject as a wrong password and response times do not reveal accounts.
+ */
+function dummyPasswordHash(): Promise<string> {
+  dummyHash ??= hashPassword(randomBytes(16).toString('base64url'));
+  return dummyHash;
+}
+
+export async function verifyPassword(
+  password: string,
+  hash: string
+): Promise<boolean> {
+  const [scheme, salt, expected] = hash.split('$');
+  if (scheme !== 'scrypt' || !salt || !expected) return false;
+
+  const key = await deriveKey(password, Buffer.from(salt, 'base64url'));
+  const stored = Buffer.from(expected, 'base64url');
+  return stored.length === key.length && timingSafeEqual(stored, key);
+}
+
+// ============================================================================
+// Cookies
+// ============================================================================
+
+const cookiePayloadSchema = z.object({ sid: z.string(), name: z.string() });
+
+function sign(value: string): string {
+  return createHmac('sha256', env.AUTH_SECRET)
+    .update(value)
+    .digest('base64url');
+}
+
+function encodeCookie(sessionId: string, name: string): string {
+  const payload = Buffer.from(
+    JSON.stringify({ sid: sessionId, name })
+  ).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/** The cookie's contents, or `null` when it was not signed by this server. */
+function decodeCookie(value: string) {
+  const [payload, signature] = value.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const parsed = cookiePayloadSchema.safeParse(
+      JSON.parse(Buffer.from(payload, 'base64url').toString())
+    );
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeCookie(sessionId: string, name: string, maxAge: number) {
+  (await cookies()).set(SESSION_COOKIE, encodeCookie(sessionId, name), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: env.NODE_ENV === 'production',
+    maxAge,
+    path: '/',
+  });
+}
+
+// ============================================================================
+// Sessions
+// ============================================================================
+
+/**
+ * Deletes every expired session. Skipped while another write holds the
+ * database; the next expired cookie or new session tries again.
+ */
+async function purgeExpiredSessions(): Promise<void> {
+  try {
+    await db.delete(sessions).where(lte(sessions.expiresAt, new Date()));
+  } catch (error) {
+    if (!isBusy(error)) throw error;
+  }
+}
+
+/** The signed-in session of this request, if any. */
+export async function getSession(): Promise<CurrentSession | undefined> {
+  const value = (await cookies()).get(SESSION_COOKIE)?.value;
+  const cookie = value ? decodeCookie(value) : null;
+  if (!cookie) return undefined;
+
+  const session = await db.query.sessions.findFirst({
+    where: eq(sessions.id, cookie.sid),
+    with: { user: { with: { player: true } } },
+  });
+  if (!session) return undefined;
+  if (session.expiresAt <= new Date()) {
+    await purgeExpiredSessions();
+    return undefined;
+  }
+
+  const { player, ...user } = session.user;
+  return { id: session.id, name: cookie.name, user, player: player ?? null };
+}
+
+/**
+ * Signs the browser in as `userId` with a fresh session. Only callable from
+ * Server Actions and Route Handlers, where cookies can be written.
+ */
+export async function startSession(
+  userId: string,
+  name: string
+): Promise<void> {
+  await purgeExpiredSessions();
+
+  const expiresAt = new Date(Date.now() + SESSION_MAX_AGE * 1000);
+  const [session] = await db
+    .insert(sessions)
+    .values({ userId, expiresAt })
+    .returning();
+
+  await writeCookie(session.id, name, SESSION_MAX_AGE);
+}
+
+/** Re-signs the cookie after the player changed their display name. */
+export async function renameSession(
+  session: CurrentSession,
+  name: string
+): Promise<void> {
+  const row = await db.query.sessions.findFirst({
+    where: eq(sessions.id, session.id),
+  });
+  if (!row) return;
+
+  const maxAge = Math.floor((row.expiresAt.getTime() - Date.now()) / 1000);
+  await writeCookie(session.id, name, Math.max(0, maxAge));
+}
+
+export async function endSession(): Promise<void> {
+  const session = await getSession();
+  if (session) await db.delete(sessions).where(eq(sessions.id, session.id));
+  (await cookies()).delete(SESSION_COOKIE);
+}
+
+// ============================================================================
+// Accounts
+// ============================================================================
+
+/** A guest user with their player, signed in right away. */
+export async function startGuestSession(name: string): Promise<Player> {
+  const player = await db.transaction(async (tx) => {
+    const [user] = await tx.insert(users).values({}).returning();
+    const [created] = await tx
+      .insert(players)
+      .values({ userId: user.id, name })
+      .returning();
+    return created;
+  });
+
+  await startSession(player.userId as string, name);
+  return player;
+}
+
+/** Sign-ups racing for the same name are settled by the unique index. */
+async function claimUsername<T>(write: () => Promise<T>): Promise<T> {
+  try {
+    return await write();
+  } catch (error) {
+    if (isUniqueViolation(error)) throw new AuthError('That username is taken');
+    throw error;
+  }
+}
+
+async function usernameTaken(username: string): Promise<boolean> {
+  const existing = await db.query.users.findFirst({
+    where: eq(users.username, username),
+    columns: { id: true },
+  });
+  return !!existing;
+}
+
+/**
+ * Creates an account. A guest keeps their player and seats: the guest user
+ * becomes the account. Starts a new session either way.
+ */
+export async function signUp({ username, password }: Credentials) {
+  const current = await getSession();
+  if (current?.user.username) throw new AuthError('You are already signed in');
+  if (await usernameTaken(username)) {
+    throw new AuthError('That username is taken');
+  }
+
+  const passwordHash = await hashPassword(password);
+
+  if (current) {
+    await claimUsername(() =>
+      db
+        .update(users)
+        .set({ username, passwordHash })
+        .where(eq(users.id, current.user.id))
+    );
+    // A new session id, so a cookie copied while a guest does not carry over
+    await endSession();
+    await startSession(current.user.id, current.player?.name ?? username);
+    return;
+  }
+
+  const user = await claimUsername(() =>
+    db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(users)
+        .values({ username, passwordHash })
+        .returning();
+      await tx.insert(players).values({ userId: created.id, name: username });
+      return created;
+    })
+  );
+  await startSession(user.id, username);
+}
+
+/** Signs in to an account, leaving any guest session behind. */
+export async function signIn({ username, password }: Credentials) {
+  const user = await db.query.users.findFirst({
+    where: eq(users.username, username),
+    with: { player: true },
+  });
+  const valid = await verifyPassword(
+    password,
+    user?.passwordHash ?? (await dummyPasswordHash())
+  );
+  if (!user?.passwordHash || !valid) {
+    throw new AuthError('Wrong username or password');
+  }
+
+  await endSession();
+  await startSession(user.id, user.player?.name ?? username);
+}
+
+export async function signOut(): Promise<void> {
+  await endSession();
+}
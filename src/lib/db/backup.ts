@@ -0,0 +1,242 @@
+import { mkdir, open, readdir, readFile, rm, stat } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+
+import {
+  type Client,
+  createClient,
+  type InValue,
+  type ResultSet,
+  type Transaction,
+} from '@libsql/client';
+
+import { client, target } from '@/lib/db/client';
+
+export const DEFAULT_BACKUP_DIR = '.db-backups';
+
+const SNAPSHOT_EXTENSION = '.sql';
+
+/** Rows read per query while dumping, so big tables never sit in memory. */
+const DUMP_PAGE_SIZE = 500;
+
+export interface Snapshot {
+  path: string;
+  name: string;
+  size: number;
+  createdAt: Date;
+}
+
+export interface SnapshotResult {
+  path: string;
+  tables: number;
+  rows: number;
+}
+
+interface SchemaEntry {
+  type: string;
+  name: string;
+  sql: string;
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replaceAll('"', '""')}"`;
+}
+
+function toSqlLiteral(value: InValue): string {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  if (typeof value === 'string') return `'${value.replaceAll("'", "''")}'`;
+  if (value instanceof Date) return value.getTime().toString();
+
+  const bytes =
+    value instanceof ArrayBuffer
+      ? new Uint8Array(value)
+      : (value as Uint8Array);
+  return `X'${Buffer.from(bytes).toString('hex')}'`;
+}
+
+/**
+ * A connection of its own that reads integers as bigints: `client` returns
+ * plain numbers, which lose precision beyond 2^53. It reads the primary, so an
+ * embedded replica is not opened twice.
+ */
+function createDumpClient(): Client {
+  return createClient({
+    url: target.syncUrl ?? target.url,
+    authToken: target.authToken,
+    intMode: 'bigint',
+  });
+}
+
+/** Writes the table's statements as it goes; returns the number of rows. */
+async function dumpTable(
+  dump: Transaction,
+  tableName: string,
+  write: (lines: string[]) => Promise<void>
+): Promise<number> {
+  const schema = await dump.execute({
+    sql: `SELECT type, name, sql FROM sqlite_master
+          WHERE tbl_name = ? AND sql IS NOT NULL
+          ORDER BY CASE type WHEN 'table' THEN 0 ELSE 1 END, name`,
+    args: [tableName],
+  });
+  const entries = schema.rows as unknown as SchemaEntry[];
+  const table = entries.find((e) => e.type === 'table');
+
+  if (!table) return 0;
+
+  await write([
+    `-- Table: ${tableName}`,
+    `DROP TABLE IF EXISTS ${quoteIdentifier(tableName)};`,
+    `${table.sql};`,
+  ]);
+
+  // Pages continue after the last rowid seen; tables without one use offsets
+  const keyed = !/\bWITHOUT\s+ROWID\b/i.test(table.sql);
+  const from = quoteIdentifier(tableName);
+  let rows = 0;
+  let after: InValue = null;
+
+  for (;;) {
+    const page: ResultSet = await dump.execute(
+      !keyed
+        ? {
+            sql: `SELECT * FROM ${from} LIMIT ? OFFSET ?`,
+            args: [DUMP_PAGE_SIZE, rows],
+          }
+        : after === null
+          ? {
+              sql: `SELECT _rowid_, * FROM ${from} ORDER BY _rowid_ LIMIT ?`,
+              args: [DUMP_PAGE_SIZE],
+            }
+          : {
+              sql: `SELECT _rowid_, * FROM ${from} WHERE _rowid_ > ? ORDER BY _rowid_ LIMIT ?`,
+              args: [after, DUMP_PAGE_SIZE],
+            }
+    );
+
+    const skip = keyed ? 1 : 0;
+    const columns = page.columns.slice(skip);
+    const names = columns.map(quoteIdentifier).join(', ');
+    await write(
+      page.rows.map((row) => {
+        const values = columns
+          .map((_, i) => toSqlLiteral(row[i + skip]))
+          .join(', ');
+        return `INSERT INTO ${from} (${names}) VALUES (${values});`;
+      })
+    );
+
+    rows += page.rows.length;
+    if (page.rows.length < DUMP_PAGE_SIZE) break;
+    if (keyed) after = page.rows[page.rows.length - 1][0];
+  }
+
+  // Indexes and triggers are recreated after the rows to keep inserts fast
+  await write(
+    entries.filter((e) => e.type !== 'table').map((e) => `${e.sql};`)
+  );
+
+  return rows;
+}
+
+function snapshotFileName(label: string): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return `${timestamp}-${label}${SNAPSHOT_EXTENSION}`;
+}
+
+/**
+ * Dumps the schema and rows of the given tables into a timestamped SQL file.
+ * The file is a self-contained script that recreates the tables on restore.
+ * Every table is read in one read transaction, so writes made during the dump
+ * never leave the tables out of step with each other.
+ */
+export async function createSnapshot(
+  tables: string[],
+  options: { dir: string; label: string }
+): Promise<SnapshotResult> {
+  const dir = resolve(options.dir);
+  await mkdir(dir, { recursive: true });
+
+  const path = join(dir, snapshotFileName(options.label));
+  const file = await open(path, 'w');
+  const write = async (lines: string[]) => {
+    if (lines.length > 0) await file.write(`${lines.join('\n')}\n`);
+  };
+  const reader = createDumpClient();
+  let dump: Transaction | undefined;
+  let rows = 0;
+
+  try {
+    dump = await reader.transaction('read');
+    await write([
+      `-- Database snapshot (${options.label})`,
+      `-- Created: ${new Date().toISOString()}`,
+      `-- Tables: ${tables.join(', ')}`,
+      'PRAGMA foreign_keys = OFF;',
+      'BEGIN;',
+    ]);
+    for (const tableName of tables) {
+      rows += await dumpTable(dump, tableName, write);
+      await write(['']);
+    }
+    await write(['COMMIT;', 'PRAGMA foreign_keys = ON;']);
+  } catch (error) {
+    // A partial snapshot must not be mistaken for a usable one
+    await file.close();
+    await rm(path, { force: true });
+    throw error;
+  } finally {
+    dump?.close();
+    reader.close();
+  }
+  await file.close();
+
+  return { path, tables: tables.length, rows };
+}
+
+/**
+ * Lists snapshots in the backup directory, newest first.
+ */
+export async function listSnapshots(dir: string): Promise<Snapshot[]> {
+  const root = resolve(dir);
+  let files: string[];
+
+  try {
+    files = await readdir(root);
+  } catch {
+    return [];
+  }
+
+  const snapshots = await Promise.all(
+    files
+      .filter((name) => name.endsWith(SNAPSHOT_EXTENSION))
+      .map(async (name) => {
+        const path = join(root, name);
+        const info = await stat(path);
+        return { path, name, size: info.size, createdAt: info.mtime };
+      })
+  );
+
+  return snapshots.sort((a, b) => b.name.localeCompare(a.name));
+}
+
+/**
+ * Replays a snapshot into the configured database. The snapshot wraps its
+ * statements in a transaction, so a failed restore changes nothing.
+ */
+export async function restoreSnapshot(path: string): Promise<void> {
+  const script = await readFile(path, 'utf8');
+
+  try {
+    await client.executeMultiple(script);
+  } catch (error) {
+    // executeMultiple stops at the failing statement, leaving BEGIN open
+    await client
+      .executeMultiple('ROLLBACK; PRAGMA foreign_keys = ON;')
+      .catch(() => undefined);
+    throw error;
+  }
+}
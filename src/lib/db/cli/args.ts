@@ -0,0 +1,38 @@
+import { parseArgs } from 'node:util';
+
+import { DEFAULT_BACKUP_DIR } from '@/lib/db/backup';
+
+export const { values, positionals } = parseArgs({
+  args: Bun.argv,
+  options: {
+    confirm: { type: 'boolean', default: false },
+    tables: { type: 'string' },
+    'dry-run': { type: 'boolean', default: false },
+    drop: { type: 'boolean', default: false },
+    interactive: { type: 'boolean', default: true },
+    prefix: { type: 'string' },
+    'all-prefixes': { type: 'boolean', default: false },
+    'no-transaction': { type: 'boolean', default: false },
+    'backup-dir': { type: 'string', default: DEFAULT_BACKUP_DIR },
+    'no-backup': { type: 'boolean', default: false },
+    all: { type: 'boolean', default: false },
+    'allow-destructive': { type: 'boolean', default: false },
+    where: { type: 'string', multiple: true },
+    'older-than': { type: 'string' },
+    column: { type: 'string', default: 'created_at' },
+    games: { type: 'string', default: '1000' },
+    players: { type: 'string', default: '4' },
+    strategies: { type: 'string', default: 'random,honest,heuristic' },
+    seed: { type: 'string' },
+    scenario: { type: 'string' },
+    save: { type: 'boolean', default: false },
+    json: { type: 'boolean', default: false },
+    quiet: { type: 'boolean', default: false },
+    help: { type: 'boolean', short: 'h', default: false },
+  },
+  strict: true,
+  allowPositionals: true,
+});
+
+// Bun.argv starts with the runtime and script paths
+export const [, , command, ...commandArgs] = positionals;
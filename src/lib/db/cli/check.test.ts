@@ -0,0 +1,154 @@
+import { describe, expect, test } from 'bun:test';
+
+import { analyzeScript, unmirroredChanges } from '@/lib/db/cli/check';
+
+const BREAK = '--> statement-breakpoint\n';
+
+/** Snapshot of a schema with `coop.seats (id, room_id, name)`. */
+const SEATS = {
+  tables: {
+    'coop.seats': { columns: { id: {}, room_id: {}, name: {} } },
+  },
+};
+
+/** drizzle-kit's rebuild of `coop.seats` as `columns`, copying `copied`. */
+function rebuild(columns: string[], copied: string[]): string {
+  const list = (names: string[]) => names.map((n) => `\`${n}\``).join(', ');
+  return [
+    `CREATE TABLE \`__new_coop.seats\` (\n\t${columns.join(',\n\t')}\n);\n`,
+    `INSERT INTO \`__new_coop.seats\`(${list(copied)}) SELECT ${list(copied)} FROM \`coop.seats\`;`,
+    'DROP TABLE `coop.seats`;',
+    'ALTER TABLE `__new_coop.seats` RENAME TO `coop.seats`;',
+  ].join(BREAK);
+}
+
+describe('analyzeScript', () => {
+  test('dropping a table is destructive', () => {
+    expect(analyzeScript('DROP TABLE `coop.seats`;', SEATS)).toEqual([
+      {
+        level: 'destructive',
+        statement: 1,
+        message: 'Drops table coop.seats and every row in it',
+      },
+    ]);
+  });
+
+  test('dropping a column is destructive', () => {
+    const script = [
+      'ALTER TABLE `coop.seats` ADD `bot` text;',
+      'ALTER TABLE `coop.seats` DROP COLUMN `name`;',
+    ].join(BREAK);
+
+    expect(analyzeScript(script, SEATS)).toEqual([
+      {
+        level: 'destructive',
+        statement: 2,
+        message: 'Drops coop.seats.name and its data',
+      },
+    ]);
+  });
+
+  test('adding a NOT NULL column needs a default', () => {
+    const script = [
+      'ALTER TABLE `coop.seats` ADD `timeouts` integer DEFAULT 0 NOT NULL;',
+      'ALTER TABLE `coop.seats` ADD `won` integer NOT NULL;',
+    ].join(BREAK);
+
+    expect(analyzeScript(script, SEATS)).toEqual([
+      {
+        level: 'destructive',
+        statement: 2,
+        message:
+          'Adds coop.seats.won NOT NULL without a default; fails if coop.seats has rows',
+      },
+    ]);
+  });
+
+  test('a rebuild copying every column is only a warning', () => {
+    const script = rebuild(
+      [
+        '`id` text PRIMARY KEY NOT NULL',
+        '`room_id` text NOT NULL',
+        '`name` text',
+      ],
+      ['id', 'room_id', 'name']
+    );
+
+    expect(analyzeScript(script, SEATS)).toEqual([
+      {
+        level: 'warning',
+        statement: 3,
+        message: 'Rebuilds coop.seats, copying every row',
+      },
+    ]);
+  });
+
+  test('a rebuild leaving columns behind or unfilled is destructive', () => {
+    const script = rebuild(
+      [
+        '`id` text PRIMARY KEY NOT NULL',
+        '`room_id` text NOT NULL',
+        '`position` integer NOT NULL',
+      ],
+      ['id', 'room_id']
+    );
+
+    expect(analyzeScript(script, SEATS)).toEqual([
+      {
+        level: 'destructive',
+        statement: 3,
+        message: 'Rebuilds coop.seats without name; their data is lost',
+      },
+      {
+        level: 'destructive',
+        statement: 3,
+        message:
+          'Rebuilds coop.seats with position NOT NULL and no default; fails if coop.seats has rows',
+      },
+    ]);
+  });
+
+  test('altering a column to NOT NULL is destructive, otherwise a warning', () => {
+    const script = [
+      'ALTER TABLE `coop.seats` ALTER COLUMN "name" TO "name" text;',
+      'ALTER TABLE `coop.seats` ALTER COLUMN "room_id" TO "room_id" text NOT NULL;',
+    ].join(BREAK);
+
+    expect(analyzeScript(script, SEATS)).toEqual([
+      {
+        level: 'warning',
+        statement: 1,
+        message: 'Changes the definition of coop.seats.name',
+      },
+      {
+        level: 'destructive',
+        statement: 2,
+        message:
+          'Makes coop.seats.room_id NOT NULL without a default; fails if a row has no value',
+      },
+    ]);
+  });
+});
+
+describe('unmirroredChanges', () => {
+  const up = [
+    'DROP INDEX "coop.room_timers_deadline_idx";',
+    'ALTER TABLE `coop.room_timers` ALTER COLUMN "deadline" TO "deadline" integer;',
+    'ALTER TABLE `coop.room_timers` ADD `bots_at` integer;',
+    'CREATE INDEX `coop.room_timers_deadline_idx` ON `coop.room_timers` (`deadline`);',
+    'CREATE INDEX `coop.room_timers_bots_at_idx` ON `coop.room_timers` (`bots_at`);',
+  ].join(BREAK);
+
+  test('names the changes a down leaves in place', () => {
+    const down = [
+      'DROP INDEX `coop.room_timers_bots_at_idx`;',
+      'ALTER TABLE `coop.room_timers` DROP COLUMN `bots_at`;',
+    ].join(BREAK);
+
+    expect(unmirroredChanges(up, down)).toEqual(['coop.room_timers.deadline']);
+  });
+
+  test('dropping the table undoes everything in it', () => {
+    expect(unmirroredChanges(up, 'DROP TABLE `coop.room_timers`;')).toEqual([]);
+  });
+});
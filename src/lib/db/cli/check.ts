@@ -0,0 +1,542 @@
+/**
+ * `check` command and the migration risk analysis `migrate` and `rollback`
+ * share.
+ *
+ * Generated SQL is read statement by statement and compared with the schema
+ * snapshot drizzle-kit wrote for the migration before it. Steps that lose
+ * data, or fail on a table that already has rows, are destructive and need
+ * `--allow-destructive` (or a yes at the prompt) before they are applied.
+ * Other risky steps are reported as warnings.
+ *
+ * Down-migrations are written by hand as `down/<tag>.sql` next to the
+ * migrations. drizzle-kit never touches them; `rollback` runs them. A down
+ * that leaves a table, column or index of its migration as the migration
+ * changed it is reported too.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { values } from '@/lib/db/cli/args';
+import {
+  DOWN_FOLDER,
+  getMigrations,
+  MIGRATIONS_FOLDER,
+  type MigrationInfo,
+  migrationsPath,
+} from '@/lib/db/cli/migrate';
+import {
+  c,
+  icons,
+  log,
+  logError,
+  machineOutput,
+  promptYesNo,
+  section,
+  spinner,
+} from '@/lib/db/cli/output';
+import { type ReportStatus, report } from '@/lib/db/cli/report';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RiskLevel = 'destructive' | 'warning';
+
+export interface MigrationRisk {
+  level: RiskLevel;
+  /** 1-based position of the statement in the file. */
+  statement: number;
+  message: string;
+}
+
+export interface MigrationAnalysis {
+  tag: string;
+  /** `down/<tag>.sql`, which `rollback` runs. */
+  hasDown: boolean;
+  risks: MigrationRisk[];
+}
+
+/** The part of a drizzle-kit `meta/<idx>_snapshot.json` the checks read. */
+interface SchemaSnapshot {
+  tables: Record<string, { columns: Record<string, unknown> }>;
+}
+
+/** A table, column or index a migration script creates, drops or alters. */
+interface SchemaChange {
+  /** Table the change is in, when the statement names it. */
+  table: string | null;
+  /** `<table>`, `<table>.<column>` or `index <name>`. */
+  name: string;
+}
+
+/** A `__new_<table>` being filled from `<table>`, drizzle's way to alter. */
+interface Rebuild {
+  columns: { name: string; required: boolean }[];
+  copied: string[];
+}
+
+const STATEMENT_BREAKPOINT = '--> statement-breakpoint';
+
+const REBUILD_PREFIX = '__new_';
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/** Statements of a migration file, without comments. */
+export function splitStatements(script: string): string[] {
+  return script
+    .split(STATEMENT_BREAKPOINT)
+    .flatMap((chunk) => chunk.split(/;\s*$/m))
+    .map((statement) =>
+      statement
+        .split('\n')
+        .filter((line) => !line.trim().startsWith('--'))
+        .join('\n')
+        .trim()
+    )
+    .filter(Boolean);
+}
+
+/** Identifier as written in SQL, quoted with backticks, quotes or not. */
+const IDENTIFIER = '[`"]?([^`"\\s(]+)[`"]?';
+
+function match(statement: string, pattern: string): string[] | null {
+  const found = new RegExp(`^${pattern}`, 'is').exec(statement);
+  return found ? found.slice(1) : null;
+}
+
+function columnNames(list: string): string[] {
+  return list.split(',').map((name) => name.trim().replace(/^[`"]|[`"]$/g, ''));
+}
+
+/** Column definitions of a CREATE TABLE body; constraints are skipped. */
+function columnDefinitions(body: string): Rebuild['columns'] {
+  return body
+    .split(/,\s*\n/)
+    .map((line) => line.trim())
+    .filter((line) => /^[`"]/.test(line))
+    .map((line) => ({
+      name: line.slice(1, line.indexOf(line[0], 1)),
+      required: requiresValue(line),
+    }));
+}
+
+/** NOT NULL without a default: existing rows have nothing to put there. */
+function requiresValue(definition: string): boolean {
+  return /\bNOT NULL\b/i.test(definition) && !/\bDEFAULT\b/i.test(definition);
+}
+
+/** Schema after the migration at `index` in the journal. */
+export async function readSnapshot(
+  index: number
+): Promise<SchemaSnapshot | null> {
+  if (index < 0) return null;
+  const file = `${String(index).padStart(4, '0')}_snapshot.json`;
+  try {
+    return JSON.parse(
+      await readFile(join(MIGRATIONS_FOLDER, 'meta', file), 'utf8')
+    ) as SchemaSnapshot;
+  } catch {
+    return null;
+  }
+}
+
+export async function readDownMigration(tag: string): Promise<string | null> {
+  try {
+    return await readFile(join(DOWN_FOLDER, `${tag}.sql`), 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+/**
+ * Risky steps in a migration script. `before` is the schema the script runs
+ * against, used to tell which columns a table rebuild leaves behind.
+ */
+export function analyzeScript(
+  script: string,
+  before: SchemaSnapshot | null
+): MigrationRisk[] {
+  const statements = splitStatements(script);
+  const rebuilds = new Map<string, Rebuild>();
+  const risks: MigrationRisk[] = [];
+
+  statements.forEach((statement, index) => {
+    const add = (level: RiskLevel, message: string) =>
+      risks.push({ level, statement: index + 1, message });
+
+    const created = match(
+      statement,
+      `CREATE TABLE ${IDENTIFIER}\\s*\\((.*)\\)$`
+    );
+    if (created?.[0].startsWith(REBUILD_PREFIX)) {
+      rebuilds.set(created[0].slice(REBUILD_PREFIX.length), {
+        columns: columnDefinitions(created[1]),
+        copied: [],
+      });
+      return;
+    }
+
+    const copied = match(
+      statement,
+      `INSERT INTO ${IDENTIFIER}\\s*\\(([^)]*)\\)\\s*SELECT`
+    );
+    if (copied?.[0].startsWith(REBUILD_PREFIX)) {
+      const rebuild = rebuilds.get(copied[0].slice(REBUILD_PREFIX.length));
+      if (rebuild) rebuild.copied = columnNames(copied[1]);
+      return;
+    }
+
+    const droppedTable = match(
+      statement,
+      `DROP TABLE (?:IF EXISTS )?${IDENTIFIER}`
+    );
+    if (droppedTable) {
+      const [table] = droppedTable;
+      const rebuild = rebuilds.get(table);
+      if (!rebuild) {
+        add('destructive', `Drops table ${table} and every row in it`);
+        return;
+      }
+
+      const lost = Object.keys(before?.tables[table]?.columns ?? {}).filter(
+        (column) => !rebuild.copied.includes(column)
+      );
+      const unfilled = rebuild.columns.filter(
+        (column) => column.required && !rebuild.copied.includes(column.name)
+      );
+      if (lost.length > 0) {
+        add(
+          'destructive',
+          `Rebuilds ${table} without ${lost.join(', ')}; their data is lost`
+        );
+      }
+      for (const column of unfilled) {
+        add(
+          'destructive',
+          `Rebuilds ${table} with ${column.name} NOT NULL and no default; fails if ${table} has rows`
+        );
+      }
+      if (lost.length === 0 && unfilled.length === 0) {
+        add('warning', `Rebuilds ${table}, copying every row`);
+      }
+      return;
+    }
+
+    const droppedColumn = match(
+      statement,
+      `ALTER TABLE ${IDENTIFIER} DROP (?:COLUMN )?${IDENTIFIER}`
+    );
+    if (droppedColumn) {
+      const [table, column] = droppedColumn;
+      add('destructive', `Drops ${table}.${column} and its data`);
+      return;
+    }
+
+    const addedColumn = match(
+      statement,
+      `ALTER TABLE ${IDENTIFIER} ADD (?:COLUMN )?${IDENTIFIER}(.*)`
+    );
+    if (addedColumn) {
+      const [table, column, definition] = addedColumn;
+      if (requiresValue(definition)) {
+        add(
+          'destructive',
+          `Adds ${table}.${column} NOT NULL without a default; fails if ${table} has rows`
+        );
+      }
+      return;
+    }
+
+    const alteredColumn = match(
+      statement,
+      `ALTER TABLE ${IDENTIFIER} ALTER COLUMN ${IDENTIFIER} TO (.*)`
+    );
+    if (alteredColumn) {
+      const [table, column, definition] = alteredColumn;
+      if (requiresValue(definition)) {
+        add(
+          'destructive',
+          `Makes ${table}.${column} NOT NULL without a default; fails if a row has no value`
+        );
+      } else {
+        add('warning', `Changes the definition of ${table}.${column}`);
+      }
+      return;
+    }
+
+    const renamed = match(
+      statement,
+      `ALTER TABLE ${IDENTIFIER} RENAME (?:COLUMN ${IDENTIFIER} )?TO ${IDENTIFIER}`
+    );
+    if (renamed && !renamed[0].startsWith(REBUILD_PREFIX)) {
+      const [table, column, name] = renamed;
+      add(
+        'warning',
+        `Renames ${column ? `${table}.${column}` : table} to ${name}; code using the old name breaks`
+      );
+      return;
+    }
+
+    const droppedIndex = match(
+      statement,
+      `DROP INDEX (?:IF EXISTS )?${IDENTIFIER}`
+    );
+    if (droppedIndex) {
+      const [name] = droppedIndex;
+      const recreated = statements
+        .slice(index + 1)
+        .some(
+          (later) =>
+            match(
+              later,
+              `CREATE (?:UNIQUE )?INDEX (?:IF NOT EXISTS )?${IDENTIFIER}`
+            )?.[0] === name
+        );
+      if (!recreated) add('warning', `Drops index ${name}`);
+      return;
+    }
+
+    const deleted = match(statement, `DELETE FROM ${IDENTIFIER}`);
+    if (deleted) {
+      add('destructive', `Deletes rows from ${deleted[0]}`);
+      return;
+    }
+
+    const updated = match(statement, `UPDATE ${IDENTIFIER}`);
+    if (updated) {
+      add('warning', `Rewrites rows of ${updated[0]}`);
+    }
+  });
+
+  return risks;
+}
+
+/**
+ * Tables, columns and indexes a script changes. Indexes it drops and creates
+ * again, as drizzle-kit does around an altered column, are left out, and so
+ * are changes to rows.
+ */
+export function schemaChanges(script: string): SchemaChange[] {
+  const changes = new Map<string, SchemaChange>();
+  const droppedIndexes = new Set<string>();
+  const createdIndexes = new Set<string>();
+  const add = (table: string | null, name: string) => {
+    if (!changes.has(name)) changes.set(name, { table, name });
+  };
+  const unprefixed = (table: string) =>
+    table.startsWith(REBUILD_PREFIX)
+      ? table.slice(REBUILD_PREFIX.length)
+      : table;
+
+  for (const statement of splitStatements(script)) {
+    const table = match(
+      statement,
+      `(?:CREATE|DROP) TABLE (?:IF (?:NOT )?EXISTS )?${IDENTIFIER}`
+    );
+    if (table) {
+      add(unprefixed(table[0]), unprefixed(table[0]));
+      continue;
+    }
+
+    const column = match(
+      statement,
+      `ALTER TABLE ${IDENTIFIER} (?:ADD|DROP|ALTER) (?:COLUMN )?${IDENTIFIER}`
+    );
+    if (column) {
+      add(column[0], `${column[0]}.${column[1]}`);
+      continue;
+    }
+
+    const renamed = match(
+      statement,
+      `ALTER TABLE ${IDENTIFIER} RENAME (?:COLUMN ${IDENTIFIER} )?TO`
+    );
+    if (renamed && !renamed[0].startsWith(REBUILD_PREFIX)) {
+      add(renamed[0], renamed[1] ? `${renamed[0]}.${renamed[1]}` : renamed[0]);
+      continue;
+    }
+
+    const createdIndex = match(
+      statement,
+      `CREATE (?:UNIQUE )?INDEX (?:IF NOT EXISTS )?${IDENTIFIER} ON ${IDENTIFIER}`
+    );
+    if (createdIndex) {
+      createdIndexes.add(createdIndex[0]);
+      add(createdIndex[1], `index ${createdIndex[0]}`);
+      continue;
+    }
+
+    const droppedIndex = match(
+      statement,
+      `DROP INDEX (?:IF EXISTS )?${IDENTIFIER}`
+    );
+    if (droppedIndex) {
+      droppedIndexes.add(droppedIndex[0]);
+      add(null, `index ${droppedIndex[0]}`);
+    }
+  }
+
+  for (const index of droppedIndexes) {
+    if (createdIndexes.has(index)) changes.delete(`index ${index}`);
+  }
+  return [...changes.values()];
+}
+
+/**
+ * Changes of `up` that `down` leaves in place. A down that creates, drops or
+ * rebuilds a whole table undoes every change within it.
+ */
+export function unmirroredChanges(up: string, down: string): string[] {
+  const undone = schemaChanges(down);
+  return schemaChanges(up)
+    .filter(
+      (change) =>
+        !undone.some(
+          (other) =>
+            other.name === change.name ||
+            (change.table !== null && other.name === change.table)
+        )
+    )
+    .map((change) => change.name);
+}
+
+/** Risks of each migration; `index` is its position in the journal. */
+export async function analyzeMigrations(
+  migrations: MigrationInfo[]
+): Promise<MigrationAnalysis[]> {
+  const all = await getMigrations();
+
+  return Promise.all(
+    migrations.map(async (migration) => {
+      const index = all.findIndex((m) => m.tag === migration.tag);
+      const [script, before, down] = await Promise.all([
+        readFile(join(MIGRATIONS_FOLDER, `${migration.tag}.sql`), 'utf8'),
+        readSnapshot(index - 1),
+        readDownMigration(migration.tag),
+      ]);
+      const risks = analyzeScript(script, before);
+      if (down === null) {
+        risks.push({
+          level: 'warning',
+          statement: 0,
+          message: 'Has no down-migration, so it cannot be rolled back',
+        });
+      } else {
+        for (const name of unmirroredChanges(script, down)) {
+          risks.push({
+            level: 'warning',
+            statement: 0,
+            message: `Its down-migration does not undo the change to ${name}`,
+          });
+        }
+      }
+      return { tag: migration.tag, hasDown: down !== null, risks };
+    })
+  );
+}
+
+export function isDestructive(risks: MigrationRisk[]): boolean {
+  return risks.some((risk) => risk.level === 'destructive');
+}
+
+// ============================================================================
+// Output
+// ============================================================================
+
+export function displayRisks(title: string, risks: MigrationRisk[]): void {
+  const mark = isDestructive(risks)
+    ? c.error(icons.error)
+    : risks.length > 0
+      ? c.warning(icons.warning)
+      : c.success(icons.success);
+  log(`  ${mark} ${c.bold(title)}`);
+
+  risks.forEach((risk) => {
+    const where =
+      risk.statement > 0 ? c.gray(` (statement ${risk.statement})`) : '';
+    const message =
+      risk.level === 'destructive'
+        ? c.error(risk.message)
+        : c.warning(risk.message);
+    log(`      ${icons.bullet} ${message}${where}`);
+  });
+}
+
+/**
+ * Whether destructive steps may run: `--allow-destructive`, or a yes at the
+ * prompt. Scripts never get a prompt, so they must pass the flag.
+ */
+export function acknowledgeDestructive(question: string): boolean {
+  if (values['allow-destructive']) return true;
+
+  if (machineOutput || !values.interactive) {
+    logError(
+      c.error(
+        `${icons.error} Refusing to run destructive steps without --allow-destructive`
+      )
+    );
+    report.errors.push(
+      'Refusing to run destructive steps without --allow-destructive'
+    );
+    return false;
+  }
+
+  log('');
+  return promptYesNo(question, false);
+}
+
+// ============================================================================
+// Check Command
+// ============================================================================
+
+/**
+ * Reports the risks of pending migrations, or of every migration with
+ * `--all`. Fails when one is destructive, so it can gate a deploy.
+ */
+export async function check(): Promise<ReportStatus> {
+  const migrations = await spinner(getMigrations(), 'Reading migrations');
+  const selected = values.all
+    ? migrations
+    : migrations.filter((m) => !m.applied);
+
+  section('🔎 Migration check');
+
+  if (selected.length === 0) {
+    log(c.dim(`  No pending migrations in ${migrationsPath}`));
+    log('');
+    log(c.info(`${icons.info} Nothing to check.`));
+    return 'nothing-to-do';
+  }
+
+  const analyses = await analyzeMigrations(selected);
+  report.risks = analyses;
+
+  analyses.forEach((analysis) => {
+    displayRisks(analysis.tag, analysis.risks);
+  });
+
+  const destructive = analyses.filter((a) => isDestructive(a.risks));
+  log('');
+  if (destructive.length === 0) {
+    log(
+      c.success(
+        `${icons.success} No destructive steps in ${selected.length} migration${selected.length !== 1 ? 's' : ''}`
+      )
+    );
+    return 'success';
+  }
+
+  log(
+    c.error(
+      `${icons.error} ${destructive.length} migration${destructive.length !== 1 ? 's' : ''} with destructive steps; migrate asks before applying them`
+    )
+  );
+  return 'error';
+}
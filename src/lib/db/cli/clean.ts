@@ -0,0 +1,961 @@
+/**
+ * `clean`, `drop` and `restore` commands
+ *
+ * Tables are scoped to `env.DATABASE_PREFIX` by default, matching `createTable`
+ * and the `tablesFilter` in drizzle.config.ts, so projects sharing a database
+ * never touch each other's tables.
+ *
+ * Deletes and drops run in a single transaction by default and roll back on
+ * any error. `--no-transaction` applies each table on its own, which avoids
+ * holding one long write lock on very large databases.
+ *
+ * Before anything is deleted or dropped, the affected tables (schema + rows)
+ * are dumped to a timestamped SQL file under `--backup-dir` (default
+ * `.db-backups`). `restore` replays one of those files into the database.
+ *
+ * Foreign keys are read from `pragma_foreign_key_list` so tables are processed
+ * dependents-first, and selecting a table that unselected tables with rows
+ * still reference produces a warning (and an offer to include them).
+ *
+ * `--where` and `--older-than` switch to row-level cleanup: only tables with a
+ * predicate are touched, only matching rows are deleted, and autoincrement
+ * sequences are left alone.
+ *
+ * `--json` and `--quiet` never prompt or animate: destructive operations need
+ * `--confirm`, `--json` prints a single report on stdout, and errors go to
+ * stderr. Colors are disabled whenever stdout is not a TTY. Exit codes:
+ * 0 success, 1 error, 2 nothing to do, 3 cancelled, 4 partial failure.
+ */
+
+import { sql } from 'drizzle-orm';
+
+import {
+  createSnapshot,
+  listSnapshots,
+  restoreSnapshot,
+} from '@/lib/db/backup';
+import { commandArgs, values } from '@/lib/db/cli/args';
+import {
+  c,
+  canPrompt,
+  errorMessage,
+  formatDuration,
+  formatNumber,
+  icons,
+  log,
+  logError,
+  machineOutput,
+  promptChoice,
+  promptYesNo,
+  section,
+  spinner,
+} from '@/lib/db/cli/output';
+import {
+  type CleanupOutcome,
+  fail,
+  type Operation,
+  type ReportStatus,
+  recordTable,
+  report,
+} from '@/lib/db/cli/report';
+import {
+  type DbExecutor,
+  type ForeignKeyEdge,
+  findExternalDependents,
+  getAllTables,
+  getForeignKeys,
+  getTableStats,
+  getTablesWithColumn,
+  groupByPrefix,
+  hasSequenceTable,
+  orderByDependencies,
+  type PrefixScope,
+  qualifyTableName,
+  type RowFilter,
+  type RowFilters,
+  resolvePrefixScope,
+  type TableStats,
+} from '@/lib/db/cli/tables';
+import { db, target } from '@/lib/db/client';
+import { describeDatabaseTarget } from '@/lib/db/profiles';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface CleanupStats {
+  tablesProcessed: number;
+  totalRowsDeleted: number;
+  duration: number;
+  outcome: CleanupOutcome;
+}
+
+// ============================================================================
+// Table Selection
+// ============================================================================
+
+function filterTables(
+  allTables: string[],
+  scope: PrefixScope,
+  requestedTables?: string
+): string[] {
+  if (!requestedTables) {
+    return allTables;
+  }
+
+  const requested = requestedTables
+    .split(',')
+    .map((t) => t.trim())
+    .filter(Boolean)
+    .map((t) => qualifyTableName(t, allTables, scope));
+
+  const filtered = requested.filter((t) => allTables.includes(t));
+
+  const notFound = requested.filter((t) => !allTables.includes(t));
+  if (notFound.length > 0) {
+    log(c.warning(`${icons.warning} Tables not found: ${notFound.join(', ')}`));
+  }
+
+  return filtered;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+  w: 7 * 24 * 60 * 60,
+};
+
+/** Parses durations like `30m`, `12h` or `7d` into seconds. */
+function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^(\d+)\s*([smhdw])$/i);
+  if (!match) return null;
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2].toLowerCase()];
+}
+
+/**
+ * Builds an expression that is true for rows whose `column` is older than the
+ * cutoff. Handles drizzle's `timestamp` (seconds), `timestamp_ms` and ISO text.
+ */
+function olderThanPredicate(column: string, cutoffSeconds: number): string {
+  const col = `"${column.replaceAll('"', '""')}"`;
+  return `(CASE WHEN typeof(${col}) = 'text' THEN CAST(strftime('%s', ${col}) AS INTEGER) WHEN ${col} > 100000000000 THEN ${col} / 1000 ELSE ${col} END) < ${cutoffSeconds}`;
+}
+
+/**
+ * Collects `--where` and `--older-than` predicates per table. Multiple
+ * predicates on one table are combined with AND.
+ */
+async function resolveRowFilters(
+  allTables: string[],
+  scope: PrefixScope
+): Promise<RowFilters> {
+  const filters: RowFilters = new Map();
+  const add = (table: string, filter: RowFilter) => {
+    const existing = filters.get(table);
+    filters.set(
+      table,
+      existing
+        ? {
+            sql: `(${existing.sql}) AND (${filter.sql})`,
+            label: `${existing.label} AND ${filter.label}`,
+          }
+        : filter
+    );
+  };
+
+  for (const entry of values.where ?? []) {
+    const separator = entry.indexOf(':');
+    const expression = entry.slice(separator + 1).trim();
+
+    if (separator <= 0 || !expression) {
+      fail(`Invalid --where "${entry}", expected "table:expression"`);
+    }
+
+    const table = qualifyTableName(
+      entry.slice(0, separator).trim(),
+      allTables,
+      scope
+    );
+    if (!allTables.includes(table)) {
+      log(c.warning(`${icons.warning} Table not found: ${table}`));
+      continue;
+    }
+
+    add(table, { sql: expression, label: expression });
+  }
+
+  if (values['older-than']) {
+    const seconds = parseDuration(values['older-than']);
+
+    if (seconds === null) {
+      fail(
+        `Invalid --older-than "${values['older-than']}", expected e.g. 30m, 12h, 7d`
+      );
+    }
+
+    const cutoff = Math.floor(Date.now() / 1000) - seconds;
+    const tables = await getTablesWithColumn(allTables, values.column);
+
+    if (tables.length === 0) {
+      log(
+        c.warning(`${icons.warning} No tables have a "${values.column}" column`)
+      );
+    }
+
+    for (const table of tables) {
+      add(table, {
+        sql: olderThanPredicate(values.column, cutoff),
+        label: `${values.column} older than ${values['older-than']}`,
+      });
+    }
+  }
+
+  return filters;
+}
+
+/**
+ * Parses picker input such as `1 3 5-7` into zero-based indexes. Returns
+ * `null` when any token is not a valid number or range.
+ */
+function parseSelection(input: string, max: number): number[] | null {
+  const indexes: number[] = [];
+
+  for (const token of input.split(/[\s,]+/).filter(Boolean)) {
+    const match = token.match(/^(\d+)(?:-(\d+))?$/);
+    if (!match) return null;
+
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? parseInt(match[2], 10) : start;
+    if (start < 1 || end > max || start > end) return null;
+
+    for (let i = start; i <= end; i++) {
+      indexes.push(i - 1);
+    }
+  }
+
+  return indexes;
+}
+
+function renderTablePicker(
+  stats: TableStats[],
+  selected: Set<string>,
+  filter: string
+): void {
+  const width = stats.length.toString().length;
+
+  log('');
+  stats.forEach((stat, index) => {
+    if (filter && !stat.name.toLowerCase().includes(filter)) return;
+
+    const mark = selected.has(stat.name) ? c.success('[x]') : c.gray('[ ]');
+    const number = c.dim((index + 1).toString().padStart(width));
+    log(
+      `  ${number}${c.gray(')')} ${mark} ${c.bold(stat.name)} ${c.gray(`(${formatNumber(stat.rowCount)} rows)`)}`
+    );
+  });
+
+  log('');
+  log(
+    c.dim(
+      `Selected ${selected.size} of ${stats.length}${filter ? ` · filter: "${filter}"` : ''}`
+    )
+  );
+}
+
+/**
+ * Terminal multi-select over the given tables. Returns the chosen table names
+ * in their original order, or `null` if the user cancelled.
+ */
+function promptTableSelection(stats: TableStats[]): string[] | null {
+  const selected = new Set<string>();
+  let filter = '';
+
+  log(`\n${c.info(icons.question)} Select tables`);
+  log(
+    c.gray(
+      '  Toggle: 1 3 5-7 · all · none · /text to filter, / to clear · Enter to continue · q to cancel'
+    )
+  );
+
+  while (true) {
+    renderTablePicker(stats, selected, filter);
+
+    const visible = stats.filter(
+      (s) => !filter || s.name.toLowerCase().includes(filter)
+    );
+    const response = (prompt(`${c.dim('Selection')}: `) ?? '').trim();
+    const command = response.toLowerCase();
+
+    if (command === '') {
+      if (selected.size > 0) break;
+      log(c.warning(`${icons.warning} Select at least one table`));
+      continue;
+    }
+
+    if (command === 'q' || command === 'quit') {
+      return null;
+    }
+
+    // "all" and "none" apply to the tables visible under the current filter
+    if (command === 'all') {
+      for (const stat of visible) selected.add(stat.name);
+      continue;
+    }
+
+    if (command === 'none') {
+      for (const stat of visible) selected.delete(stat.name);
+      continue;
+    }
+
+    if (command.startsWith('/')) {
+      filter = command.slice(1).trim();
+      continue;
+    }
+
+    const indexes = parseSelection(command, stats.length);
+    if (!indexes) {
+      log(c.warning(`${icons.warning} Invalid selection: ${response}`));
+      continue;
+    }
+
+    for (const index of indexes) {
+      const name = stats[index].name;
+      if (selected.has(name)) {
+        selected.delete(name);
+      } else {
+        selected.add(name);
+      }
+    }
+  }
+
+  return stats.map((s) => s.name).filter((name) => selected.has(name));
+}
+
+// ============================================================================
+// Operation Functions
+// ============================================================================
+
+async function deleteTables(
+  tables: string[],
+  executor: DbExecutor = db,
+  filters: RowFilters = new Map()
+): Promise<number> {
+  let totalRows = 0;
+
+  for (const tableName of tables) {
+    const filter = filters.get(tableName);
+    const where = filter ? ` WHERE ${filter.sql}` : '';
+
+    let rowCount: number;
+    try {
+      const before = await executor.all<{ count: number }>(
+        sql.raw(`SELECT COUNT(*) as count FROM "${tableName}"${where}`)
+      );
+      rowCount = before[0]?.count ?? 0;
+
+      await executor.run(sql.raw(`DELETE FROM "${tableName}"${where}`));
+    } catch (error) {
+      recordTable(tableName, { status: 'failed', error: errorMessage(error) });
+      throw error;
+    }
+    totalRows += rowCount;
+    recordTable(tableName, { status: 'deleted', rowsDeleted: rowCount });
+
+    log(
+      `${c.success(icons.success)} ${c.bold(tableName)} ${c.gray(`(${formatNumber(rowCount)} rows deleted)`)}`
+    );
+  }
+
+  return totalRows;
+}
+
+async function dropTables(
+  tables: string[],
+  executor: DbExecutor = db
+): Promise<void> {
+  for (const tableName of tables) {
+    try {
+      await executor.run(sql.raw(`DROP TABLE IF EXISTS "${tableName}"`));
+    } catch (error) {
+      recordTable(tableName, { status: 'failed', error: errorMessage(error) });
+      throw error;
+    }
+    recordTable(tableName, { status: 'dropped' });
+    log(
+      `${c.success(icons.success)} ${c.bold(tableName)} ${c.gray('(dropped)')}`
+    );
+  }
+}
+
+/** Only the emptied tables; other projects may share `sqlite_sequence`. */
+async function resetSequences(
+  tables: string[],
+  executor: DbExecutor = db
+): Promise<void> {
+  if (tables.length > 0 && (await hasSequenceTable(executor))) {
+    await executor.run(
+      sql`DELETE FROM sqlite_sequence WHERE name IN (${sql.join(tables, sql`, `)})`
+    );
+    log(
+      `${c.success(icons.success)} ${c.dim('Reset autoincrement sequences')}`
+    );
+  }
+}
+
+async function runOperation(
+  operation: Operation,
+  tables: string[],
+  executor: DbExecutor,
+  filters: RowFilters
+): Promise<number> {
+  if (operation === 'drop') {
+    await dropTables(tables, executor);
+    return 0;
+  }
+
+  const totalRows = await deleteTables(tables, executor, filters);
+
+  // Sequences only restart once tables are emptied entirely
+  if (filters.size === 0) {
+    await resetSequences(tables, executor);
+  }
+  return totalRows;
+}
+
+// ============================================================================
+// Display Functions
+// ============================================================================
+
+function displayBanner(scope: PrefixScope): void {
+  log('');
+  log(c.bold('🗑️  Database Cleanup Utility'));
+  log(c.gray('   Clean or drop database tables with safety'));
+  log(
+    c.gray(`   Scope: ${scope === null ? 'all prefixes' : `${scope}.* tables`}`)
+  );
+  log('');
+}
+
+function displayDependencyGraph(
+  tables: string[],
+  edges: ForeignKeyEdge[]
+): void {
+  const selected = new Set(tables);
+  const relevant = edges.filter(
+    (e) => selected.has(e.from) || selected.has(e.to)
+  );
+
+  if (relevant.length === 0) return;
+
+  log('');
+  log(c.dim('Foreign keys:'));
+  relevant.forEach((edge) => {
+    const name = (table: string) =>
+      selected.has(table) ? table : c.gray(`${table} (not selected)`);
+    log(`  ${name(edge.from)} ${c.gray(icons.arrow)} ${name(edge.to)}`);
+  });
+}
+
+function displayDependents(
+  dependents: TableStats[],
+  operation: Operation
+): void {
+  log('');
+  log(
+    c.warning(
+      `${icons.warning} These tables are not selected but reference the selection:`
+    )
+  );
+  dependents.forEach((stat) => {
+    log(
+      `  ${icons.bullet} ${c.bold(stat.name)} ${c.gray(`(${formatNumber(stat.rowCount)} rows)`)}`
+    );
+  });
+  log(
+    c.warning(
+      `  Their rows will be left orphaned once the selected tables are ${operation === 'drop' ? 'dropped' : 'cleaned'}.`
+    )
+  );
+}
+
+function displayTableStats(
+  stats: TableStats[],
+  operation: Operation,
+  edges: ForeignKeyEdge[] = []
+): void {
+  const totalRows = stats.reduce(
+    (sum, s) => sum + (s.matchingRows ?? s.rowCount),
+    0
+  );
+
+  section(`📋 Tables to ${operation === 'drop' ? 'drop' : 'clean'}`);
+
+  for (const [prefix, group] of groupByPrefix(stats)) {
+    const groupRows = group.reduce((sum, s) => sum + s.rowCount, 0);
+    log(
+      `\n  ${c.info(prefix ?? '(no prefix)')} ${c.gray(`${group.length} table${group.length !== 1 ? 's' : ''}, ${formatNumber(groupRows)} rows`)}`
+    );
+
+    group.forEach((stat) => {
+      const rowInfo =
+        operation === 'drop'
+          ? c.gray('(schema + data)')
+          : stat.matchingRows !== undefined
+            ? c.gray(
+                `(${formatNumber(stat.matchingRows)} of ${formatNumber(stat.rowCount)} rows match)`
+              )
+            : c.gray(`(${formatNumber(stat.rowCount)} rows)`);
+      log(`    ${icons.bullet} ${c.bold(stat.name)} ${rowInfo}`);
+      if (stat.predicate) {
+        log(`      ${c.dim(`WHERE ${stat.predicate}`)}`);
+      }
+    });
+  }
+
+  displayDependencyGraph(
+    stats.map((s) => s.name),
+    edges
+  );
+
+  log('');
+  log(c.dim(`Total: ${stats.length} table${stats.length !== 1 ? 's' : ''}`));
+  if (operation === 'delete' && totalRows > 0) {
+    log(c.dim(`Rows to delete: ${formatNumber(totalRows)}`));
+  }
+}
+
+function displayWarning(
+  operation: Operation,
+  backupDir?: string,
+  rowLevel = false
+): void {
+  log('');
+  if (operation === 'drop') {
+    log(
+      c.error(
+        `${icons.warning} WARNING: This will DROP tables entirely (schema and data)!`
+      )
+    );
+    if (!backupDir) {
+      log(c.error(`${icons.warning} This action is IRREVERSIBLE!`));
+    }
+  } else {
+    log(
+      c.warning(
+        rowLevel
+          ? `${icons.warning} This will DELETE every matching row from the selected tables!`
+          : `${icons.warning} This will DELETE ALL DATA from the selected tables!`
+      )
+    );
+    if (!backupDir) {
+      log(c.warning(`${icons.warning} This action cannot be undone!`));
+    }
+  }
+  if (backupDir) {
+    log(
+      c.info(
+        `${icons.info} A snapshot will be saved to ${backupDir} first (undo with \`restore\`)`
+      )
+    );
+  }
+  log('');
+}
+
+function displayResults(stats: CleanupStats, operation: Operation): void {
+  if (stats.outcome === 'rolled-back') {
+    section('↩️  Cleanup Rolled Back');
+    log(`  ${icons.bullet} ${c.warning('Rolled back, nothing changed')}`);
+    log(
+      `  ${icons.bullet} Duration: ${c.bold(formatDuration(stats.duration))}`
+    );
+    log('');
+    return;
+  }
+
+  section('✅ Cleanup Complete');
+
+  if (stats.outcome === 'committed') {
+    log(
+      `  ${icons.bullet} ${c.success(`Committed ${stats.tablesProcessed} table${stats.tablesProcessed !== 1 ? 's' : ''}`)} ${c.gray('(single transaction)')}`
+    );
+  }
+
+  log(
+    `  ${icons.bullet} Tables ${operation === 'drop' ? 'dropped' : 'cleaned'}: ${c.bold(stats.tablesProcessed.toString())}`
+  );
+
+  if (operation === 'delete') {
+    log(
+      `  ${icons.bullet} Rows deleted: ${c.bold(formatNumber(stats.totalRowsDeleted))}`
+    );
+  }
+
+  log(`  ${icons.bullet} Duration: ${c.bold(formatDuration(stats.duration))}`);
+  log('');
+}
+
+// ============================================================================
+// Cleanup Command
+// ============================================================================
+
+/**
+ * `selectTables: false` skips the interactive "which tables" step, for
+ * callers such as `reset` that always act on everything in scope.
+ */
+export async function cleanup(
+  operation: Operation,
+  options: { selectTables?: boolean } = {}
+): Promise<ReportStatus> {
+  const { selectTables = true } = options;
+
+  const startTime = Date.now();
+  const scope = resolvePrefixScope();
+  report.scope = scope;
+
+  // Display banner for interactive mode
+  if (canPrompt) {
+    displayBanner(scope);
+  }
+
+  // Get all tables
+  const allTables = await spinner(
+    getAllTables(scope),
+    'Loading database tables'
+  );
+
+  if (allTables.length === 0) {
+    log(
+      c.info(
+        `${icons.info} No tables found in database${scope === null ? '' : ` for prefix "${scope}"`}.`
+      )
+    );
+    return 'nothing-to-do';
+  }
+
+  report.operation = operation;
+
+  const rowFilters = await resolveRowFilters(allTables, scope);
+  const rowLevel = values.where !== undefined || !!values['older-than'];
+
+  if (rowLevel && operation === 'drop') {
+    fail('--where and --older-than cannot be combined with --drop');
+  }
+
+  // Interactive table selection
+  let tablesToProcess: string[];
+
+  if (values.tables) {
+    tablesToProcess = filterTables(allTables, scope, values.tables);
+  } else if (rowLevel) {
+    tablesToProcess = allTables;
+  } else if (canPrompt && selectTables) {
+    const choice = promptChoice('What would you like to do?', [
+      `${operation === 'drop' ? 'Drop' : 'Clean'} all tables (${allTables.length} tables)`,
+      'Select specific tables',
+      'Cancel',
+    ]);
+
+    if (choice === -1 || choice === 2) {
+      log(c.dim('\nCancelled.'));
+      return 'cancelled';
+    }
+
+    if (choice === 1) {
+      const allStats = await spinner(getTableStats(allTables), 'Counting rows');
+      const selection = promptTableSelection(allStats);
+
+      if (!selection) {
+        log(c.dim('\nCancelled.'));
+        return 'cancelled';
+      }
+
+      tablesToProcess = selection;
+    } else {
+      tablesToProcess = allTables;
+    }
+  } else {
+    tablesToProcess = allTables;
+  }
+
+  // Row-level cleanup never touches tables without a predicate
+  if (rowLevel) {
+    const unfiltered = tablesToProcess.filter((t) => !rowFilters.has(t));
+    if (values.tables && unfiltered.length > 0) {
+      log(
+        c.warning(
+          `${icons.warning} Skipping tables without a predicate: ${unfiltered.join(', ')}`
+        )
+      );
+    }
+    tablesToProcess = tablesToProcess.filter((t) => rowFilters.has(t));
+  }
+
+  if (tablesToProcess.length === 0) {
+    log(c.info(`${icons.info} No tables to process.`));
+    return 'nothing-to-do';
+  }
+
+  // Check for unselected tables that would be left with dangling references
+  const foreignKeys = await spinner(getForeignKeys(), 'Reading foreign keys');
+  const dependents = (
+    await getTableStats(findExternalDependents(tablesToProcess, foreignKeys))
+  ).filter((s) => s.rowCount > 0);
+
+  if (dependents.length > 0) {
+    displayDependents(dependents, operation);
+
+    if (
+      !rowLevel &&
+      canPrompt &&
+      !values['dry-run'] &&
+      promptYesNo('Include them as well?', true)
+    ) {
+      tablesToProcess = [...tablesToProcess, ...dependents.map((s) => s.name)];
+    }
+  }
+
+  tablesToProcess = orderByDependencies(tablesToProcess, foreignKeys);
+
+  // Get table statistics
+  const stats = await spinner(
+    getTableStats(tablesToProcess, rowFilters),
+    'Analyzing tables'
+  );
+
+  report.tables = stats.map((stat) => ({ ...stat, status: 'pending' }));
+
+  // Display what will be done
+  displayTableStats(stats, operation, foreignKeys);
+
+  // Handle dry run
+  if (values['dry-run']) {
+    log(c.info(`${icons.info} DRY RUN - No changes will be made`));
+    return 'success';
+  }
+
+  const backupDir = values['no-backup'] ? undefined : values['backup-dir'];
+
+  // Scripts must opt in explicitly; there is nobody to answer a prompt
+  if (machineOutput && !values.confirm) {
+    logError(
+      c.error(
+        `${icons.error} Refusing to modify the database without --confirm`
+      )
+    );
+    report.errors.push('Refusing to modify the database without --confirm');
+    return 'cancelled';
+  }
+
+  // Confirm operation
+  if (!values.confirm) {
+    displayWarning(operation, backupDir, rowLevel);
+
+    const confirmed = promptYesNo(
+      `Are you absolutely sure you want to ${operation === 'drop' ? 'drop' : 'delete data from'} these tables?`,
+      false
+    );
+
+    if (!confirmed) {
+      log(c.dim('\nCancelled.'));
+      return 'cancelled';
+    }
+  }
+
+  // Snapshot affected tables so the operation can be undone
+  if (backupDir) {
+    const snapshot = await spinner(
+      createSnapshot(tablesToProcess, { dir: backupDir, label: operation }),
+      'Creating snapshot'
+    );
+    report.snapshot = snapshot.path;
+    log(
+      `\n${c.success(icons.success)} Snapshot saved ${c.gray(`(${snapshot.tables} tables, ${formatNumber(snapshot.rows)} rows)`)}`
+    );
+    log(`  ${c.dim(snapshot.path)}`);
+  }
+
+  // Perform cleanup
+  section(`🗑️  ${operation === 'drop' ? 'Dropping tables' : 'Deleting data'}`);
+
+  const transactional = !values['no-transaction'];
+  let totalRowsDeleted = 0;
+  let foreignKeysDisabled = false;
+  let transactionStarted = false;
+
+  try {
+    // Disable foreign keys (must happen outside the transaction to apply)
+    await db.run(sql`PRAGMA foreign_keys = OFF`);
+    foreignKeysDisabled = true;
+
+    if (transactional) {
+      transactionStarted = true;
+      totalRowsDeleted = await db.transaction((tx) =>
+        runOperation(operation, tablesToProcess, tx, rowFilters)
+      );
+    } else {
+      totalRowsDeleted = await runOperation(
+        operation,
+        tablesToProcess,
+        db,
+        rowFilters
+      );
+    }
+
+    // Re-enable foreign keys
+    await db.run(sql`PRAGMA foreign_keys = ON`);
+    foreignKeysDisabled = false;
+
+    report.outcome = transactional ? 'committed' : 'applied';
+    report.totalRowsDeleted = totalRowsDeleted;
+
+    // Display results
+    const duration = Date.now() - startTime;
+    displayResults(
+      {
+        tablesProcessed: tablesToProcess.length,
+        totalRowsDeleted,
+        duration,
+        outcome: report.outcome,
+      },
+      operation
+    );
+  } catch (error) {
+    report.errors.push(errorMessage(error));
+
+    logError('');
+    logError(c.error(`${icons.error} Error during cleanup:`));
+    logError(c.error(`  ${errorMessage(error)}`));
+
+    // Ensure foreign keys are re-enabled
+    if (foreignKeysDisabled) {
+      try {
+        await db.run(sql`PRAGMA foreign_keys = ON`);
+        log(c.success(`${icons.success} Database state restored`));
+      } catch (fkError) {
+        report.errors.push(errorMessage(fkError));
+        logError(c.error(`${icons.error} Failed to re-enable foreign keys`));
+        logError(c.error(`  ${errorMessage(fkError)}`));
+      }
+    }
+
+    // A failed transaction left the database untouched
+    if (transactionStarted) {
+      for (const table of report.tables) {
+        if (table.status === 'deleted' || table.status === 'dropped') {
+          table.status = 'rolled-back';
+          table.rowsDeleted = undefined;
+        }
+      }
+      report.outcome = 'rolled-back';
+      displayResults(
+        {
+          tablesProcessed: 0,
+          totalRowsDeleted: 0,
+          duration: Date.now() - startTime,
+          outcome: 'rolled-back',
+        },
+        operation
+      );
+      return 'error';
+    }
+
+    // Without a transaction, tables processed before the failure stay changed
+    const processed = report.tables.filter(
+      (t) => t.status === 'deleted' || t.status === 'dropped'
+    );
+    report.outcome = 'applied';
+    report.totalRowsDeleted = processed.reduce(
+      (sum, t) => sum + (t.rowsDeleted ?? 0),
+      0
+    );
+    if (processed.length === 0) {
+      return 'error';
+    }
+
+    logError(
+      c.warning(
+        `${icons.warning} Partial failure: ${processed.length} of ${tablesToProcess.length} tables were changed before the error`
+      )
+    );
+    return 'partial-failure';
+  }
+
+  return 'success';
+}
+
+// ============================================================================
+// Restore Command
+// ============================================================================
+
+export async function restore(): Promise<ReportStatus> {
+  const backupDir = values['backup-dir'];
+  let snapshotPath = commandArgs[0];
+
+  if (!snapshotPath) {
+    const snapshots = await listSnapshots(backupDir);
+
+    if (snapshots.length === 0) {
+      log(c.info(`${icons.info} No snapshots found in ${backupDir}.`));
+      return 'nothing-to-do';
+    }
+
+    if (values.confirm || !canPrompt) {
+      snapshotPath = snapshots[0].path;
+    } else {
+      const choice = promptChoice(
+        'Which snapshot would you like to restore?',
+        snapshots.map(
+          (s) => `${s.name} ${c.gray(`(${formatNumber(s.size)} bytes)`)}`
+        )
+      );
+
+      if (choice === -1) {
+        log(c.dim('\nCancelled.'));
+        return 'cancelled';
+      }
+
+      snapshotPath = snapshots[choice].path;
+    }
+  }
+
+  report.snapshot = snapshotPath;
+
+  section('♻️  Restore snapshot');
+  log(`  ${icons.bullet} File: ${c.bold(snapshotPath)}`);
+  log(`  ${icons.bullet} Target: ${c.bold(describeDatabaseTarget(target))}`);
+
+  if (machineOutput && !values.confirm) {
+    logError(
+      c.error(
+        `${icons.error} Refusing to modify the database without --confirm`
+      )
+    );
+    report.errors.push('Refusing to modify the database without --confirm');
+    return 'cancelled';
+  }
+
+  if (!values.confirm) {
+    log('');
+    log(
+      c.warning(
+        `${icons.warning} Tables in the snapshot will be replaced with its contents!`
+      )
+    );
+
+    if (!promptYesNo('Restore this snapshot?', false)) {
+      log(c.dim('\nCancelled.'));
+      return 'cancelled';
+    }
+  }
+
+  const startTime = Date.now();
+  await spinner(restoreSnapshot(snapshotPath), 'Restoring snapshot');
+
+  log(
+    `\n${c.success(icons.success)} Snapshot restored ${c.gray(`(${formatDuration(Date.now() - startTime)})`)}\n`
+  );
+
+  return 'success';
+}
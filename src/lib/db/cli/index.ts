@@ -0,0 +1,237 @@
+/**
+ * Database CLI - one entry point for everyday database tasks
+ *
+ * Usage:
+ *   bun run db status                  # Tables, row counts, pending migrations
+ *   bun run db migrate                 # Apply pending migrations
+ *   bun run db check                   # Risk report for pending migrations
+ *   bun run db rollback                # Undo the last applied migration
+ *   bun run db seed                    # Seed a scenario from src/lib/db/seed.ts
+ *   bun run db clean                   # Delete rows (interactive)
+ *   bun run db drop                    # Drop tables (interactive)
+ *   bun run db reset                   # drop + migrate + seed
+ *   bun run db restore [file]          # Replay a snapshot taken before clean
+ *   bun run db tournament              # Benchmark bot strategies
+ *   bun run db:generate                # Generate a migration (drizzle-kit)
+ *
+ * Every command first names the database it is about to touch (see
+ * src/lib/db/profiles.ts); remote databases are highlighted.
+ *
+ * Common options:
+ *   --confirm          Skip prompts
+ *   --dry-run          Preview only
+ *   --prefix=<p>       Another project's tables (default DATABASE_PREFIX)
+ *   --all-prefixes     Every project's tables
+ *   --json / --quiet   Machine-readable report / errors only
+ *
+ * Clean options:
+ *   --tables=t1,t2                     Specific tables
+ *   --where="table:expr"               Delete matching rows only (repeatable)
+ *   --older-than=7d --column=created_at
+ *   --no-transaction                   Per-table statements
+ *   --backup-dir=<dir> / --no-backup   Where to snapshot, or skip it
+ *
+ * Migration options:
+ *   --all                              check every migration, not just pending
+ *   --allow-destructive                Apply steps that lose data or fail on
+ *                                      existing rows without asking
+ *   Down-migrations are hand-written as migrations/down/<tag>.sql. Rollback
+ *   snapshots the tables first (--backup-dir / --no-backup, as for clean).
+ *
+ * Seed options (also used by reset):
+ *   --scenario=default                 lobby, mid-game-assassination,
+ *                                      mid-challenge, finished-games
+ *   --seed=1                           Same seed, same rows; seeding twice
+ *                                      skips what is already there
+ *   Seeded accounts sign in with the password "password".
+ *
+ * Tournament options:
+ *   --strategies=random,honest,heuristic   Line-up; seats cycle through it
+ *   --games=1000 --players=4 --seed=<n>    Same seed, same games
+ *   --save                                 Store the run and compare it with
+ *                                          the last one of the same line-up
+ *
+ * Exit codes: 0 success, 1 error, 2 nothing to do, 3 cancelled,
+ * 4 partial failure.
+ */
+
+import { sql } from 'drizzle-orm';
+
+import { command, values } from '@/lib/db/cli/args';
+import { check } from '@/lib/db/cli/check';
+import { cleanup, restore } from '@/lib/db/cli/clean';
+import { migrate } from '@/lib/db/cli/migrate';
+import { c, errorMessage, icons, log, logError } from '@/lib/db/cli/output';
+import {
+  EXIT_CODES,
+  fail,
+  finish,
+  type ReportStatus,
+  report,
+} from '@/lib/db/cli/report';
+import { reset } from '@/lib/db/cli/reset';
+import { rollback } from '@/lib/db/cli/rollback';
+import { seed } from '@/lib/db/cli/seed';
+import { status } from '@/lib/db/cli/status';
+import { tournament } from '@/lib/db/cli/tournament';
+import { db, syncReplica, target } from '@/lib/db/client';
+import { describeDatabaseTarget, redactUrl } from '@/lib/db/profiles';
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+const commands: Record<
+  string,
+  { description: string; run: () => Promise<ReportStatus> }
+> = {
+  status: {
+    description: 'Show tables, row counts and pending migrations',
+    run: status,
+  },
+  migrate: { description: 'Apply pending migrations', run: () => migrate() },
+  check: {
+    description: 'Flag destructive steps in pending migrations',
+    run: check,
+  },
+  rollback: {
+    description: 'Undo the last migration with its down-migration',
+    run: rollback,
+  },
+  seed: { description: 'Seed a development scenario', run: seed },
+  clean: {
+    description: 'Delete rows from tables',
+    run: () => cleanup(values.drop ? 'drop' : 'delete'),
+  },
+  drop: { description: 'Drop tables entirely', run: () => cleanup('drop') },
+  reset: { description: 'Drop, migrate and seed', run: reset },
+  restore: { description: 'Replay a snapshot', run: restore },
+  tournament: {
+    description: 'Play bot strategies against each other',
+    run: tournament,
+  },
+};
+
+function displayHelp(): void {
+  log('');
+  log(c.bold('🗄️  Database CLI'));
+  log('');
+  log(`Usage: ${c.info('bun run db <command> [options]')}`);
+  log('');
+  for (const [name, { description }] of Object.entries(commands)) {
+    log(`  ${c.bold(name.padEnd(10))} ${c.gray(description)}`);
+  }
+  log('');
+  log(c.dim('See src/lib/db/cli/index.ts for all options.'));
+  log('');
+}
+
+// ============================================================================
+// Graceful Exit Handling
+// ============================================================================
+
+let isCleaningUp = false;
+
+let cleanupPromise: Promise<void> | null = null;
+
+async function gracefulExit(
+  signal: string,
+  status: ReportStatus = 'cancelled'
+): Promise<void> {
+  if (isCleaningUp) {
+    log(c.warning(`\n${icons.warning} Force closing...`));
+    process.exit(EXIT_CODES.error);
+  }
+
+  isCleaningUp = true;
+  log(c.warning(`\n\n${icons.warning} Received ${signal}, cleaning up...`));
+
+  try {
+    // If cleanup is in progress, wait for it
+    if (cleanupPromise) {
+      await Promise.race([
+        cleanupPromise,
+        new Promise((resolve) => setTimeout(resolve, 5000)), // 5s timeout
+      ]);
+    }
+
+    // Ensure foreign keys are re-enabled
+    try {
+      await db.run(sql`PRAGMA foreign_keys = ON`);
+      log(c.success(`${icons.success} Database state restored`));
+    } catch (_error) {
+      logError(
+        c.error(`${icons.error} Warning: Could not restore database state`)
+      );
+    }
+
+    log(c.dim('Goodbye!\n'));
+    finish(status);
+  } catch (_error) {
+    logError(c.error(`${icons.error} Error during cleanup`));
+    finish('error');
+  }
+}
+
+// ============================================================================
+// Entry Point
+// ============================================================================
+
+/**
+ * Runs the command named on the command line, or `fallback` when there is
+ * none (used by the legacy `clean.ts` entry point).
+ */
+export function main(fallback?: string): void {
+  const name = command ?? fallback;
+
+  if (values.help || !name || name === 'help') {
+    displayHelp();
+    process.exit(EXIT_CODES.success);
+  }
+
+  const selected = commands[name];
+  if (!selected) {
+    fail(`Unknown command: ${name}`);
+  }
+
+  report.command = name;
+  report.database = {
+    profile: target.profile,
+    url: redactUrl(target.syncUrl ?? target.url),
+  };
+  const description = describeDatabaseTarget(target);
+  log(
+    `${c.gray('Database:')} ${target.profile === 'remote' ? c.warning(`${icons.warning} ${description}`) : c.bold(description)}`
+  );
+
+  // Register signal handlers
+  process.on('SIGINT', () => gracefulExit('SIGINT'));
+  process.on('SIGTERM', () => gracefulExit('SIGTERM'));
+
+  // Handle unhandled rejections
+  process.on('unhandledRejection', (reason) => {
+    report.errors.push(errorMessage(reason));
+    logError('');
+    logError(c.error(`${icons.error} Unhandled rejection:`));
+    logError(c.error(`  ${errorMessage(reason)}`));
+    gracefulExit('unhandledRejection', 'error');
+  });
+
+  cleanupPromise = syncReplica()
+    .then(selected.run)
+    .then((result) => {
+      cleanupPromise = null;
+      finish(result);
+    })
+    .catch((error) => {
+      report.errors.push(errorMessage(error));
+      logError('');
+      logError(c.error(`${icons.error} Unexpected error:`));
+      logError(c.error(`  ${errorMessage(error)}`));
+      gracefulExit('error', 'error');
+    });
+}
+
+if (import.meta.main) {
+  main();
+}
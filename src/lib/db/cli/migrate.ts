@@ -0,0 +1,280 @@
+import { readFile } from 'node:fs/promises';
+import { join, relative, resolve } from 'node:path';
+
+import { sql } from 'drizzle-orm';
+import { migrate as runMigrations } from 'drizzle-orm/libsql/migrator';
+import { readMigrationFiles } from 'drizzle-orm/migrator';
+
+import { values } from '@/lib/db/cli/args';
+import {
+  acknowledgeDestructive,
+  analyzeMigrations,
+  displayRisks,
+  isDestructive,
+} from '@/lib/db/cli/check';
+import {
+  c,
+  formatDuration,
+  icons,
+  log,
+  section,
+  spinner,
+} from '@/lib/db/cli/output';
+import {
+  type MigrationReport,
+  type ReportStatus,
+  report,
+} from '@/lib/db/cli/report';
+import { db } from '@/lib/db/client';
+import { MIGRATIONS_TABLE } from '@/lib/db/utils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Entry of drizzle-kit's `meta/_journal.json`. */
+interface JournalEntry {
+  idx: number;
+  when: number;
+  tag: string;
+}
+
+export interface MigrationInfo {
+  tag: string;
+  createdAt: number;
+  applied: boolean;
+}
+
+// ============================================================================
+// Migration Functions
+// ============================================================================
+
+/** Matches `out` in drizzle.config.ts, independent of the working directory. */
+export const MIGRATIONS_FOLDER = resolve(import.meta.dir, '../migrations');
+
+/** Hand-written `<tag>.sql` scripts that undo a migration, see `rollback`. */
+export const DOWN_FOLDER = join(MIGRATIONS_FOLDER, 'down');
+
+/** For display only. */
+export const migrationsPath = relative(process.cwd(), MIGRATIONS_FOLDER);
+
+/**
+ * Where every project recorded its migrations before each prefix got its own
+ * table; `adoptSharedHistory` moves this project's rows out.
+ */
+const SHARED_MIGRATIONS_TABLE = '__drizzle_migrations';
+
+async function readJournal(): Promise<JournalEntry[]> {
+  try {
+    const journal = JSON.parse(
+      await readFile(join(MIGRATIONS_FOLDER, 'meta', '_journal.json'), 'utf8')
+    ) as { entries: JournalEntry[] };
+    return journal.entries;
+  } catch {
+    return [];
+  }
+}
+
+function readHashes(): string[] {
+  try {
+    return readMigrationFiles({ migrationsFolder: MIGRATIONS_FOLDER }).map(
+      (migration) => migration.hash
+    );
+  } catch {
+    // No journal yet, so nothing of ours can have been applied
+    return [];
+  }
+}
+
+async function hasTable(name: string): Promise<boolean> {
+  const rows = await db.all(
+    sql`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ${name}`
+  );
+  return rows.length > 0;
+}
+
+/** Only this project's rows count in the shared table. */
+async function getLastAppliedAt(): Promise<number | null> {
+  let rows: { created_at: number | null }[] = [];
+  if (await hasTable(MIGRATIONS_TABLE)) {
+    rows = await db.all(
+      sql`SELECT MAX(created_at) AS created_at FROM ${sql.identifier(MIGRATIONS_TABLE)}`
+    );
+  } else if (await hasTable(SHARED_MIGRATIONS_TABLE)) {
+    const hashes = readHashes();
+    if (hashes.length === 0) return null;
+    rows = await db.all(
+      sql`SELECT MAX(created_at) AS created_at FROM ${sql.identifier(SHARED_MIGRATIONS_TABLE)} WHERE hash IN (${sql.join(hashes, sql`, `)})`
+    );
+  }
+  const createdAt = rows[0]?.created_at;
+  return createdAt == null ? null : Number(createdAt);
+}
+
+/**
+ * Lists generated migrations and whether they have been applied, using the
+ * same rule as drizzle's migrator: anything newer than the last applied
+ * migration is pending.
+ */
+export async function getMigrations(): Promise<MigrationInfo[]> {
+  const [entries, lastAppliedAt] = await Promise.all([
+    readJournal(),
+    getLastAppliedAt(),
+  ]);
+
+  return entries.map((entry) => ({
+    tag: entry.tag,
+    createdAt: entry.when,
+    applied: lastAppliedAt !== null && entry.when <= lastAppliedAt,
+  }));
+}
+
+/**
+ * Moves this project's rows from the shared migrations table into
+ * `MIGRATIONS_TABLE`, once, so a database migrated before the split does not
+ * replay its migrations. Run before anything writes to `MIGRATIONS_TABLE`.
+ */
+export async function adoptSharedHistory(): Promise<void> {
+  if (
+    (await hasTable(MIGRATIONS_TABLE)) ||
+    !(await hasTable(SHARED_MIGRATIONS_TABLE))
+  ) {
+    return;
+  }
+  const hashes = readHashes();
+  if (hashes.length === 0) return;
+
+  const own = sql`hash IN (${sql.join(hashes, sql`, `)})`;
+  await db.transaction(async (tx) => {
+    // The same table drizzle's migrator creates
+    await tx.run(sql`
+      CREATE TABLE ${sql.identifier(MIGRATIONS_TABLE)} (
+        id SERIAL PRIMARY KEY,
+        hash text NOT NULL,
+        created_at numeric
+      )
+    `);
+    await tx.run(
+      sql`INSERT INTO ${sql.identifier(MIGRATIONS_TABLE)} (hash, created_at) SELECT hash, created_at FROM ${sql.identifier(SHARED_MIGRATIONS_TABLE)} WHERE ${own}`
+    );
+    await tx.run(
+      sql`DELETE FROM ${sql.identifier(SHARED_MIGRATIONS_TABLE)} WHERE ${own}`
+    );
+  });
+}
+
+/**
+ * Empties this project's migration history so the next `migrate` replays
+ * every migration. Other projects keep theirs.
+ */
+export async function forgetMigrations(): Promise<void> {
+  await adoptSharedHistory();
+  if (await hasTable(MIGRATIONS_TABLE)) {
+    await db.run(sql`DELETE FROM ${sql.identifier(MIGRATIONS_TABLE)}`);
+  }
+}
+
+function toReport(migrations: MigrationInfo[]): MigrationReport[] {
+  return migrations.map((m) => ({
+    tag: m.tag,
+    createdAt: new Date(m.createdAt).toISOString(),
+    status: m.applied ? 'applied' : 'pending',
+  }));
+}
+
+export function displayMigrations(migrations: MigrationInfo[]): void {
+  if (migrations.length === 0) {
+    log(c.dim(`  No migrations found in ${migrationsPath}`));
+    return;
+  }
+
+  migrations.forEach((m) => {
+    const mark = m.applied ? c.success(icons.success) : c.warning('○');
+    const state = m.applied ? c.gray('(applied)') : c.warning('(pending)');
+    log(`  ${mark} ${c.bold(m.tag)} ${state}`);
+  });
+
+  const pending = migrations.filter((m) => !m.applied).length;
+  log('');
+  log(
+    c.dim(
+      `${migrations.length} migration${migrations.length !== 1 ? 's' : ''}, ${pending} pending`
+    )
+  );
+}
+
+// ============================================================================
+// Migrate Command
+// ============================================================================
+
+/**
+ * Applies pending migrations, after asking about destructive steps. `reset`
+ * passes `emptied`: its tables were just dropped, so there is nothing to lose.
+ */
+export async function migrate(emptied = false): Promise<ReportStatus> {
+  const startTime = Date.now();
+  const migrations = await spinner(getMigrations(), 'Reading migrations');
+  const pending = migrations.filter((m) => !m.applied);
+
+  report.migrations = toReport(migrations);
+
+  section('📦 Migrations');
+  displayMigrations(migrations);
+
+  if (pending.length === 0) {
+    log('');
+    log(c.info(`${icons.info} Database is up to date.`));
+    return 'nothing-to-do';
+  }
+
+  const analyses = await analyzeMigrations(pending);
+  const risky = analyses.filter((a) => a.risks.length > 0);
+  report.risks = analyses;
+
+  if (risky.length > 0) {
+    section('🔎 Risks');
+    risky.forEach((analysis) => {
+      displayRisks(analysis.tag, analysis.risks);
+    });
+  }
+
+  if (values['dry-run']) {
+    log(c.info(`${icons.info} DRY RUN - No changes will be made`));
+    return 'success';
+  }
+
+  const destructive = analyses.filter((a) => isDestructive(a.risks));
+  if (
+    destructive.length > 0 &&
+    !emptied &&
+    !acknowledgeDestructive(
+      `Apply ${destructive.map((a) => a.tag).join(', ')} despite the destructive steps?`
+    )
+  ) {
+    log(c.dim('\nCancelled.'));
+    return 'cancelled';
+  }
+
+  await adoptSharedHistory();
+  await spinner(
+    runMigrations(db, {
+      migrationsFolder: MIGRATIONS_FOLDER,
+      migrationsTable: MIGRATIONS_TABLE,
+    }),
+    `Applying ${pending.length} migration${pending.length !== 1 ? 's' : ''}`
+  );
+
+  report.migrations = toReport(await getMigrations());
+
+  log('');
+  pending.forEach((m) => {
+    log(`${c.success(icons.success)} ${c.bold(m.tag)} ${c.gray('(applied)')}`);
+  });
+  log(
+    c.dim(
+      `\nApplied ${pending.length} migration${pending.length !== 1 ? 's' : ''} in ${formatDuration(Date.now() - startTime)}`
+    )
+  );
+
+  return 'success';
+}
@@ -0,0 +1,164 @@
+import { values } from '@/lib/db/cli/args';
+
+// ============================================================================
+// Output Mode
+// ============================================================================
+
+export const machineOutput = values.json || values.quiet;
+
+export const isTTY = !!process.stdout.isTTY;
+
+export const useColor = !machineOutput && isTTY && !process.env.NO_COLOR;
+
+export const canPrompt =
+  !machineOutput && values.interactive && !values.confirm;
+
+// ============================================================================
+// Colors & Formatting
+// ============================================================================
+
+const colors = {
+  reset: '\x1b[0m',
+  bright: '\x1b[1m',
+  dim: '\x1b[2m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  magenta: '\x1b[35m',
+  cyan: '\x1b[36m',
+  white: '\x1b[37m',
+  gray: '\x1b[90m',
+};
+
+const paint = (color: string) => (text: string) =>
+  useColor ? `${color}${text}${colors.reset}` : text;
+
+export const c = {
+  error: paint(colors.red),
+  success: paint(colors.green),
+  warning: paint(colors.yellow),
+  info: paint(colors.cyan),
+  bold: paint(colors.bright),
+  dim: paint(colors.dim),
+  gray: paint(colors.gray),
+};
+
+export const icons = {
+  success: '✓',
+  error: '✗',
+  warning: '⚠',
+  info: 'ℹ',
+  question: '?',
+  arrow: '→',
+  bullet: '•',
+  spinner: ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'],
+};
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+/** Human-readable output, silenced by --json and --quiet. */
+export function log(message = ''): void {
+  if (!machineOutput) {
+    console.log(message);
+  }
+}
+
+/** Errors stay visible in every mode, on stderr when stdout is for machines. */
+export function logError(message: string): void {
+  if (machineOutput) {
+    console.error(message);
+  } else {
+    console.log(message);
+  }
+}
+
+export function errorMessage(error: unknown): string {
+  if (!(error instanceof Error)) return String(error);
+
+  // drizzle wraps driver errors; the useful reason lives on `cause`
+  return error.cause instanceof Error
+    ? `${error.message.split('\n')[0]} (${error.cause.message})`
+    : error.message;
+}
+
+export function hr(char = '─', width = 60): void {
+  log(c.gray(char.repeat(width)));
+}
+
+export function section(title: string): void {
+  log(`\n${c.bold(title)}`);
+  hr();
+}
+
+export function formatNumber(num: number): string {
+  return num.toLocaleString();
+}
+
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  return `${(ms / 1000).toFixed(2)}s`;
+}
+
+export async function spinner<T>(
+  promise: Promise<T>,
+  message: string
+): Promise<T> {
+  if (machineOutput || !isTTY) {
+    return promise;
+  }
+
+  const frames = icons.spinner;
+  let i = 0;
+
+  const interval = setInterval(() => {
+    process.stdout.write(`\r${c.info(frames[i])} ${message}...`);
+    i = (i + 1) % frames.length;
+  }, 80);
+
+  try {
+    const result = await promise;
+    clearInterval(interval);
+    process.stdout.write(`\r${' '.repeat(80)}\r`);
+    return result;
+  } catch (error) {
+    clearInterval(interval);
+    process.stdout.write(`\r${' '.repeat(80)}\r`);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Prompts
+// ============================================================================
+
+export function promptYesNo(question: string, defaultYes = false): boolean {
+  const suffix = defaultYes ? '[Y/n]' : '[y/N]';
+  const response = prompt(
+    `${c.info(icons.question)} ${question} ${c.dim(suffix)}: `
+  );
+
+  if (!response) return defaultYes;
+  return response.toLowerCase() === 'y' || response.toLowerCase() === 'yes';
+}
+
+export function promptChoice(question: string, choices: string[]): number {
+  log(`\n${c.info(icons.question)} ${question}\n`);
+
+  choices.forEach((choice, index) => {
+    log(`  ${c.dim((index + 1).toString())}${c.gray(')')} ${choice}`);
+  });
+
+  const response = prompt(
+    `\n${c.dim(`Enter your choice (1-${choices.length})`)}: `
+  );
+  const choice = parseInt(response || '0', 10);
+
+  if (choice >= 1 && choice <= choices.length) {
+    return choice - 1;
+  }
+
+  return -1;
+}
@@ -0,0 +1,132 @@
+import { command, values } from '@/lib/db/cli/args';
+import type { MigrationAnalysis } from '@/lib/db/cli/check';
+import { c, icons, logError } from '@/lib/db/cli/output';
+import type { PrefixScope, TableStats } from '@/lib/db/cli/tables';
+import type { DatabaseProfile } from '@/lib/db/profiles';
+import type { TournamentResult } from '@/lib/game/bots/tournament';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Operation = 'delete' | 'drop';
+
+/**
+ * `committed` and `rolled-back` come from transactional runs; `applied` means
+ * `--no-transaction`, where every table is committed as it is processed.
+ */
+export type CleanupOutcome = 'committed' | 'rolled-back' | 'applied';
+
+export type ReportStatus =
+  | 'success'
+  | 'error'
+  | 'nothing-to-do'
+  | 'cancelled'
+  | 'partial-failure';
+
+export type TableStatus =
+  | 'pending'
+  | 'deleted'
+  | 'dropped'
+  | 'failed'
+  | 'rolled-back';
+
+export interface TableReport extends TableStats {
+  /** Only set by commands that change the table. */
+  status?: TableStatus;
+  rowsDeleted?: number;
+  error?: string;
+}
+
+export interface MigrationReport {
+  tag: string;
+  createdAt: string;
+  status: 'applied' | 'pending';
+}
+
+export interface TournamentReport extends TournamentResult {
+  /** Id of the saved run with --save. */
+  runId?: string;
+  /** Id of the earlier run of the same settings it was compared with. */
+  previousRunId?: string;
+}
+
+export interface SeedReport {
+  name: string;
+  rows: number;
+}
+
+/** Everything `--json` prints, built up as the run progresses. */
+export interface Report {
+  command: string;
+  status: ReportStatus;
+  /** Profile and (redacted) URL the command ran against. */
+  database?: { profile: DatabaseProfile; url: string };
+  operation?: Operation;
+  scope?: PrefixScope;
+  dryRun: boolean;
+  outcome?: CleanupOutcome;
+  snapshot?: string;
+  tables: TableReport[];
+  migrations?: MigrationReport[];
+  /** Risks found by `check`, `migrate` and `rollback`. */
+  risks?: MigrationAnalysis[];
+  /** Migration undone by `rollback`. */
+  rolledBack?: string;
+  /** Scenario and seed of a seed run. */
+  scenario?: { name: string; seed: number };
+  seeds?: SeedReport[];
+  tournament?: TournamentReport;
+  totalRowsDeleted: number;
+  durationMs: number;
+  errors: string[];
+}
+
+// ============================================================================
+// Report State
+// ============================================================================
+
+export const EXIT_CODES: Record<ReportStatus, number> = {
+  success: 0,
+  error: 1,
+  'nothing-to-do': 2,
+  cancelled: 3,
+  'partial-failure': 4,
+};
+
+const startedAt = Date.now();
+
+export const report: Report = {
+  command: command ?? 'help',
+  status: 'success',
+  dryRun: values['dry-run'],
+  tables: [],
+  totalRowsDeleted: 0,
+  durationMs: 0,
+  errors: [],
+};
+
+export function recordTable(name: string, update: Partial<TableReport>): void {
+  const entry = report.tables.find((t) => t.name === name);
+  if (entry) {
+    Object.assign(entry, update);
+  }
+}
+
+/** Prints the --json report and exits with the code for `status`. */
+export function finish(status: ReportStatus): never {
+  report.status = status;
+  report.durationMs = Date.now() - startedAt;
+
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2));
+  }
+
+  process.exit(EXIT_CODES[status]);
+}
+
+export function fail(message: string): never {
+  logError(c.error(`${icons.error} ${message}`));
+  report.errors.push(message);
+  finish('error');
+}
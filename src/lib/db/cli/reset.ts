@@ -0,0 +1,44 @@
+import { values } from '@/lib/db/cli/args';
+import { cleanup } from '@/lib/db/cli/clean';
+import { forgetMigrations, migrate } from '@/lib/db/cli/migrate';
+import { c, icons, log } from '@/lib/db/cli/output';
+import type { ReportStatus } from '@/lib/db/cli/report';
+import { seed } from '@/lib/db/cli/seed';
+
+// ============================================================================
+// Reset Command
+// ============================================================================
+
+/**
+ * Drops every table in scope, then rebuilds the schema from migrations and
+ * seeds it. Each step stops the reset if it fails or is cancelled.
+ */
+export async function reset(): Promise<ReportStatus> {
+  const dropped = await cleanup('drop', { selectTables: false });
+  if (
+    dropped === 'cancelled' ||
+    dropped === 'error' ||
+    dropped === 'partial-failure'
+  ) {
+    return dropped;
+  }
+
+  if (values['dry-run']) {
+    log(c.info(`${icons.info} Migrations and seeders would run next`));
+    return 'success';
+  }
+
+  await forgetMigrations();
+
+  const migrated = await migrate(true);
+  if (migrated !== 'success' && migrated !== 'nothing-to-do') {
+    return migrated;
+  }
+
+  const seeded = await seed();
+  if (seeded !== 'success' && seeded !== 'nothing-to-do') {
+    return seeded;
+  }
+
+  return 'success';
+}
@@ -0,0 +1,141 @@
+import { join, relative } from 'node:path';
+
+import { sql } from 'drizzle-orm';
+import { readMigrationFiles } from 'drizzle-orm/migrator';
+
+import { createSnapshot } from '@/lib/db/backup';
+import { values } from '@/lib/db/cli/args';
+import {
+  acknowledgeDestructive,
+  analyzeScript,
+  displayRisks,
+  isDestructive,
+  readDownMigration,
+  readSnapshot,
+  splitStatements,
+} from '@/lib/db/cli/check';
+import {
+  adoptSharedHistory,
+  DOWN_FOLDER,
+  getMigrations,
+  MIGRATIONS_FOLDER,
+} from '@/lib/db/cli/migrate';
+import {
+  c,
+  canPrompt,
+  formatDuration,
+  formatNumber,
+  icons,
+  log,
+  logError,
+  machineOutput,
+  promptYesNo,
+  section,
+  spinner,
+} from '@/lib/db/cli/output';
+import { fail, type ReportStatus, report } from '@/lib/db/cli/report';
+import { getAllTables, resolvePrefixScope } from '@/lib/db/cli/tables';
+import { db } from '@/lib/db/client';
+import { MIGRATIONS_TABLE } from '@/lib/db/utils';
+
+// ============================================================================
+// Rollback Command
+// ============================================================================
+
+/**
+ * Undoes the last applied migration by running its down-migration, then
+ * forgets it so the next `migrate` applies it again. The project's tables are
+ * snapshotted first (see `clean`), so `restore` can bring the data back. Run
+ * it again to step back further.
+ */
+export async function rollback(): Promise<ReportStatus> {
+  const startTime = Date.now();
+  const migrations = await spinner(getMigrations(), 'Reading migrations');
+  const index = migrations.findLastIndex((m) => m.applied);
+
+  section('⏪ Rollback');
+
+  if (index === -1) {
+    log(c.info(`${icons.info} No applied migrations to roll back.`));
+    return 'nothing-to-do';
+  }
+
+  const { tag, createdAt } = migrations[index];
+  const script = await readDownMigration(tag);
+  if (script === null) {
+    fail(
+      `${tag} has no down-migration; write ${relative(process.cwd(), join(DOWN_FOLDER, `${tag}.sql`))} first`
+    );
+  }
+
+  // The down-migration runs against the schema the migration left behind
+  const risks = analyzeScript(script, await readSnapshot(index));
+  report.risks = [{ tag, hasDown: true, risks }];
+  displayRisks(`${tag} (down)`, risks);
+  log('');
+
+  if (values['dry-run']) {
+    log(c.info(`${icons.info} DRY RUN - No changes will be made`));
+    return 'success';
+  }
+
+  if (isDestructive(risks)) {
+    if (
+      !acknowledgeDestructive(`Roll back ${tag} despite the destructive steps?`)
+    ) {
+      log(c.dim('\nCancelled.'));
+      return 'cancelled';
+    }
+  } else if (machineOutput && !values.confirm) {
+    logError(c.error(`${icons.error} Refusing to roll back without --confirm`));
+    report.errors.push('Refusing to roll back without --confirm');
+    return 'cancelled';
+  } else if (canPrompt && !promptYesNo(`Roll back ${tag}?`, false)) {
+    log(c.dim('\nCancelled.'));
+    return 'cancelled';
+  }
+
+  if (!values['no-backup']) {
+    const tables = await getAllTables(resolvePrefixScope());
+    const snapshot = await spinner(
+      createSnapshot(tables, {
+        dir: values['backup-dir'],
+        label: 'rollback',
+      }),
+      'Creating snapshot'
+    );
+    report.snapshot = snapshot.path;
+    log(
+      `${c.success(icons.success)} Snapshot saved ${c.gray(`(${snapshot.tables} tables, ${formatNumber(snapshot.rows)} rows)`)}`
+    );
+    log(`  ${c.dim(snapshot.path)}`);
+  }
+
+  const migration = readMigrationFiles({
+    migrationsFolder: MIGRATIONS_FOLDER,
+  }).find((m) => m.folderMillis === createdAt);
+  if (!migration) fail(`${tag} is missing from the migrations folder`);
+
+  await adoptSharedHistory();
+  await spinner(
+    db.transaction(async (tx) => {
+      for (const statement of splitStatements(script)) {
+        await tx.run(sql.raw(statement));
+      }
+      await tx.run(
+        sql`DELETE FROM ${sql.identifier(MIGRATIONS_TABLE)} WHERE hash = ${migration.hash}`
+      );
+    }),
+    `Rolling back ${tag}`
+  );
+  report.rolledBack = tag;
+
+  log(`${c.success(icons.success)} ${c.bold(tag)} ${c.gray('(rolled back)')}`);
+  log(
+    c.dim(
+      `\nRolled back in ${formatDuration(Date.now() - startTime)}; migrate applies it again`
+    )
+  );
+
+  return 'success';
+}
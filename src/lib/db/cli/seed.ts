@@ -0,0 +1,107 @@
+import { values } from '@/lib/db/cli/args';
+import {
+  c,
+  formatDuration,
+  formatNumber,
+  icons,
+  log,
+  section,
+  spinner,
+} from '@/lib/db/cli/output';
+import {
+  fail,
+  type ReportStatus,
+  report,
+  type SeedReport,
+} from '@/lib/db/cli/report';
+import { db } from '@/lib/db/client';
+import {
+  DEFAULT_SCENARIO,
+  DEFAULT_SEED,
+  type Scenario,
+  scenarios,
+  seedContext,
+} from '@/lib/db/seed';
+
+// ============================================================================
+// Options
+// ============================================================================
+
+function parseScenario(): [name: string, scenario: Scenario] {
+  const name = values.scenario ?? DEFAULT_SCENARIO;
+  const scenario = scenarios[name];
+  if (!scenario) {
+    fail(
+      `Unknown scenario: ${name} (expected ${Object.keys(scenarios).join(', ')})`
+    );
+  }
+  return [name, scenario];
+}
+
+function parseSeed(): number {
+  const seed = values.seed === undefined ? DEFAULT_SEED : Number(values.seed);
+  if (!Number.isSafeInteger(seed)) fail('--seed must be a whole number');
+  return seed;
+}
+
+// ============================================================================
+// Seed Command
+// ============================================================================
+
+export async function seed(): Promise<ReportStatus> {
+  const startTime = Date.now();
+
+  const [name, { description, seeders }] = parseScenario();
+  const seed = parseSeed();
+  report.scenario = { name, seed };
+
+  section('🌱 Seeding');
+  log(`${c.bold(name)} ${c.gray(`(seed ${seed})`)} ${c.dim(description)}`);
+  log('');
+
+  if (seeders.length === 0) {
+    log(c.info(`${icons.info} The ${name} scenario has no seeders.`));
+    return 'nothing-to-do';
+  }
+
+  if (values['dry-run']) {
+    seeders.forEach((seeder) => {
+      log(`  ${icons.bullet} ${c.bold(seeder.name)}`);
+    });
+    log('');
+    log(c.info(`${icons.info} DRY RUN - No changes will be made`));
+    return 'success';
+  }
+
+  // All seeders share one transaction so a failure leaves nothing behind
+  const results = await spinner(
+    db.transaction(async (tx) => {
+      const seeded: SeedReport[] = [];
+      for (const seeder of seeders) {
+        seeded.push({
+          name: seeder.name,
+          rows: await seeder.run(seedContext(tx, seed, seeder)),
+        });
+      }
+      return seeded;
+    }),
+    'Running seeders'
+  );
+
+  report.seeds = results;
+
+  results.forEach((result) => {
+    log(
+      `${c.success(icons.success)} ${c.bold(result.name)} ${c.gray(`(${formatNumber(result.rows)} rows)`)}`
+    );
+  });
+  const total = results.reduce((sum, r) => sum + r.rows, 0);
+  log(
+    c.dim(
+      `\nSeeded ${formatNumber(total)} rows in ${formatDuration(Date.now() - startTime)}`
+    )
+  );
+
+  // Seeders skip what an earlier run with the same seed already wrote
+  return total === 0 ? 'nothing-to-do' : 'success';
+}
@@ -0,0 +1,68 @@
+import {
+  displayMigrations,
+  getMigrations,
+  migrationsPath,
+} from '@/lib/db/cli/migrate';
+import {
+  c,
+  formatNumber,
+  icons,
+  log,
+  section,
+  spinner,
+} from '@/lib/db/cli/output';
+import { type ReportStatus, report } from '@/lib/db/cli/report';
+import {
+  getAllTables,
+  getTableStats,
+  groupByPrefix,
+  resolvePrefixScope,
+} from '@/lib/db/cli/tables';
+import { target } from '@/lib/db/client';
+import { describeDatabaseTarget } from '@/lib/db/profiles';
+
+// ============================================================================
+// Status Command
+// ============================================================================
+
+export async function status(): Promise<ReportStatus> {
+  const scope = resolvePrefixScope();
+  report.scope = scope;
+
+  const tables = await spinner(getAllTables(scope), 'Loading database tables');
+  const stats = await spinner(getTableStats(tables), 'Counting rows');
+  const migrations = await spinner(getMigrations(), 'Reading migrations');
+
+  report.tables = stats;
+  report.migrations = migrations.map((m) => ({
+    tag: m.tag,
+    createdAt: new Date(m.createdAt).toISOString(),
+    status: m.applied ? 'applied' : 'pending',
+  }));
+
+  section('🗄️  Database');
+  log(`  ${icons.bullet} Target: ${c.bold(describeDatabaseTarget(target))}`);
+  log(
+    `  ${icons.bullet} Scope: ${c.bold(scope === null ? 'all prefixes' : `${scope}.*`)}`
+  );
+  log(`  ${icons.bullet} Migrations: ${c.bold(migrationsPath)}`);
+
+  section('📋 Tables');
+  if (stats.length === 0) {
+    log(c.dim('  No tables yet'));
+  }
+  for (const [prefix, group] of groupByPrefix(stats)) {
+    log(`  ${c.info(prefix ?? '(no prefix)')}`);
+    group.forEach((stat) => {
+      log(
+        `    ${icons.bullet} ${c.bold(stat.name)} ${c.gray(`(${formatNumber(stat.rowCount)} rows)`)}`
+      );
+    });
+  }
+
+  section('📦 Migrations');
+  displayMigrations(migrations);
+  log('');
+
+  return 'success';
+}
@@ -0,0 +1,254 @@
+import { sql } from 'drizzle-orm';
+
+import { values } from '@/lib/db/cli/args';
+import { fail } from '@/lib/db/cli/report';
+import { db } from '@/lib/db/client';
+import { env } from '@/lib/env';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TableInfo {
+  name: string;
+}
+
+export interface TableStats {
+  name: string;
+  rowCount: number;
+  /** Set when a row filter applies to the table. */
+  predicate?: string;
+  matchingRows?: number;
+}
+
+export interface RowFilter {
+  /** SQL expression selecting the rows to delete. */
+  sql: string;
+  /** Human-readable form shown in previews. */
+  label: string;
+}
+
+export type RowFilters = Map<string, RowFilter>;
+
+/** `from` has a foreign key pointing at `to`. */
+export interface ForeignKeyEdge {
+  from: string;
+  to: string;
+}
+
+/** Either the shared `db` or the transaction handle passed to its callback. */
+export type DbExecutor = Pick<typeof db, 'all' | 'run'>;
+
+/** `null` means every prefix (`--all-prefixes`). */
+export type PrefixScope = string | null;
+
+// ============================================================================
+// Database Functions
+// ============================================================================
+
+export function getTablePrefix(tableName: string): string | null {
+  const dot = tableName.indexOf('.');
+  return dot > 0 ? tableName.slice(0, dot) : null;
+}
+
+export async function getAllTables(scope: PrefixScope): Promise<string[]> {
+  const tables = await db.all<TableInfo>(sql`
+    SELECT name FROM sqlite_master
+    WHERE type = 'table'
+      AND name NOT LIKE 'sqlite_%'
+      AND name NOT LIKE '__drizzle%'
+      AND name NOT LIKE '%.__drizzle%'
+    ORDER BY name
+  `);
+  const names = tables.map((t) => t.name);
+
+  if (scope === null) {
+    return names;
+  }
+
+  return names.filter((name) => getTablePrefix(name) === scope);
+}
+
+export async function getTableStats(
+  tables: string[],
+  filters: RowFilters = new Map()
+): Promise<TableStats[]> {
+  const stats: TableStats[] = [];
+
+  for (const tableName of tables) {
+    let rowCount = 0;
+    try {
+      const result = await db.all<{ count: number }>(
+        sql.raw(`SELECT COUNT(*) as count FROM "${tableName}"`)
+      );
+      rowCount = result[0]?.count ?? 0;
+    } catch (_error) {
+      stats.push({ name: tableName, rowCount: 0 });
+      continue;
+    }
+
+    const filter = filters.get(tableName);
+    if (filter === undefined) {
+      stats.push({ name: tableName, rowCount });
+      continue;
+    }
+
+    // Unlike the total, a broken predicate must surface instead of reading 0
+    const matching = await db.all<{ count: number }>(
+      sql.raw(
+        `SELECT COUNT(*) as count FROM "${tableName}" WHERE ${filter.sql}`
+      )
+    );
+    stats.push({
+      name: tableName,
+      rowCount,
+      predicate: filter.label,
+      matchingRows: matching[0]?.count ?? 0,
+    });
+  }
+
+  return stats;
+}
+
+export async function getTablesWithColumn(
+  tables: string[],
+  column: string
+): Promise<string[]> {
+  const matches: string[] = [];
+
+  for (const tableName of tables) {
+    const columns = await db.all<{ name: string }>(
+      sql`SELECT name FROM pragma_table_info(${tableName})`
+    );
+    if (columns.some((c) => c.name === column)) {
+      matches.push(tableName);
+    }
+  }
+
+  return matches;
+}
+
+export async function getForeignKeys(): Promise<ForeignKeyEdge[]> {
+  return db.all<ForeignKeyEdge>(sql`
+    SELECT DISTINCT m.name AS "from", fk."table" AS "to"
+    FROM sqlite_master m
+    JOIN pragma_foreign_key_list(m.name) fk
+    WHERE m.type = 'table'
+      AND m.name NOT LIKE 'sqlite_%'
+      AND m.name NOT LIKE '__drizzle%'
+      AND m.name NOT LIKE '%.__drizzle%'
+    ORDER BY m.name
+  `);
+}
+
+/**
+ * Orders tables so that every table comes before the tables it references,
+ * which is the safe order for both DELETE and DROP. Tables caught in a cycle
+ * keep their original order at the end.
+ */
+export function orderByDependencies(
+  tables: string[],
+  edges: ForeignKeyEdge[]
+): string[] {
+  const selected = new Set(tables);
+  const pending = new Map(tables.map((t) => [t, 0]));
+
+  // Count how many selected tables still reference each table
+  for (const edge of edges) {
+    if (edge.from === edge.to) continue;
+    if (selected.has(edge.from) && selected.has(edge.to)) {
+      pending.set(edge.to, (pending.get(edge.to) ?? 0) + 1);
+    }
+  }
+
+  const ordered: string[] = [];
+  const queue = tables.filter((t) => pending.get(t) === 0);
+
+  while (queue.length > 0) {
+    const table = queue.shift() as string;
+    ordered.push(table);
+
+    for (const edge of edges) {
+      if (edge.from !== table || edge.to === table || !selected.has(edge.to)) {
+        continue;
+      }
+      const remaining = (pending.get(edge.to) ?? 0) - 1;
+      pending.set(edge.to, remaining);
+      if (remaining === 0) queue.push(edge.to);
+    }
+  }
+
+  return [...ordered, ...tables.filter((t) => !ordered.includes(t))];
+}
+
+/**
+ * Returns unselected tables that reference the selection, directly or through
+ * other unselected tables.
+ */
+export function findExternalDependents(
+  tables: string[],
+  edges: ForeignKeyEdge[]
+): string[] {
+  const reached = new Set(tables);
+  const dependents: string[] = [];
+  const queue = [...tables];
+
+  while (queue.length > 0) {
+    const table = queue.shift() as string;
+
+    for (const edge of edges) {
+      if (edge.to === table && !reached.has(edge.from)) {
+        reached.add(edge.from);
+        dependents.push(edge.from);
+        queue.push(edge.from);
+      }
+    }
+  }
+
+  return dependents;
+}
+
+export async function hasSequenceTable(executor: DbExecutor): Promise<boolean> {
+  const result = await executor.all<TableInfo>(sql`
+    SELECT name FROM sqlite_master
+    WHERE type = 'table' AND name = 'sqlite_sequence'
+  `);
+  return result.length > 0;
+}
+
+export function resolvePrefixScope(): PrefixScope {
+  if (values['all-prefixes']) {
+    if (values.prefix) {
+      fail('--prefix and --all-prefixes cannot be used together');
+    }
+    return null;
+  }
+
+  return values.prefix ?? env.DATABASE_PREFIX;
+}
+
+/** Unqualified names resolve against the active prefix. */
+export function qualifyTableName(
+  name: string,
+  allTables: string[],
+  scope: PrefixScope
+): string {
+  return scope !== null && !allTables.includes(name)
+    ? `${scope}.${name}`
+    : name;
+}
+
+export function groupByPrefix(
+  stats: TableStats[]
+): Map<string | null, TableStats[]> {
+  const groups = new Map<string | null, TableStats[]>();
+
+  for (const stat of stats) {
+    const prefix = getTablePrefix(stat.name);
+    const group = groups.get(prefix) ?? [];
+    group.push(stat);
+    groups.set(prefix, group);
+  }
+
+  return groups;
+}
@@ -0,0 +1,179 @@
+import { values } from '@/lib/db/cli/args';
+import {
+  c,
+  formatDuration,
+  formatNumber,
+  icons,
+  log,
+  section,
+  spinner,
+} from '@/lib/db/cli/output';
+import { fail, type ReportStatus, report } from '@/lib/db/cli/report';
+import { findPreviousTournament, saveTournament } from '@/lib/db/tournaments';
+import { type StrategyName, strategyNames } from '@/lib/game/bots/strategy';
+import {
+  ratio,
+  runTournament,
+  type StrategyStats,
+  type TournamentOptions,
+} from '@/lib/game/bots/tournament';
+import { MAX_PLAYERS, MIN_PLAYERS } from '@/lib/game/rules';
+
+// ============================================================================
+// Options
+// ============================================================================
+
+function parseCount(name: 'games' | 'players', min: number, max = Infinity) {
+  const value = Number(values[name]);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    fail(
+      `--${name} must be a whole number${max === Infinity ? ` of at least ${min}` : ` from ${min} to ${max}`}`
+    );
+  }
+  return value;
+}
+
+function parseStrategies(): StrategyName[] {
+  const names = values.strategies
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  for (const name of names) {
+    if (!strategyNames.includes(name as StrategyName)) {
+      fail(`Unknown strategy: ${name} (expected ${strategyNames.join(', ')})`);
+    }
+  }
+  if (names.length === 0) fail('--strategies needs at least one strategy');
+  if (new Set(names).size !== names.length) {
+    fail('--strategies lists a strategy twice');
+  }
+  return names as StrategyName[];
+}
+
+function parseOptions(): TournamentOptions {
+  const seed =
+    values.seed === undefined
+      ? Math.floor(Math.random() * 2 ** 31)
+      : Number(values.seed);
+  if (!Number.isSafeInteger(seed)) fail('--seed must be a whole number');
+
+  return {
+    strategies: parseStrategies(),
+    games: parseCount('games', 1),
+    players: parseCount('players', MIN_PLAYERS, MAX_PLAYERS),
+    seed,
+  };
+}
+
+// ============================================================================
+// Output
+// ============================================================================
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/** `part` as a share of `whole`, or a dash when there was nothing to count. */
+const share = (part: number, whole: number) =>
+  whole === 0 ? '–' : percent(ratio(part, whole));
+
+function formatDelta(current: number, previous: number | undefined): string {
+  if (previous === undefined) return '';
+  const points = (current - previous) * 100;
+  const text = `${points >= 0 ? '+' : ''}${points.toFixed(1)}pp`;
+  if (Math.abs(points) < 0.05) return c.gray(text);
+  return points > 0 ? c.success(text) : c.error(text);
+}
+
+function displayStats(
+  stats: StrategyStats,
+  previousWinRate: number | undefined
+): void {
+  const [low, high] = stats.interval;
+  const bluffed = stats.bluffs - stats.bluffsCaught;
+
+  log(
+    `  ${c.bold(stats.strategy.padEnd(10))} ${percent(stats.winRate).padStart(6)} ${c.gray(`[${percent(low)} – ${percent(high)}]`)} ${formatDelta(stats.winRate, previousWinRate)}`
+  );
+  log(
+    c.gray(
+      `    ${formatNumber(stats.wins)}/${formatNumber(stats.seats)} seats won · bluffs ${formatNumber(stats.bluffs)} (${share(bluffed, stats.bluffs)} got through) · challenges ${formatNumber(stats.challenges)} (${share(stats.challengesWon, stats.challenges)} caught a bluff)`
+    )
+  );
+}
+
+// ============================================================================
+// Tournament Command
+// ============================================================================
+
+export async function tournament(): Promise<ReportStatus> {
+  const options = parseOptions();
+  const startTime = Date.now();
+
+  section('🤖 Tournament');
+  log(`  ${icons.bullet} Strategies: ${c.bold(options.strategies.join(', '))}`);
+  log(
+    `  ${icons.bullet} Games: ${c.bold(formatNumber(options.games))} of ${c.bold(String(options.players))} players`
+  );
+  log(`  ${icons.bullet} Seed: ${c.bold(String(options.seed))}`);
+
+  const result = await spinner(
+    runTournament(options),
+    `Playing ${formatNumber(options.games)} games`
+  );
+  const durationMs = Date.now() - startTime;
+  report.tournament = result;
+
+  let previous: Awaited<ReturnType<typeof findPreviousTournament>>;
+  if (values.save) {
+    const runId = await spinner(
+      saveTournament(result, durationMs),
+      'Saving results'
+    );
+    previous = await findPreviousTournament(options, runId);
+    report.tournament = { ...result, runId, previousRunId: previous?.id };
+  }
+
+  section('🏆 Results');
+  log(
+    c.dim(
+      `  Win rate with 95% confidence interval${previous ? ', change since the last saved run' : ''}`
+    )
+  );
+  log('');
+  for (const stats of [...result.results].sort(
+    (a, b) => b.winRate - a.winRate
+  )) {
+    displayStats(
+      stats,
+      previous?.results.find((r) => r.strategy === stats.strategy)?.winRate
+    );
+  }
+
+  log('');
+  log(
+    `  ${icons.bullet} Average game: ${c.bold(result.averageTurns.toFixed(1))} turns, ${c.bold(result.averageActions.toFixed(1))} actions`
+  );
+  if (result.abandoned > 0) {
+    log(
+      c.warning(
+        `  ${icons.warning} ${formatNumber(result.abandoned)} games never finished and were left out`
+      )
+    );
+  }
+  if (values.save) {
+    log(
+      previous
+        ? c.dim(
+            `  Compared with the run of ${previous.createdAt.toLocaleString()} (seed ${previous.seed})`
+          )
+        : c.dim('  No earlier run with these settings to compare with')
+    );
+  }
+  log(
+    c.dim(
+      `\nPlayed ${formatNumber(options.games)} games in ${formatDuration(durationMs)}`
+    )
+  );
+
+  return 'success';
+}
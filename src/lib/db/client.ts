@@ -1,27 +1,68 @@
 import { type Client, createClient } from '@libsql/client';
 import { drizzle } from 'drizzle-orm/libsql';
 
+import { instrumentClient } from '@/lib/db/logging';
+import { resolveDatabaseTarget } from '@/lib/db/profiles';
+import * as actions from '@/lib/db/schema/actions';
+import * as players from '@/lib/db/schema/players';
+import * as rooms from '@/lib/db/schema/rooms';
+import * as seats from '@/lib/db/schema/seats';
+import * as snapshots from '@/lib/db/schema/snapshots';
+import * as timers from '@/lib/db/schema/timers';
+import * as tournaments from '@/lib/db/schema/tournaments';
+import * as users from '@/lib/db/schema/users';
 import { env } from '@/lib/env';
 
 const globalForDb = globalThis as unknown as {
   client: Client | undefined;
 };
 
+/** The database `client` talks to, for banners and reports. */
+export const target = resolveDatabaseTarget();
+
 export const client =
   globalForDb.client ??
-  createClient({
-    url: env.DATABASE_URL,
-    authToken:
-      env.DATABASE_AUTH_TOKEN === '' ? undefined : env.DATABASE_AUTH_TOKEN,
-  });
+  instrumentClient(
+    createClient({
+      url: target.url,
+      authToken: target.authToken,
+      syncUrl: target.syncUrl,
+      syncInterval: target.syncInterval,
+    })
+  );
 if (env.NODE_ENV !== 'production') {
   globalForDb.client = client;
 }
 
-export const Schema = {};
+/** Pulls the primary's changes into the embedded replica, if there is one. */
+export async function syncReplica(): Promise<void> {
+  if (target.syncUrl) await client.sync();
+}
+
+export const Schema = {
+  ...users,
+  ...players,
+  ...rooms,
+  ...seats,
+  ...actions,
+  ...snapshots,
+  ...timers,
+  ...tournaments,
+};
+
+/**
+ * Drizzle over `client` with the app's schema and column casing. Its own
+ * logger stays off; queries are timed on the client instead (see
+ * `@/lib/db/logging`).
+ */
+export function createDatabase(client: Client) {
+  return drizzle(client, {
+    schema: Schema,
+    casing: 'snake_case',
+    logger: false,
+  });
+}
+
+export type Database = ReturnType<typeof createDatabase>;
 
-export const db = drizzle(client, {
-  schema: Schema,
-  casing: 'snake_case',
-  logger: false,
-});
+export const db = createDatabase(client);
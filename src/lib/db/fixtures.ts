@@ -0,0 +1,590 @@
+import { eq, inArray, sql } from 'drizzle-orm';
+import { v7 as uuidv7 } from 'uuid';
+
+import { hashPassword } from '@/lib/auth';
+import { SNAPSHOT_INTERVAL, toActionRow } from '@/lib/db/games';
+import { actions, insertActionSchema } from '@/lib/db/schema/actions';
+import {
+  insertPlayerSchema,
+  type NewPlayer,
+  players,
+} from '@/lib/db/schema/players';
+import { insertRoomSchema, type NewRoom, rooms } from '@/lib/db/schema/rooms';
+import { insertSeatSchema, type NewSeat, seats } from '@/lib/db/schema/seats';
+import {
+  gameSnapshots,
+  insertGameSnapshotSchema,
+} from '@/lib/db/schema/snapshots';
+import { insertUserSchema, users } from '@/lib/db/schema/users';
+import type { SeedContext, Seeder } from '@/lib/db/seed';
+import { strategies } from '@/lib/game/bots';
+import {
+  createRandom,
+  type PublicAction,
+  type StrategyName,
+  toPublicAction,
+} from '@/lib/game/bots/strategy';
+import {
+  applyAction,
+  createGame,
+  isAlive,
+  pendingPlayers,
+  winnersOf,
+} from '@/lib/game/engine';
+import { seedFrom, shuffle } from '@/lib/game/rng';
+import { BASE_RULES } from '@/lib/game/rules';
+import type { GameAction, GameState, VariantRules } from '@/lib/game/types';
+import { viewFor } from '@/lib/game/view';
+import { ratingChanges } from '@/lib/lobby/ratings';
+import { BOT_NAMES, generateRoomCode } from '@/lib/lobby/rooms';
+import { variantName } from '@/lib/lobby/settings';
+
+/**
+ * Seed data for local development, see `scenarios` in seed.ts. Rows are built
+ * from the table definitions and checked against their insert schemas. Games
+ * are played by the bots from a seeded deal and stored the way `submitAction`
+ * stores them, so they load, replay and continue like any other game.
+ *
+ * Ids and room codes come from the seeder's random stream. Seeding again with
+ * the same seed finds them taken and skips those rooms.
+ */
+
+/** Password of every seeded account. */
+export const FIXTURE_PASSWORD = 'password';
+
+/** Ids of seeded rows sort as if they were created at this time. */
+const ID_EPOCH = Date.UTC(2025, 0, 1);
+
+/** Strategy that plays for people while a game is being set up. */
+const PEOPLE_STRATEGY: StrategyName = 'heuristic';
+
+/** Seeded games longer than this are dealt again. */
+const MAX_ACTIONS = 500;
+
+/** Deals tried before giving up on reaching a scenario's state. */
+const MAX_ATTEMPTS = 50;
+
+/** Time between moves in seeded games. */
+const MOVE_SECONDS = 4;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Returns a function drawing uuid v7 ids from `random`. */
+export function seededIds(random: () => number): () => string {
+  let created = 0;
+  return () =>
+    uuidv7({
+      msecs: ID_EPOCH + created++,
+      random: Uint8Array.from({ length: 16 }, () => Math.floor(random() * 256)),
+    });
+}
+
+// ============================================================================
+// Roster
+// ============================================================================
+
+interface RosterEntry {
+  name: string;
+  /** `null` for guests. */
+  username: string | null;
+  userId: string;
+  playerId: string;
+}
+
+const ACCOUNT_NAMES = ['Alice', 'Bruno', 'Chen', 'Dara', 'Emeka', 'Freya'];
+
+const GUEST_NAMES = ['Gil', 'Hana'];
+
+/**
+ * People every scenario shares. Their ids do not depend on `--seed`, so
+ * scenarios seeded with different seeds can sit side by side.
+ */
+const ROSTER: RosterEntry[] = (() => {
+  const id = seededIds(createRandom(seedFrom('roster')));
+  return [
+    ...ACCOUNT_NAMES.map((name) => ({ name, username: name.toLowerCase() })),
+    ...GUEST_NAMES.map((name) => ({ name, username: null })),
+  ].map((entry) => ({ ...entry, userId: id(), playerId: id() }));
+})();
+
+function roster(...names: string[]): RosterEntry[] {
+  return names.map((name) => {
+    const entry = ROSTER.find((person) => person.name === name);
+    if (!entry) throw new Error(`${name} is not on the fixture roster`);
+    return entry;
+  });
+}
+
+/** `count` people from the roster, in a seeded order. */
+function drawPeople(context: SeedContext, count: number): RosterEntry[] {
+  const [people] = shuffle(ROSTER, Math.floor(context.random() * 2 ** 32));
+  return people.slice(0, count);
+}
+
+// ============================================================================
+// Tables
+// ============================================================================
+
+interface TableFixture {
+  /** Seated first, in order; the first one hosts. */
+  people: RosterEntry[];
+  bots?: StrategyName[];
+  rules?: VariantRules;
+  maxPlayers?: number;
+  /** Whether everyone but the host has pressed ready. */
+  ready?: boolean;
+}
+
+interface Table {
+  room: NewRoom & { id: string };
+  seats: (NewSeat & { id: string })[];
+  bots: NewPlayer[];
+}
+
+function hoursAgo(context: SeedContext, hours: number): Date {
+  return new Date(Date.now() - context.random() * hours * HOUR_MS);
+}
+
+function setTable(context: SeedContext, fixture: TableFixture): Table {
+  const { people, bots = [], rules = BASE_RULES } = fixture;
+  const roomId = context.id();
+  const botPlayers = bots.map((strategy, index) => ({
+    id: context.id(),
+    name: `${BOT_NAMES[strategy]} ${people.length + index + 1}`,
+    strategy,
+  }));
+
+  return {
+    room: {
+      id: roomId,
+      code: generateRoomCode((max) => Math.floor(context.random() * max)),
+      hostId: people[0].playerId,
+      maxPlayers: fixture.maxPlayers ?? people.length + bots.length,
+      variant: variantName(rules),
+      rules,
+      createdAt: hoursAgo(context, 72),
+    },
+    seats: [
+      ...people.map((person, position) => ({
+        id: context.id(),
+        roomId,
+        playerId: person.playerId,
+        position,
+        ready: position > 0 && fixture.ready === true,
+      })),
+      ...botPlayers.map((bot, index) => ({
+        id: context.id(),
+        roomId,
+        playerId: bot.id,
+        position: people.length + index,
+        bot: bot.strategy,
+        ready: true,
+      })),
+    ],
+    bots: botPlayers.map(({ id, name }) => ({ id, name })),
+  };
+}
+
+/**
+ * Writes the room with its bots and seats. Returns 0 without writing anything
+ * when the room is already there.
+ */
+async function insertTable(
+  context: SeedContext,
+  { room, seats: tableSeats, bots }: Table
+): Promise<number> {
+  const { tx } = context;
+
+  // Bots first: a finished room may name one as its winner
+  const insertedBots =
+    bots.length === 0
+      ? []
+      : await tx
+          .insert(players)
+          .values(bots.map((bot) => insertPlayerSchema.parse(bot)))
+          .onConflictDoNothing()
+          .returning({ id: players.id });
+  const [inserted] = await tx
+    .insert(rooms)
+    .values(insertRoomSchema.parse(room))
+    .onConflictDoNothing()
+    .returning({ id: rooms.id });
+  if (!inserted) return insertedBots.length;
+
+  await tx
+    .insert(seats)
+    .values(tableSeats.map((seat) => insertSeatSchema.parse(seat)));
+  return insertedBots.length + 1 + tableSeats.length;
+}
+
+async function seedLobby(
+  context: SeedContext,
+  fixture: TableFixture
+): Promise<number> {
+  const table = setTable(context, fixture);
+  table.room.turnSeconds = 60;
+  table.room.responseSeconds = 15;
+  return insertTable(context, table);
+}
+
+// ============================================================================
+// Games
+// ============================================================================
+
+/** Decides whether a game has reached the state a fixture wants. */
+type StopWhen = (state: GameState, moves: number) => boolean;
+
+interface PlayedGame {
+  initial: GameState;
+  /** Every action with the state it was applied to. */
+  moves: { action: GameAction; state: GameState }[];
+  state: GameState;
+}
+
+/**
+ * Deals and plays a game, with bots standing in for people, until `stop`
+ * holds. Without `stop` the game is played to the end. `null` when it ended
+ * or ran too long first.
+ */
+function playGame(
+  context: SeedContext,
+  table: Table,
+  stop?: StopWhen
+): PlayedGame | null {
+  const initial = createGame({
+    players: table.seats.map((seat) => seat.id),
+    seed: Math.floor(context.random() * 2 ** 32),
+    rules: table.room.rules,
+  });
+  const botOf = new Map(table.seats.map((seat) => [seat.id, seat.bot]));
+  const history: PublicAction[] = [];
+  const moves: PlayedGame['moves'] = [];
+  let state = initial;
+
+  while (state.phase.kind !== 'game-over' && moves.length < MAX_ACTIONS) {
+    const player = pendingPlayers(state)[0];
+    const action = strategies[botOf.get(player) ?? PEOPLE_STRATEGY].choose({
+      view: viewFor(state, player),
+      history,
+      random: context.random,
+    });
+
+    const result = applyAction(state, action);
+    if (!result.ok) {
+      throw new Error(
+        `Seeded game made an illegal move: ${result.violation.message}`
+      );
+    }
+    moves.push({ action, state });
+    history.push(toPublicAction(action));
+    state = result.state;
+
+    if (stop?.(state, moves.length)) return { initial, moves, state };
+  }
+
+  return !stop && state.phase.kind === 'game-over'
+    ? { initial, moves, state }
+    : null;
+}
+
+function playUntil(
+  context: SeedContext,
+  table: Table,
+  stop?: StopWhen
+): PlayedGame {
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const game = playGame(context, table, stop);
+    if (game) return game;
+  }
+  throw new Error(
+    `No game in ${MAX_ATTEMPTS} deals reached the state the seeder wants`
+  );
+}
+
+/** When each seat lost its last influence, if it did. */
+function eliminations(startedAt: Date, game: PlayedGame) {
+  const eliminatedAt = new Map<string, Date>();
+  game.moves.forEach((_, index) => {
+    const after = game.moves[index + 1]?.state ?? game.state;
+    for (const player of after.players) {
+      if (!isAlive(player) && !eliminatedAt.has(player.id)) {
+        eliminatedAt.set(player.id, moveTime(startedAt, index + 1));
+      }
+    }
+  });
+  return eliminatedAt;
+}
+
+function moveTime(startedAt: Date, sequence: number): Date {
+  return new Date(startedAt.getTime() + sequence * MOVE_SECONDS * 1000);
+}
+
+/** Rating change per seat for a finished game, as `rateGame` works it out. */
+async function rateSeats(
+  context: SeedContext,
+  table: Table,
+  winners: string[]
+): Promise<Map<string, number>> {
+  const people = table.seats.filter((seat) => !seat.bot);
+  const rated = await context.tx
+    .select({ id: players.id, rating: players.rating })
+    .from(players)
+    .where(
+      inArray(
+        players.id,
+        people.map((seat) => seat.playerId)
+      )
+    );
+  const changes = ratingChanges(
+    rated,
+    people
+      .filter((seat) => winners.includes(seat.id))
+      .map((seat) => seat.playerId)
+  );
+
+  return new Map(
+    people
+      .filter((seat) => changes.has(seat.playerId))
+      .map((seat) => [seat.id, changes.get(seat.playerId) ?? 0])
+  );
+}
+
+/**
+ * Plays a game at the table and stores it: the room and seats as the lobby
+ * leaves them, the action log and its snapshots, and ratings once it is
+ * over. Rooms still playing have no clock, so the game waits for whoever is
+ * signed in to move instead of being played out by the sweeper.
+ */
+async function seedGame(
+  context: SeedContext,
+  fixture: TableFixture,
+  stop?: StopWhen
+): Promise<number> {
+  const table = setTable(context, fixture);
+  const game = playUntil(context, table, stop);
+  const { room, seats: tableSeats } = table;
+  const { state } = game;
+  const over = state.phase.kind === 'game-over';
+
+  const startedAt = new Date(
+    (room.createdAt as Date).getTime() + context.random() * HOUR_MS
+  );
+  const finishedAt = moveTime(startedAt, game.moves.length);
+  const eliminatedAt = eliminations(startedAt, game);
+  const winners = over ? winnersOf(state) : [];
+  const winner =
+    state.phase.kind === 'game-over' ? state.phase.winner : undefined;
+
+  Object.assign(room, {
+    status: over ? 'finished' : 'playing',
+    startedAt,
+    finishedAt: over ? finishedAt : null,
+    turnPosition: over ? null : state.turn,
+    winnerId: tableSeats.find((seat) => seat.id === winner)?.playerId ?? null,
+  });
+  for (const seat of tableSeats) {
+    seat.ready = true;
+    seat.eliminatedAt = eliminatedAt.get(seat.id) ?? null;
+    seat.won = over ? winners.includes(seat.id) : null;
+  }
+
+  const rows = await insertTable(context, table);
+  if (rows === 0) return 0;
+
+  const { tx } = context;
+  const changes = over
+    ? await rateSeats(context, table, winners)
+    : new Map<string, number>();
+  for (const [seatId, change] of changes) {
+    const seat = tableSeats.find((s) => s.id === seatId);
+    if (!seat) continue;
+    await tx
+      .update(players)
+      .set({
+        rating: sql`${players.rating} + ${change}`,
+        ratedGames: sql`${players.ratedGames} + 1`,
+      })
+      .where(eq(players.id, seat.playerId));
+    await tx
+      .update(seats)
+      .set({ ratingDelta: change })
+      .where(eq(seats.id, seatId));
+  }
+
+  const snapshots = [
+    { roomId: room.id, sequence: 0, state: game.initial, createdAt: startedAt },
+  ];
+  const actionRows = game.moves.map(({ action, state: before }, index) => {
+    const sequence = index + 1;
+    const after = game.moves[sequence]?.state ?? state;
+    const createdAt = moveTime(startedAt, sequence);
+
+    if (
+      sequence % SNAPSHOT_INTERVAL === 0 ||
+      after.phase.kind === 'game-over'
+    ) {
+      snapshots.push({ roomId: room.id, sequence, state: after, createdAt });
+    }
+    return insertActionSchema.parse({
+      ...toActionRow(room.id, sequence, action, before),
+      createdAt,
+    });
+  });
+
+  await tx
+    .insert(gameSnapshots)
+    .values(
+      snapshots.map((snapshot) => insertGameSnapshotSchema.parse(snapshot))
+    );
+  if (actionRows.length > 0) {
+    await tx.insert(actions).values(actionRows);
+  }
+
+  return rows + changes.size + snapshots.length + actionRows.length;
+}
+
+// ============================================================================
+// Seeders
+// ============================================================================
+
+export const playersSeeder: Seeder = {
+  name: 'players',
+  run: async ({ tx }) => {
+    const passwordHash = await hashPassword(FIXTURE_PASSWORD);
+    let rows = 0;
+
+    for (const entry of ROSTER) {
+      const [user] = await tx
+        .insert(users)
+        .values(
+          insertUserSchema.parse({
+            id: entry.userId,
+            username: entry.username,
+            passwordHash: entry.username ? passwordHash : null,
+          })
+        )
+        .onConflictDoNothing()
+        .returning({ id: users.id });
+
+      if (user) {
+        await tx.insert(players).values(
+          insertPlayerSchema.parse({
+            id: entry.playerId,
+            userId: entry.userId,
+            name: entry.name,
+          })
+        );
+        rows += 2;
+        continue;
+      }
+
+      const existing = await tx.query.players.findFirst({
+        where: eq(players.id, entry.playerId),
+        columns: { id: true },
+      });
+      if (!existing) {
+        throw new Error(
+          `Username ${entry.username} belongs to someone the seeder did not create; clean the users table first`
+        );
+      }
+    }
+
+    return rows;
+  },
+};
+
+export const lobbiesSeeder: Seeder = {
+  name: 'lobbies',
+  run: async (context) => {
+    let rows = await seedLobby(context, {
+      people: roster('Alice'),
+      maxPlayers: 4,
+    });
+    rows += await seedLobby(context, {
+      people: roster('Bruno', 'Chen'),
+      bots: ['honest'],
+      rules: { allegiance: 'factions', inquisitor: false },
+      maxPlayers: 5,
+      ready: true,
+    });
+    // Full, ready and even, so the host can start it right away
+    rows += await seedLobby(context, {
+      people: roster('Dara', 'Emeka', 'Freya', 'Gil'),
+      bots: ['heuristic', 'random'],
+      rules: { allegiance: 'teams', inquisitor: true },
+      ready: true,
+    });
+    return rows;
+  },
+};
+
+export const gamesInProgressSeeder: Seeder = {
+  name: 'games-in-progress',
+  run: async (context) => {
+    let rows = await seedGame(
+      context,
+      { people: drawPeople(context, 4) },
+      (state, moves) => moves >= 12 && state.phase.kind === 'turn'
+    );
+    rows += await seedGame(
+      context,
+      {
+        people: drawPeople(context, 5),
+        rules: { allegiance: 'factions', inquisitor: true },
+      },
+      (state, moves) => moves >= 20 && state.phase.kind === 'turn'
+    );
+    return rows;
+  },
+};
+
+export const assassinationSeeder: Seeder = {
+  name: 'assassination',
+  run: (context) =>
+    seedGame(
+      context,
+      { people: drawPeople(context, 3) },
+      (state) =>
+        state.phase.kind === 'respond' &&
+        state.phase.action.type === 'assassinate'
+    ),
+};
+
+export const challengeSeeder: Seeder = {
+  name: 'challenge',
+  run: (context) =>
+    seedGame(
+      context,
+      { people: drawPeople(context, 4) },
+      (state) => state.phase.kind === 'prove'
+    ),
+};
+
+/** Variants of the finished games, one game each. */
+const FINISHED_RULES: VariantRules[] = [
+  BASE_RULES,
+  BASE_RULES,
+  { allegiance: 'none', inquisitor: true },
+  { allegiance: 'factions', inquisitor: false },
+  { allegiance: 'teams', inquisitor: false },
+  { allegiance: 'teams', inquisitor: true },
+];
+
+const FINISHED_BOTS: StrategyName[] = ['heuristic', 'honest', 'random'];
+
+export const finishedGamesSeeder: Seeder = {
+  name: 'finished-games',
+  run: async (context) => {
+    let rows = 0;
+    for (const [index, rules] of FINISHED_RULES.entries()) {
+      // Two or three people, so every game is rated, filled up to four seats
+      const people = drawPeople(context, 2 + (index % 2));
+      rows += await seedGame(context, {
+        people,
+        bots: FINISHED_BOTS.slice(0, 4 - people.length),
+        rules,
+      });
+    }
+    return rows;
+  },
+};
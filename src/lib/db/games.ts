@@ -0,0 +1,330 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+
+import { and, asc, desc, eq, gt, lte } from 'drizzle-orm';
+
+import { db } from '@/lib/db/client';
+import { type Action, actions, type NewAction } from '@/lib/db/schema/actions';
+import { gameSnapshots } from '@/lib/db/schema/snapshots';
+import { type Executor, writeTransaction } from '@/lib/db/transactions';
+import {
+  applyAction,
+  claimFor,
+  createGame,
+  type NewGameOptions,
+} from '@/lib/game/engine';
+import type { GameAction, GameState, RuleViolation } from '@/lib/game/types';
+import { publishRoomChange } from '@/lib/realtime';
+
+/**
+ * Games are stored as the append-only `actions` log of a room. The current
+ * state is never written in place: it is rebuilt by folding actions onto the
+ * closest snapshot in `game_snapshots`. Engine player ids are seat ids.
+ */
+
+/** A snapshot is written every this many actions, and when the game ends. */
+export const SNAPSHOT_INTERVAL = 25;
+
+const REPLAY_VERSION = 1;
+
+export interface LoadedGame {
+  state: GameState;
+  /** Sequence of the last action folded into `state`; 0 before any action. */
+  sequence: number;
+}
+
+export type SubmitResult =
+  | { ok: true; state: GameState; sequence: number }
+  | { ok: false; violation: RuleViolation };
+
+export interface ReplayStep {
+  sequence: number;
+  /** `null` for the initial deal. */
+  action: GameAction | null;
+  state: GameState;
+  createdAt: Date;
+}
+
+export interface GameReplay {
+  version: typeof REPLAY_VERSION;
+  roomId: string;
+  exportedAt: string;
+  initialState: GameState;
+  actions: { sequence: number; action: GameAction; createdAt: string }[];
+  finalState: GameState;
+}
+
+// ============================================================================
+// Event Mapping
+// ============================================================================
+
+/** `state` is the state the action is applied to, to judge its claim. */
+export function toActionRow(
+  roomId: string,
+  sequence: number,
+  action: GameAction,
+  state: GameState
+): NewAction {
+  const { type, player, ...rest } = action;
+  const claim = claimFor(state, action);
+  const { target, role, ...payload } = rest as {
+    target?: string;
+    role?: NewAction['role'];
+  };
+
+  return {
+    roomId,
+    sequence,
+    seatId: player,
+    type,
+    targetSeatId: target ?? null,
+    role: role ?? null,
+    payload: Object.keys(payload).length > 0 ? payload : null,
+    claim: claim?.role ?? null,
+    truthful: claim?.truthful ?? null,
+  };
+}
+
+function toGameAction(row: Action): GameAction {
+  if (!row.seatId) {
+    throw new Error(`Action ${row.sequence} in room ${row.roomId} has no seat`);
+  }
+
+  // Rows are only ever written by toActionRow, so the shape round-trips
+  return {
+    type: row.type,
+    player: row.seatId,
+    ...(row.targetSeatId && { target: row.targetSeatId }),
+    ...(row.role && { role: row.role }),
+    ...row.payload,
+  } as GameAction;
+}
+
+// ============================================================================
+// Rebuilding State
+// ============================================================================
+
+async function closestSnapshot(
+  executor: Executor,
+  roomId: string,
+  at?: number
+) {
+  const [snapshot] = await executor
+    .select()
+    .from(gameSnapshots)
+    .where(
+      and(
+        eq(gameSnapshots.roomId, roomId),
+        at === undefined ? undefined : lte(gameSnapshots.sequence, at)
+      )
+    )
+    .orderBy(desc(gameSnapshots.sequence))
+    .limit(1);
+
+  if (!snapshot) {
+    throw new Error(`No game has been started in room ${roomId}`);
+  }
+  return snapshot;
+}
+
+function actionsSince(
+  executor: Executor,
+  roomId: string,
+  after: number,
+  at?: number
+) {
+  return executor
+    .select()
+    .from(actions)
+    .where(
+      and(
+        eq(actions.roomId, roomId),
+        gt(actions.sequence, after),
+        at === undefined ? undefined : lte(actions.sequence, at)
+      )
+    )
+    .orderBy(asc(actions.sequence));
+}
+
+/** Applies a stored action, which must still be legal when replayed. */
+function foldAction(state: GameState, row: Action): GameState {
+  const result = applyAction(state, toGameAction(row));
+  if (!result.ok) {
+    throw new Error(
+      `Action ${row.sequence} in room ${row.roomId} does not replay: ${result.violation.message}`
+    );
+  }
+  return result.state;
+}
+
+async function rebuild(
+  executor: Executor,
+  roomId: string,
+  at?: number
+): Promise<LoadedGame> {
+  const snapshot = await closestSnapshot(executor, roomId, at);
+  const rows = await actionsSince(executor, roomId, snapshot.sequence, at);
+
+  return {
+    state: rows.reduce(foldAction, snapshot.state),
+    sequence: rows.at(-1)?.sequence ?? snapshot.sequence,
+  };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Deals a new game for the room and stores it as snapshot 0. Run inside the
+ * transaction that starts the room; the caller announces it once committed.
+ */
+export async function startGame(
+  roomId: string,
+  options: NewGameOptions,
+  executor: Executor = db
+): Promise<GameState> {
+  const state = createGame(options);
+  await executor.insert(gameSnapshots).values({ roomId, sequence: 0, state });
+  return state;
+}
+
+/** Current state of the room's game. */
+export function loadGame(roomId: string): Promise<LoadedGame> {
+  return rebuild(db, roomId);
+}
+
+/** Every action of the room's game so far, oldest first. */
+export async function loadHistory(roomId: string): Promise<GameAction[]> {
+  const rows = await actionsSince(db, roomId, 0);
+  return rows.map(toGameAction);
+}
+
+/**
+ * State right after action `sequence`, for settling disputes. The log itself
+ * is untouched; rewinding only reads it.
+ */
+export async function rewindGame(
+  roomId: string,
+  sequence: number
+): Promise<GameState> {
+  const game = await rebuild(db, roomId, sequence);
+  if (game.sequence !== sequence) {
+    throw new Error(`Room ${roomId} has no action ${sequence}`);
+  }
+  return game.state;
+}
+
+/**
+ * Validates an action against the current state and appends it to the log.
+ * The write lock is taken up front so concurrent submissions are serialized
+ * instead of racing for the same sequence number. With `after`, the action is
+ * only applied if it would directly follow that sequence. Pass `executor` to
+ * append inside a transaction of the caller's, which then announces the move
+ * once committed.
+ */
+export async function submitAction(
+  roomId: string,
+  action: GameAction,
+  after?: number,
+  executor?: Executor
+): Promise<SubmitResult> {
+  const append = async (tx: Executor): Promise<SubmitResult> => {
+    const current = await rebuild(tx, roomId);
+    if (after !== undefined && current.sequence !== after) {
+      return {
+        ok: false,
+        violation: {
+          code: 'wrong-phase',
+          message: `Expected action ${after} to be the latest, found ${current.sequence}`,
+        },
+      };
+    }
+
+    const applied = applyAction(current.state, action);
+    if (!applied.ok) return applied;
+
+    const sequence = current.sequence + 1;
+    await tx
+      .insert(actions)
+      .values(toActionRow(roomId, sequence, action, current.state));
+
+    if (
+      sequence % SNAPSHOT_INTERVAL === 0 ||
+      applied.state.phase.kind === 'game-over'
+    ) {
+      await tx
+        .insert(gameSnapshots)
+        .values({ roomId, sequence, state: applied.state });
+    }
+
+    return { ok: true, state: applied.state, sequence };
+  };
+
+  if (executor) return append(executor);
+
+  const result = await writeTransaction(append);
+  if (result.ok) publishRoomChange(roomId, 'game');
+  return result;
+}
+
+/** Walks the game from the deal, yielding the state after every action. */
+export async function* replayGame(roomId: string): AsyncGenerator<ReplayStep> {
+  const initial = await closestSnapshot(db, roomId, 0);
+  const rows = await actionsSince(db, roomId, 0);
+
+  let state = initial.state;
+  yield { sequence: 0, action: null, state, createdAt: initial.createdAt };
+
+  for (const row of rows) {
+    state = foldAction(state, row);
+    yield {
+      sequence: row.sequence,
+      action: toGameAction(row),
+      state,
+      createdAt: row.createdAt,
+    };
+  }
+}
+
+/** Builds a self-contained replay of a finished game. */
+export async function exportReplay(roomId: string): Promise<GameReplay> {
+  const steps: ReplayStep[] = [];
+  for await (const step of replayGame(roomId)) {
+    steps.push(step);
+  }
+
+  const [initial, ...moves] = steps;
+  const finalState = steps[steps.length - 1].state;
+
+  if (finalState.phase.kind !== 'game-over') {
+    throw new Error(`The game in room ${roomId} has not finished yet`);
+  }
+
+  return {
+    version: REPLAY_VERSION,
+    roomId,
+    exportedAt: new Date().toISOString(),
+    initialState: initial.state,
+    actions: moves.map((step) => ({
+      sequence: step.sequence,
+      action: step.action as GameAction,
+      createdAt: step.createdAt.toISOString(),
+    })),
+    finalState,
+  };
+}
+
+/** Writes the replay of a finished game to a JSON file and returns its path. */
+export async function writeReplay(
+  roomId: string,
+  path: string
+): Promise<string> {
+  const replay = await exportReplay(roomId);
+  const target = resolve(path);
+
+  await mkdir(dirname(target), { recursive: true });
+  await writeFile(target, `${JSON.stringify(replay, null, 2)}\n`, 'utf8');
+
+  return target;
+}
@@ -0,0 +1,261 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import type { Client, InArgs, InStatement, Transaction } from '@libsql/client';
+
+import { env } from '@/lib/env';
+
+/**
+ * Query logging for development, chosen with DATABASE_LOG. Timing happens at
+ * the libsql client rather than in drizzle's logger, which only sees queries
+ * before they run.
+ *
+ * Work done for one request runs inside `withQueryScope`, which labels its
+ * queries with the route and reports a summary when it is done: how many
+ * queries ran, how long they took, and statements repeated often enough to
+ * look like an N+1. Queries outside a scope, such as the sweeper polling its
+ * timers, are only reported when they are slow.
+ */
+
+export interface QueryEvent {
+  sql: string;
+  /** Numbers, booleans and nulls; strings and blobs only by length. */
+  params: unknown[];
+  durationMs: number;
+  /** `null` outside `withQueryScope`. */
+  route: string | null;
+  slow: boolean;
+}
+
+export interface ScopeSummary {
+  route: string;
+  queries: number;
+  durationMs: number;
+  slow: number;
+  /** Statements run at least `REPEAT_THRESHOLD` times. */
+  repeated: { sql: string; count: number }[];
+}
+
+/** Receives queries and scope summaries; one per DATABASE_LOG mode. */
+export interface QueryLogger {
+  query(event: QueryEvent): void;
+  scope(summary: ScopeSummary): void;
+}
+
+interface QueryScope {
+  route: string;
+  queries: number;
+  durationMs: number;
+  slow: number;
+  counts: Map<string, number>;
+}
+
+/** A statement run this often in one scope is probably inside a loop. */
+const REPEAT_THRESHOLD = 5;
+
+const SQL_PREVIEW_LENGTH = 160;
+
+const scopes = new AsyncLocalStorage<QueryScope>();
+
+function preview(sql: string): string {
+  const flat = sql.replace(/\s+/g, ' ').trim();
+  return flat.length > SQL_PREVIEW_LENGTH
+    ? `${flat.slice(0, SQL_PREVIEW_LENGTH)}…`
+    : flat;
+}
+
+function redact(value: unknown): unknown {
+  if (typeof value === 'string') return `<${value.length} chars>`;
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    return `<${value.byteLength} bytes>`;
+  }
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+function redactArgs(args: InArgs | undefined): unknown[] {
+  if (!args) return [];
+  return Array.isArray(args)
+    ? args.map(redact)
+    : Object.values(args).map(redact);
+}
+
+function formatMs(ms: number): string {
+  return `${ms.toFixed(1)}ms`;
+}
+
+// ============================================================================
+// Loggers
+// ============================================================================
+
+const prettyScope = (summary: ScopeSummary) => {
+  const line = `[db] ${summary.route}: ${summary.queries} queries in ${formatMs(summary.durationMs)}`;
+  console.log(summary.slow > 0 ? `${line}, ${summary.slow} slow` : line);
+  for (const { sql, count } of summary.repeated) {
+    console.warn(`[db]   possible N+1, ran ${count}×: ${preview(sql)}`);
+  }
+};
+
+const loggers: Record<Exclude<typeof env.DATABASE_LOG, 'off'>, QueryLogger> = {
+  pretty: {
+    query: (event) => {
+      const line = `[db] ${formatMs(event.durationMs)} ${preview(event.sql)}${event.params.length > 0 ? ` ${JSON.stringify(event.params)}` : ''}${event.route ? ` (${event.route})` : ''}`;
+      if (event.slow) {
+        console.warn(`${line} SLOW`);
+      } else {
+        console.log(line);
+      }
+    },
+    scope: prettyScope,
+  },
+  slow: {
+    query: (event) => {
+      if (!event.slow) return;
+      console.warn(
+        `[db] slow query, ${formatMs(event.durationMs)}: ${preview(event.sql)}${event.route ? ` (${event.route})` : ''}`
+      );
+    },
+    scope: (summary) => {
+      if (summary.slow > 0 || summary.repeated.length > 0) {
+        prettyScope(summary);
+      }
+    },
+  },
+  json: {
+    query: (event) => console.log(JSON.stringify({ type: 'query', ...event })),
+    scope: (summary) =>
+      console.log(JSON.stringify({ type: 'scope', ...summary })),
+  },
+};
+
+const logger: QueryLogger | null =
+  env.DATABASE_LOG === 'off' ? null : loggers[env.DATABASE_LOG];
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+function record(sql: string, args: InArgs | undefined, durationMs: number) {
+  if (!logger) return;
+
+  const scope = scopes.getStore();
+  const slow = durationMs >= env.DATABASE_SLOW_QUERY_MS;
+  if (scope) {
+    scope.queries++;
+    scope.durationMs += durationMs;
+    if (slow) scope.slow++;
+    scope.counts.set(sql, (scope.counts.get(sql) ?? 0) + 1);
+  } else if (!slow) {
+    return;
+  }
+
+  logger.query({
+    sql,
+    params: redactArgs(args),
+    durationMs,
+    route: scope?.route ?? null,
+    slow,
+  });
+}
+
+async function timed<T>(
+  sql: string,
+  args: InArgs | undefined,
+  run: () => Promise<T>
+): Promise<T> {
+  const start = performance.now();
+  try {
+    return await run();
+  } finally {
+    record(sql, args, performance.now() - start);
+  }
+}
+
+function statementOf(
+  stmt: InStatement | [string, InArgs?],
+  args?: InArgs
+): { sql: string; args?: InArgs } {
+  if (typeof stmt === 'string') return { sql: stmt, args };
+  if (Array.isArray(stmt)) return { sql: stmt[0], args: stmt[1] };
+  return stmt;
+}
+
+/** Wraps `execute` and `batch`; a batch is recorded as one query. */
+function instrument<T extends Client | Transaction>(target: T): T {
+  return new Proxy(target, {
+    get(object, property, receiver) {
+      if (property === 'execute') {
+        return (stmt: InStatement, args?: InArgs) => {
+          const statement = statementOf(stmt, args);
+          return timed(statement.sql, statement.args, () =>
+            object.execute(stmt as string, args)
+          );
+        };
+      }
+      if (property === 'batch') {
+        return (
+          stmts: Array<InStatement | [string, InArgs?]>,
+          ...rest: unknown[]
+        ) => {
+          const statements = stmts.map((stmt) => statementOf(stmt));
+          return timed(
+            statements.map((statement) => statement.sql).join(';\n'),
+            statements.flatMap((statement) =>
+              Array.isArray(statement.args) ? statement.args : []
+            ),
+            () => (object.batch as Client['batch'])(stmts, ...(rest as []))
+          );
+        };
+      }
+      if (property === 'transaction') {
+        return async (...rest: unknown[]) =>
+          instrument(await (object as Client).transaction(...(rest as [])));
+      }
+
+      const value = Reflect.get(object, property, receiver);
+      return typeof value === 'function' ? value.bind(object) : value;
+    },
+  });
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/** The client itself while DATABASE_LOG is off, so logging costs nothing. */
+export function instrumentClient(client: Client): Client {
+  return logger ? instrument(client) : client;
+}
+
+/**
+ * Runs `work` as one unit for the query log, such as a page render or a
+ * server action. Nested scopes count towards the outermost one.
+ */
+export async function withQueryScope<T>(
+  route: string,
+  work: () => Promise<T>
+): Promise<T> {
+  if (!logger || scopes.getStore()) return work();
+
+  const scope: QueryScope = {
+    route,
+    queries: 0,
+    durationMs: 0,
+    slow: 0,
+    counts: new Map(),
+  };
+  try {
+    return await scopes.run(scope, work);
+  } finally {
+    if (scope.queries > 0) {
+      logger.scope({
+        route,
+        queries: scope.queries,
+        durationMs: scope.durationMs,
+        slow: scope.slow,
+        repeated: [...scope.counts]
+          .filter(([, count]) => count >= REPEAT_THRESHOLD)
+          .map(([sql, count]) => ({ sql, count })),
+      });
+    }
+  }
+}
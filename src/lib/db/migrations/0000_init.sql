@@ -0,0 +1,80 @@
+CREATE TABLE `coop.actions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`room_id` text NOT NULL,
+	`sequence` integer NOT NULL,
+	`seat_id` text,
+	`type` text NOT NULL,
+	`target_seat_id` text,
+	`role` text,
+	`payload` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`room_id`) REFERENCES `coop.rooms`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`seat_id`) REFERENCES `coop.seats`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`target_seat_id`) REFERENCES `coop.seats`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `coop.actions_room_sequence_unique` ON `coop.actions` (`room_id`,`sequence`);--> statement-breakpoint
+CREATE TABLE `coop.court_cards` (
+	`id` text PRIMARY KEY NOT NULL,
+	`room_id` text NOT NULL,
+	`role` text NOT NULL,
+	`position` integer NOT NULL,
+	FOREIGN KEY (`room_id`) REFERENCES `coop.rooms`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `coop.court_cards_room_position_unique` ON `coop.court_cards` (`room_id`,`position`);--> statement-breakpoint
+CREATE TABLE `coop.influences` (
+	`id` text PRIMARY KEY NOT NULL,
+	`seat_id` text NOT NULL,
+	`role` text NOT NULL,
+	`revealed` integer DEFAULT false NOT NULL,
+	`dealt_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`lost_at` integer,
+	FOREIGN KEY (`seat_id`) REFERENCES `coop.seats`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `coop.coin_balances` (
+	`seat_id` text PRIMARY KEY NOT NULL,
+	`amount` integer DEFAULT 2 NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`seat_id`) REFERENCES `coop.seats`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `coop.players` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `coop.rooms` (
+	`id` text PRIMARY KEY NOT NULL,
+	`code` text NOT NULL,
+	`host_id` text NOT NULL,
+	`status` text DEFAULT 'waiting' NOT NULL,
+	`max_players` integer DEFAULT 6 NOT NULL,
+	`turn_seconds` integer,
+	`variant` text DEFAULT 'base' NOT NULL,
+	`turn_position` integer,
+	`winner_id` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`started_at` integer,
+	`finished_at` integer,
+	FOREIGN KEY (`host_id`) REFERENCES `coop.players`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`winner_id`) REFERENCES `coop.players`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `coop.rooms_code_unique` ON `coop.rooms` (`code`);--> statement-breakpoint
+CREATE TABLE `coop.seats` (
+	`id` text PRIMARY KEY NOT NULL,
+	`room_id` text NOT NULL,
+	`player_id` text NOT NULL,
+	`position` integer NOT NULL,
+	`ready` integer DEFAULT false NOT NULL,
+	`joined_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`eliminated_at` integer,
+	FOREIGN KEY (`room_id`) REFERENCES `coop.rooms`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`player_id`) REFERENCES `coop.players`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `coop.seats_room_position_unique` ON `coop.seats` (`room_id`,`position`);--> statement-breakpoint
+CREATE UNIQUE INDEX `coop.seats_room_player_unique` ON `coop.seats` (`room_id`,`player_id`);
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `coop.game_snapshots` (
+	`id` text PRIMARY KEY NOT NULL,
+	`room_id` text NOT NULL,
+	`sequence` integer NOT NULL,
+	`state` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`room_id`) REFERENCES `coop.rooms`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `coop.game_snapshots_room_sequence_unique` ON `coop.game_snapshots` (`room_id`,`sequence`);
\ No newline at end of file
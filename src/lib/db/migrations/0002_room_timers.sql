@@ -0,0 +1,12 @@
+CREATE TABLE `coop.room_timers` (
+	`room_id` text PRIMARY KEY NOT NULL,
+	`sequence` integer NOT NULL,
+	`kind` text NOT NULL,
+	`deadline` integer NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`room_id`) REFERENCES `coop.rooms`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `coop.room_timers_deadline_idx` ON `coop.room_timers` (`deadline`);--> statement-breakpoint
+ALTER TABLE `coop.rooms` ADD `response_seconds` integer;--> statement-breakpoint
+ALTER TABLE `coop.seats` ADD `timeouts` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,18 @@
+DROP INDEX "coop.actions_room_sequence_unique";--> statement-breakpoint
+DROP INDEX "coop.court_cards_room_position_unique";--> statement-breakpoint
+DROP INDEX "coop.rooms_code_unique";--> statement-breakpoint
+DROP INDEX "coop.seats_room_position_unique";--> statement-breakpoint
+DROP INDEX "coop.seats_room_player_unique";--> statement-breakpoint
+DROP INDEX "coop.game_snapshots_room_sequence_unique";--> statement-breakpoint
+DROP INDEX "coop.room_timers_deadline_idx";--> statement-breakpoint
+ALTER TABLE `coop.room_timers` ALTER COLUMN "deadline" TO "deadline" integer;--> statement-breakpoint
+ALTER TABLE `coop.room_timers` ADD `bots_at` integer;--> statement-breakpoint
+ALTER TABLE `coop.seats` ADD `bot` text;--> statement-breakpoint
+CREATE UNIQUE INDEX `coop.actions_room_sequence_unique` ON `coop.actions` (`room_id`,`sequence`);--> statement-breakpoint
+CREATE UNIQUE INDEX `coop.court_cards_room_position_unique` ON `coop.court_cards` (`room_id`,`position`);--> statement-breakpoint
+CREATE UNIQUE INDEX `coop.rooms_code_unique` ON `coop.rooms` (`code`);--> statement-breakpoint
+CREATE UNIQUE INDEX `coop.seats_room_position_unique` ON `coop.seats` (`room_id`,`position`);--> statement-breakpoint
+CREATE UNIQUE INDEX `coop.seats_room_player_unique` ON `coop.seats` (`room_id`,`player_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `coop.game_snapshots_room_sequence_unique` ON `coop.game_snapshots` (`room_id`,`sequence`);--> statement-breakpoint
+CREATE INDEX `coop.room_timers_deadline_idx` ON `coop.room_timers` (`deadline`);--> statement-breakpoint
+CREATE INDEX `coop.room_timers_bots_at_idx` ON `coop.room_timers` (`bots_at`);
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE `coop.tournament_results` (
+	`id` text PRIMARY KEY NOT NULL,
+	`run_id` text NOT NULL,
+	`strategy` text NOT NULL,
+	`seats` integer NOT NULL,
+	`wins` integer NOT NULL,
+	`win_rate` real NOT NULL,
+	`interval_low` real NOT NULL,
+	`interval_high` real NOT NULL,
+	`bluffs` integer NOT NULL,
+	`bluffs_caught` integer NOT NULL,
+	`challenges` integer NOT NULL,
+	`challenges_won` integer NOT NULL,
+	FOREIGN KEY (`run_id`) REFERENCES `coop.tournament_runs`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `coop.tournament_results_run_idx` ON `coop.tournament_results` (`run_id`);--> statement-breakpoint
+CREATE TABLE `coop.tournament_runs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`settings` text NOT NULL,
+	`strategies` text NOT NULL,
+	`games` integer NOT NULL,
+	`players` integer NOT NULL,
+	`seed` integer NOT NULL,
+	`abandoned` integer DEFAULT 0 NOT NULL,
+	`average_turns` real NOT NULL,
+	`duration_ms` integer NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `coop.tournament_runs_settings_idx` ON `coop.tournament_runs` (`settings`,`created_at`);
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE `coop.sessions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`expires_at` integer NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `coop.users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `coop.sessions_user_idx` ON `coop.sessions` (`user_id`);--> statement-breakpoint
+CREATE INDEX `coop.sessions_expires_at_idx` ON `coop.sessions` (`expires_at`);--> statement-breakpoint
+CREATE TABLE `coop.users` (
+	`id` text PRIMARY KEY NOT NULL,
+	`username` text,
+	`password_hash` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `coop.users_username_unique` ON `coop.users` (`username`);--> statement-breakpoint
+ALTER TABLE `coop.players` ADD `user_id` text REFERENCES `coop.users`(`id`) ON UPDATE no action ON DELETE set null;--> statement-breakpoint
+CREATE UNIQUE INDEX `coop.players_user_unique` ON `coop.players` (`user_id`);
\ No newline at end of file
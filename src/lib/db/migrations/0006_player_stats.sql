@@ -0,0 +1,8 @@
+ALTER TABLE `coop.actions` ADD `claim` text;--> statement-breakpoint
+ALTER TABLE `coop.actions` ADD `truthful` integer;--> statement-breakpoint
+CREATE INDEX `coop.actions_seat_type_idx` ON `coop.actions` (`seat_id`,`type`);--> statement-breakpoint
+ALTER TABLE `coop.players` ADD `rating` integer DEFAULT 1200 NOT NULL;--> statement-breakpoint
+ALTER TABLE `coop.players` ADD `rated_games` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE INDEX `coop.players_rating_idx` ON `coop.players` (`rating`);--> statement-breakpoint
+ALTER TABLE `coop.seats` ADD `rating_delta` integer;--> statement-breakpoint
+CREATE INDEX `coop.seats_player_idx` ON `coop.seats` (`player_id`);
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `coop.rooms` ADD `rules` text DEFAULT '{"allegiance":"none","inquisitor":false}' NOT NULL;--> statement-breakpoint
+ALTER TABLE `coop.seats` ADD `won` integer;--> statement-breakpoint
+-- Games finished before team play had a single winner
+UPDATE `coop.seats` SET `won` = (`player_id` = (SELECT `winner_id` FROM `coop.rooms` WHERE `coop.rooms`.`id` = `coop.seats`.`room_id`)) WHERE `room_id` IN (SELECT `id` FROM `coop.rooms` WHERE `status` = 'finished');
@@ -0,0 +1,4 @@
+-- Never written: hands, the court deck and coins live in the action log
+DROP TABLE `coop.court_cards`;--> statement-breakpoint
+DROP TABLE `coop.influences`;--> statement-breakpoint
+DROP TABLE `coop.coin_balances`;
\ No newline at end of file
@@ -0,0 +1,8 @@
+-- Everything is lost: this drops every table of the first migration
+DROP TABLE `coop.actions`;--> statement-breakpoint
+DROP TABLE `coop.court_cards`;--> statement-breakpoint
+DROP TABLE `coop.influences`;--> statement-breakpoint
+DROP TABLE `coop.coin_balances`;--> statement-breakpoint
+DROP TABLE `coop.seats`;--> statement-breakpoint
+DROP TABLE `coop.rooms`;--> statement-breakpoint
+DROP TABLE `coop.players`;
@@ -0,0 +1,2 @@
+-- Game state is lost; rooms in play can no longer be resumed
+DROP TABLE `coop.game_snapshots`;
@@ -0,0 +1,4 @@
+-- Running turn timers and timeout counts are lost; games wait indefinitely
+ALTER TABLE `coop.seats` DROP COLUMN `timeouts`;--> statement-breakpoint
+ALTER TABLE `coop.rooms` DROP COLUMN `response_seconds`;--> statement-breakpoint
+DROP TABLE `coop.room_timers`;
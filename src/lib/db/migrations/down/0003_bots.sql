@@ -0,0 +1,9 @@
+-- Bot seats turn into ordinary players, who then time out on their turns.
+-- Timers only waiting on bots have no deadline to keep and are dropped.
+DELETE FROM `coop.room_timers` WHERE `deadline` IS NULL;--> statement-breakpoint
+DROP INDEX `coop.room_timers_bots_at_idx`;--> statement-breakpoint
+DROP INDEX `coop.room_timers_deadline_idx`;--> statement-breakpoint
+ALTER TABLE `coop.room_timers` ALTER COLUMN "deadline" TO "deadline" integer NOT NULL;--> statement-breakpoint
+CREATE INDEX `coop.room_timers_deadline_idx` ON `coop.room_timers` (`deadline`);--> statement-breakpoint
+ALTER TABLE `coop.room_timers` DROP COLUMN `bots_at`;--> statement-breakpoint
+ALTER TABLE `coop.seats` DROP COLUMN `bot`;
@@ -0,0 +1,3 @@
+-- Tournament runs and their results are lost
+DROP TABLE `coop.tournament_results`;--> statement-breakpoint
+DROP TABLE `coop.tournament_runs`;
@@ -0,0 +1,5 @@
+-- Accounts and sessions are lost; their players stay behind as guests
+DROP INDEX `coop.players_user_unique`;--> statement-breakpoint
+ALTER TABLE `coop.players` DROP COLUMN `user_id`;--> statement-breakpoint
+DROP TABLE `coop.sessions`;--> statement-breakpoint
+DROP TABLE `coop.users`;
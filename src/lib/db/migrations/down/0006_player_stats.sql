@@ -0,0 +1,9 @@
+-- Ratings, rated game counts and claim statistics are lost
+DROP INDEX `coop.seats_player_idx`;--> statement-breakpoint
+ALTER TABLE `coop.seats` DROP COLUMN `rating_delta`;--> statement-breakpoint
+DROP INDEX `coop.players_rating_idx`;--> statement-breakpoint
+ALTER TABLE `coop.players` DROP COLUMN `rated_games`;--> statement-breakpoint
+ALTER TABLE `coop.players` DROP COLUMN `rating`;--> statement-breakpoint
+DROP INDEX `coop.actions_seat_type_idx`;--> statement-breakpoint
+ALTER TABLE `coop.actions` DROP COLUMN `truthful`;--> statement-breakpoint
+ALTER TABLE `coop.actions` DROP COLUMN `claim`;
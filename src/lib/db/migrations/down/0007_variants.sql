@@ -0,0 +1,3 @@
+-- Team results and variant rules are lost; rooms keep their listing name
+ALTER TABLE `coop.seats` DROP COLUMN `won`;--> statement-breakpoint
+ALTER TABLE `coop.rooms` DROP COLUMN `rules`;
@@ -0,0 +1,26 @@
+-- The tables come back empty; games keep their state in the action log
+CREATE TABLE `coop.court_cards` (
+	`id` text PRIMARY KEY NOT NULL,
+	`room_id` text NOT NULL,
+	`role` text NOT NULL,
+	`position` integer NOT NULL,
+	FOREIGN KEY (`room_id`) REFERENCES `coop.rooms`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `coop.court_cards_room_position_unique` ON `coop.court_cards` (`room_id`,`position`);--> statement-breakpoint
+CREATE TABLE `coop.influences` (
+	`id` text PRIMARY KEY NOT NULL,
+	`seat_id` text NOT NULL,
+	`role` text NOT NULL,
+	`revealed` integer DEFAULT false NOT NULL,
+	`dealt_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`lost_at` integer,
+	FOREIGN KEY (`seat_id`) REFERENCES `coop.seats`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `coop.coin_balances` (
+	`seat_id` text PRIMARY KEY NOT NULL,
+	`amount` integer DEFAULT 2 NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`seat_id`) REFERENCES `coop.seats`(`id`) ON UPDATE no action ON DELETE cascade
+);
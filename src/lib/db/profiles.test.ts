@@ -0,0 +1,90 @@
+import { describe, expect, test } from 'bun:test';
+
+import {
+  type DatabaseEnv,
+  LOCAL_FALLBACK_URL,
+  resolveDatabaseTarget,
+  SQLD_DEFAULT_URL,
+  TEST_URL,
+} from '@/lib/db/profiles';
+
+function resolve(config: Partial<DatabaseEnv>) {
+  return resolveDatabaseTarget({ NODE_ENV: 'development', ...config });
+}
+
+describe('resolveDatabaseTarget', () => {
+  test('tests always get a private in-memory database', () => {
+    expect(
+      resolve({ NODE_ENV: 'test', DATABASE_URL: 'libsql://coop.turso.io' })
+    ).toEqual({ profile: 'local', url: TEST_URL, fallback: false });
+  });
+
+  test('the local profile opens a file', () => {
+    expect(
+      resolve({ DATABASE_PROFILE: 'local', DATABASE_URL: 'file:coop.db' })
+    ).toMatchObject({ profile: 'local', url: 'file:coop.db', fallback: false });
+  });
+
+  test('the sqld profile defaults to the local server', () => {
+    expect(resolve({ DATABASE_PROFILE: 'sqld' })).toMatchObject({
+      profile: 'sqld',
+      url: SQLD_DEFAULT_URL,
+    });
+  });
+
+  test('the remote profile needs a URL and may keep a replica', () => {
+    expect(() => resolve({ DATABASE_PROFILE: 'remote' })).toThrow(
+      'DATABASE_URL is required for the remote profile'
+    );
+    expect(
+      resolve({
+        DATABASE_PROFILE: 'remote',
+        DATABASE_URL: 'libsql://coop.turso.io',
+        DATABASE_AUTH_TOKEN: 'token',
+        DATABASE_REPLICA: 'replica.db',
+        DATABASE_SYNC_INTERVAL: 60,
+      })
+    ).toEqual({
+      profile: 'remote',
+      url: 'file:replica.db',
+      authToken: 'token',
+      syncUrl: 'libsql://coop.turso.io',
+      syncInterval: 60,
+      fallback: false,
+    });
+  });
+
+  test('without a profile, the URL picks one', () => {
+    expect(resolve({ DATABASE_URL: 'file:coop.db' }).profile).toBe('local');
+    expect(resolve({ DATABASE_URL: 'http://localhost:8080' }).profile).toBe(
+      'sqld'
+    );
+    expect(resolve({ DATABASE_URL: 'libsql://coop.turso.io' }).profile).toBe(
+      'remote'
+    );
+  });
+
+  test('a URL that does not fit the profile is rejected', () => {
+    expect(() =>
+      resolve({ DATABASE_PROFILE: 'sqld', DATABASE_URL: 'file:coop.db' })
+    ).toThrow('does not fit the sqld profile');
+    expect(() =>
+      resolve({ DATABASE_URL: 'file:coop.db', DATABASE_REPLICA: 'replica.db' })
+    ).toThrow('DATABASE_REPLICA only works with the remote profile');
+  });
+
+  test('development falls back to a local file without a URL', () => {
+    expect(resolve({})).toEqual({
+      profile: 'local',
+      url: LOCAL_FALLBACK_URL,
+      authToken: undefined,
+      fallback: true,
+    });
+  });
+
+  test('production fails without a URL', () => {
+    expect(() => resolve({ NODE_ENV: 'production' })).toThrow(
+      'DATABASE_URL is required in production'
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import { env } from '@/lib/env';
+
+/**
+ * Which database the app talks to. DATABASE_PROFILE picks one of
+ *
+ * - `local`: a SQLite file (or `:memory:`), `file:local.db` by default
+ * - `sqld`: a local sqld or `turso dev` standing in for Turso, on port 8080
+ *   by default
+ * - `remote`: a Turso or other hosted libsql database; DATABASE_URL is
+ *   required, and DATABASE_REPLICA keeps an embedded replica of it in a local
+ *   file that reads are served from
+ *
+ * Without DATABASE_PROFILE the profile follows from DATABASE_URL, and outside
+ * production a missing DATABASE_URL falls back to the local file. Under
+ * `bun test` (NODE_ENV=test) none of it applies: the configured database is a
+ * private in-memory one, so no test run opens a real database.
+ */
+
+export type DatabaseProfile = NonNullable<typeof env.DATABASE_PROFILE>;
+
+/** The variables a target is resolved from. */
+export type DatabaseEnv = Pick<
+  typeof env,
+  | 'NODE_ENV'
+  | 'DATABASE_PROFILE'
+  | 'DATABASE_URL'
+  | 'DATABASE_AUTH_TOKEN'
+  | 'DATABASE_REPLICA'
+  | 'DATABASE_SYNC_INTERVAL'
+>;
+
+export interface DatabaseTarget {
+  profile: DatabaseProfile;
+  /** What the client opens: the database itself, or the replica file. */
+  url: string;
+  authToken?: string;
+  /** The primary an embedded replica syncs from. */
+  syncUrl?: string;
+  /** Seconds between replica syncs; only synced on demand when unset. */
+  syncInterval?: number;
+  /** No DATABASE_URL was set, so development fell back to `url`. */
+  fallback: boolean;
+}
+
+export const LOCAL_FALLBACK_URL = 'file:local.db';
+
+export const TEST_URL = ':memory:';
+
+/** Where `turso dev` and the sqld container listen unless told otherwise. */
+export const SQLD_DEFAULT_URL = 'http://127.0.0.1:8080';
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+function isFileUrl(url: string): boolean {
+  return url === ':memory:' || url.startsWith('file:');
+}
+
+function inferProfile(url: string): DatabaseProfile {
+  if (isFileUrl(url)) return 'local';
+  return LOOPBACK_HOSTS.includes(new URL(url).hostname) ? 'sqld' : 'remote';
+}
+
+function defaultUrl(config: DatabaseEnv): string {
+  const profile = config.DATABASE_PROFILE;
+  if (profile === 'sqld') return SQLD_DEFAULT_URL;
+  if (profile === 'remote') {
+    throw new Error('DATABASE_URL is required for the remote profile');
+  }
+  if (!profile && config.NODE_ENV === 'production') {
+    throw new Error('DATABASE_URL is required in production');
+  }
+  return LOCAL_FALLBACK_URL;
+}
+
+/** Resolves the environment (or `config`) into the database to open. */
+export function resolveDatabaseTarget(
+  config: DatabaseEnv = env
+): DatabaseTarget {
+  if (config.NODE_ENV === 'test') {
+    return { profile: 'local', url: TEST_URL, fallback: false };
+  }
+
+  const configured = config.DATABASE_URL;
+  const url = configured ?? defaultUrl(config);
+  const profile = config.DATABASE_PROFILE ?? inferProfile(url);
+
+  if ((profile === 'local') !== isFileUrl(url)) {
+    throw new Error(
+      `DATABASE_URL ${redactUrl(url)} does not fit the ${profile} profile`
+    );
+  }
+
+  const authToken = config.DATABASE_AUTH_TOKEN;
+  if (config.DATABASE_REPLICA === undefined) {
+    return { profile, url, authToken, fallback: configured === undefined };
+  }
+
+  if (profile !== 'remote') {
+    throw new Error('DATABASE_REPLICA only works with the remote profile');
+  }
+  return {
+    profile,
+    url: `file:${config.DATABASE_REPLICA}`,
+    authToken,
+    syncUrl: url,
+    syncInterval: config.DATABASE_SYNC_INTERVAL,
+    fallback: false,
+  };
+}
+
+/** Drops credentials and query parameters, which may carry a token. */
+export function redactUrl(url: string): string {
+  if (isFileUrl(url)) return url;
+  const parsed = new URL(url);
+  return `${parsed.protocol}//${parsed.host}${parsed.pathname === '/' ? '' : parsed.pathname}`;
+}
+
+/** One line naming the profile and where the data actually lives. */
+export function describeDatabaseTarget(target: DatabaseTarget): string {
+  if (target.syncUrl) {
+    const every = target.syncInterval
+      ? `, synced every ${target.syncInterval}s`
+      : '';
+    return `${target.profile} ${redactUrl(target.syncUrl)} via replica ${target.url}${every}`;
+  }
+  const fallback = target.fallback ? ' (DATABASE_URL is not set)' : '';
+  return `${target.profile} ${redactUrl(target.url)}${fallback}`;
+}
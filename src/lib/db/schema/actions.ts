@@ -0,0 +1,67 @@
+import { relations, sql } from 'drizzle-orm';
+import { index, integer, text, uniqueIndex } from 'drizzle-orm/sqlite-core';
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
+
+import { rooms } from '@/lib/db/schema/rooms';
+import { seats } from '@/lib/db/schema/seats';
+import { createTable, indexName } from '@/lib/db/utils';
+import { actionTypes, roles } from '@/lib/game/types';
+
+/**
+ * Append-only log of everything that happened in a room. Rows are never
+ * updated or deleted while the room exists; `sequence` orders them.
+ */
+export const actions = createTable(
+  'actions',
+  {
+    id: integer().primaryKey({ autoIncrement: true }),
+    roomId: text()
+      .notNull()
+      .references(() => rooms.id, { onDelete: 'cascade' }),
+    sequence: integer().notNull(),
+    /** `null` for moves made by the game itself (e.g. dealing). */
+    seatId: text().references(() => seats.id),
+    type: text({ enum: actionTypes }).notNull(),
+    targetSeatId: text().references(() => seats.id),
+    /** Role claimed for the action, block or reveal. */
+    role: text({ enum: roles }),
+    /** Role this action claims, or disputes when it is a challenge. */
+    claim: text({ enum: roles }),
+    /** Whether the claimant held `claim` at the time; `null` without one. */
+    truthful: integer({ mode: 'boolean' }),
+    payload: text({ mode: 'json' }).$type<Record<string, unknown>>(),
+    createdAt: integer({ mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (t) => [
+    uniqueIndex(indexName('actions_room_sequence_unique')).on(
+      t.roomId,
+      t.sequence
+    ),
+    // Player stats look up every claim and challenge made from a seat
+    index(indexName('actions_seat_type_idx')).on(t.seatId, t.type),
+  ]
+);
+
+export const actionsRelations = relations(actions, ({ one }) => ({
+  room: one(rooms, { fields: [actions.roomId], references: [rooms.id] }),
+  seat: one(seats, {
+    fields: [actions.seatId],
+    references: [seats.id],
+    relationName: 'actor',
+  }),
+  target: one(seats, {
+    fields: [actions.targetSeatId],
+    references: [seats.id],
+    relationName: 'target',
+  }),
+}));
+
+export const insertActionSchema = createInsertSchema(actions, {
+  sequence: (schema) => schema.int().min(0),
+});
+export const selectActionSchema = createSelectSchema(actions);
+
+export type Action = typeof actions.$inferSelect;
+export type NewAction = typeof actions.$inferInsert;
@@ -0,0 +1,46 @@
+import { relations, sql } from 'drizzle-orm';
+import { index, integer, text, uniqueIndex } from 'drizzle-orm/sqlite-core';
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
+import { v7 as uuidv7 } from 'uuid';
+
+import { seats } from '@/lib/db/schema/seats';
+import { users } from '@/lib/db/schema/users';
+import { createTable, indexName } from '@/lib/db/utils';
+
+/** Rating of a player before their first rated game. */
+export const INITIAL_RATING = 1200;
+
+export const players = createTable(
+  'players',
+  {
+    id: text()
+      .primaryKey()
+      .$defaultFn(() => uuidv7()),
+    /** The person playing; `null` for bots, which nobody can sign in as. */
+    userId: text().references(() => users.id, { onDelete: 'set null' }),
+    name: text().notNull(),
+    /** Elo rating, updated whenever a rated game ends. */
+    rating: integer().notNull().default(INITIAL_RATING),
+    ratedGames: integer().notNull().default(0),
+    createdAt: integer({ mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (t) => [
+    uniqueIndex(indexName('players_user_unique')).on(t.userId),
+    index(indexName('players_rating_idx')).on(t.rating),
+  ]
+);
+
+export const playersRelations = relations(players, ({ one, many }) => ({
+  user: one(users, { fields: [players.userId], references: [users.id] }),
+  seats: many(seats),
+}));
+
+export const insertPlayerSchema = createInsertSchema(players, {
+  name: (schema) => schema.trim().min(1).max(32),
+});
+export const selectPlayerSchema = createSelectSchema(players);
+
+export type Player = typeof players.$inferSelect;
+export type NewPlayer = typeof players.$inferInsert;
@@ -0,0 +1,87 @@
+import { relations, sql } from 'drizzle-orm';
+import { integer, text, uniqueIndex } from 'drizzle-orm/sqlite-core';
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
+import { v7 as uuidv7 } from 'uuid';
+import { z } from 'zod';
+
+import { actions } from '@/lib/db/schema/actions';
+import { players } from '@/lib/db/schema/players';
+import { seats } from '@/lib/db/schema/seats';
+import { gameSnapshots } from '@/lib/db/schema/snapshots';
+import { roomTimers } from '@/lib/db/schema/timers';
+import { createTable, indexName } from '@/lib/db/utils';
+import { BASE_RULES } from '@/lib/game/rules';
+import { allegianceModes, type VariantRules } from '@/lib/game/types';
+
+export const roomStatuses = ['waiting', 'playing', 'finished'] as const;
+
+export type RoomStatus = (typeof roomStatuses)[number];
+
+export const rooms = createTable(
+  'rooms',
+  {
+    id: text()
+      .primaryKey()
+      .$defaultFn(() => uuidv7()),
+    /** Short shareable join code. */
+    code: text().notNull(),
+    hostId: text()
+      .notNull()
+      .references(() => players.id),
+    status: text({ enum: roomStatuses }).notNull().default('waiting'),
+    maxPlayers: integer().notNull().default(6),
+    /** Seconds per turn; `null` disables the timer. */
+    turnSeconds: integer(),
+    /** Seconds to challenge, block or pick a card; `null` disables it. */
+    responseSeconds: integer(),
+    /** Short name of `rules` for listings, see `variantName`. */
+    variant: text().notNull().default('base'),
+    rules: text({ mode: 'json' })
+      .$type<VariantRules>()
+      .notNull()
+      .default(BASE_RULES),
+    /** Seat index whose turn it is while the game is running. */
+    turnPosition: integer(),
+    winnerId: text().references(() => players.id),
+    createdAt: integer({ mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`),
+    startedAt: integer({ mode: 'timestamp' }),
+    finishedAt: integer({ mode: 'timestamp' }),
+  },
+  (t) => [uniqueIndex(indexName('rooms_code_unique')).on(t.code)]
+);
+
+export const roomsRelations = relations(rooms, ({ one, many }) => ({
+  host: one(players, {
+    fields: [rooms.hostId],
+    references: [players.id],
+    relationName: 'host',
+  }),
+  winner: one(players, {
+    fields: [rooms.winnerId],
+    references: [players.id],
+    relationName: 'winner',
+  }),
+  seats: many(seats),
+  actions: many(actions),
+  snapshots: many(gameSnapshots),
+  timer: one(roomTimers),
+}));
+
+export const variantRulesSchema = z.object({
+  allegiance: z.enum(allegianceModes),
+  inquisitor: z.boolean(),
+});
+
+export const insertRoomSchema = createInsertSchema(rooms, {
+  code: (schema) => schema.regex(/^[A-Z0-9]{6}$/),
+  maxPlayers: (schema) => schema.int().min(2).max(6),
+  turnSeconds: (schema) => schema.int().min(10).max(600),
+  responseSeconds: (schema) => schema.int().min(5).max(120),
+  rules: variantRulesSchema,
+});
+export const selectRoomSchema = createSelectSchema(rooms);
+
+export type Room = typeof rooms.$inferSelect;
+export type NewRoom = typeof rooms.$inferInsert;
@@ -0,0 +1,61 @@
+import { relations, sql } from 'drizzle-orm';
+import { index, integer, text, uniqueIndex } from 'drizzle-orm/sqlite-core';
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
+import { v7 as uuidv7 } from 'uuid';
+
+import { players } from '@/lib/db/schema/players';
+import { rooms } from '@/lib/db/schema/rooms';
+import { createTable, indexName } from '@/lib/db/utils';
+import { strategyNames } from '@/lib/game/bots/strategy';
+
+/** A player's place at a room's table. */
+export const seats = createTable(
+  'seats',
+  {
+    id: text()
+      .primaryKey()
+      .$defaultFn(() => uuidv7()),
+    roomId: text()
+      .notNull()
+      .references(() => rooms.id, { onDelete: 'cascade' }),
+    playerId: text()
+      .notNull()
+      .references(() => players.id),
+    /** Turn order around the table, starting at 0. */
+    position: integer().notNull(),
+    ready: integer({ mode: 'boolean' }).notNull().default(false),
+    /** Strategy playing this seat; `null` for people. */
+    bot: text({ enum: strategyNames }),
+    /** Consecutive timed-out moves; reset whenever the player acts. */
+    timeouts: integer().notNull().default(0),
+    joinedAt: integer({ mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`),
+    eliminatedAt: integer({ mode: 'timestamp' }),
+    /** Whether the seat won, alone or with its team; `null` until it ends. */
+    won: integer({ mode: 'boolean' }),
+    /** Rating won or lost in this game; `null` until a rated game ends. */
+    ratingDelta: integer(),
+  },
+  (t) => [
+    uniqueIndex(indexName('seats_room_position_unique')).on(
+      t.roomId,
+      t.position
+    ),
+    uniqueIndex(indexName('seats_room_player_unique')).on(t.roomId, t.playerId),
+    index(indexName('seats_player_idx')).on(t.playerId),
+  ]
+);
+
+export const seatsRelations = relations(seats, ({ one }) => ({
+  room: one(rooms, { fields: [seats.roomId], references: [rooms.id] }),
+  player: one(players, { fields: [seats.playerId], references: [players.id] }),
+}));
+
+export const insertSeatSchema = createInsertSchema(seats, {
+  position: (schema) => schema.int().min(0).max(5),
+});
+export const selectSeatSchema = createSelectSchema(seats);
+
+export type Seat = typeof seats.$inferSelect;
+export type NewSeat = typeof seats.$inferInsert;
@@ -0,0 +1,47 @@
+import { relations, sql } from 'drizzle-orm';
+import { integer, text, uniqueIndex } from 'drizzle-orm/sqlite-core';
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
+import { v7 as uuidv7 } from 'uuid';
+
+import { rooms } from '@/lib/db/schema/rooms';
+import { createTable, indexName } from '@/lib/db/utils';
+import type { GameState } from '@/lib/game/types';
+
+/**
+ * Folded game state after the action at `sequence`, so rebuilding a game only
+ * replays the actions since the closest snapshot. Sequence 0 is the deal.
+ */
+export const gameSnapshots = createTable(
+  'game_snapshots',
+  {
+    id: text()
+      .primaryKey()
+      .$defaultFn(() => uuidv7()),
+    roomId: text()
+      .notNull()
+      .references(() => rooms.id, { onDelete: 'cascade' }),
+    sequence: integer().notNull(),
+    state: text({ mode: 'json' }).$type<GameState>().notNull(),
+    createdAt: integer({ mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (t) => [
+    uniqueIndex(indexName('game_snapshots_room_sequence_unique')).on(
+      t.roomId,
+      t.sequence
+    ),
+  ]
+);
+
+export const gameSnapshotsRelations = relations(gameSnapshots, ({ one }) => ({
+  room: one(rooms, { fields: [gameSnapshots.roomId], references: [rooms.id] }),
+}));
+
+export const insertGameSnapshotSchema = createInsertSchema(gameSnapshots, {
+  sequence: (schema) => schema.int().min(0),
+});
+export const selectGameSnapshotSchema = createSelectSchema(gameSnapshots);
+
+export type GameSnapshot = typeof gameSnapshots.$inferSelect;
+export type NewGameSnapshot = typeof gameSnapshots.$inferInsert;
@@ -0,0 +1,50 @@
+import { relations, sql } from 'drizzle-orm';
+import { index, integer, text } from 'drizzle-orm/sqlite-core';
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
+
+import { rooms } from '@/lib/db/schema/rooms';
+import { createTable, indexName } from '@/lib/db/utils';
+
+export const timerKinds = ['turn', 'response'] as const;
+
+export type TimerKind = (typeof timerKinds)[number];
+
+/**
+ * The running clock of a room, at most one per room. It belongs to the game
+ * state at `sequence`; a timer whose sequence is behind the game is stale.
+ * Besides the players' deadline it says when a bot is due to move.
+ */
+export const roomTimers = createTable(
+  'room_timers',
+  {
+    roomId: text()
+      .primaryKey()
+      .references(() => rooms.id, { onDelete: 'cascade' }),
+    sequence: integer().notNull(),
+    kind: text({ enum: timerKinds }).notNull(),
+    /** When the waiting players time out; `null` without a clock. */
+    deadline: integer({ mode: 'timestamp_ms' }),
+    /** When a bot the game waits on makes its move. */
+    botsAt: integer({ mode: 'timestamp_ms' }),
+    updatedAt: integer({ mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`)
+      .$onUpdate(() => new Date()),
+  },
+  (t) => [
+    index(indexName('room_timers_deadline_idx')).on(t.deadline),
+    index(indexName('room_timers_bots_at_idx')).on(t.botsAt),
+  ]
+);
+
+export const roomTimersRelations = relations(roomTimers, ({ one }) => ({
+  room: one(rooms, { fields: [roomTimers.roomId], references: [rooms.id] }),
+}));
+
+export const insertRoomTimerSchema = createInsertSchema(roomTimers, {
+  sequence: (schema) => schema.int().min(0),
+});
+export const selectRoomTimerSchema = createSelectSchema(roomTimers);
+
+export type RoomTimer = typeof roomTimers.$inferSelect;
+export type NewRoomTimer = typeof roomTimers.$inferInsert;
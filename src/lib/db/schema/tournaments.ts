@@ -0,0 +1,95 @@
+import { relations, sql } from 'drizzle-orm';
+import { index, integer, real, text } from 'drizzle-orm/sqlite-core';
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
+import { v7 as uuidv7 } from 'uuid';
+
+import { createTable, indexName } from '@/lib/db/utils';
+import { type StrategyName, strategyNames } from '@/lib/game/bots/strategy';
+
+/**
+ * A saved run of the bot tournament simulator. Runs with the same `settings`
+ * played the same line-up, so their results can be compared.
+ */
+export const tournamentRuns = createTable(
+  'tournament_runs',
+  {
+    id: text()
+      .primaryKey()
+      .$defaultFn(() => uuidv7()),
+    /** Line-up, seats and game count, e.g. `random,honest:4p:1000g`. */
+    settings: text().notNull(),
+    strategies: text({ mode: 'json' }).$type<StrategyName[]>().notNull(),
+    games: integer().notNull(),
+    players: integer().notNull(),
+    seed: integer().notNull(),
+    abandoned: integer().notNull().default(0),
+    averageTurns: real().notNull(),
+    durationMs: integer().notNull(),
+    createdAt: integer({ mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (t) => [
+    index(indexName('tournament_runs_settings_idx')).on(
+      t.settings,
+      t.createdAt
+    ),
+  ]
+);
+
+/** One strategy's totals in a tournament run. */
+export const tournamentResults = createTable(
+  'tournament_results',
+  {
+    id: text()
+      .primaryKey()
+      .$defaultFn(() => uuidv7()),
+    runId: text()
+      .notNull()
+      .references(() => tournamentRuns.id, { onDelete: 'cascade' }),
+    strategy: text({ enum: strategyNames }).notNull(),
+    seats: integer().notNull(),
+    wins: integer().notNull(),
+    winRate: real().notNull(),
+    intervalLow: real().notNull(),
+    intervalHigh: real().notNull(),
+    bluffs: integer().notNull(),
+    bluffsCaught: integer().notNull(),
+    challenges: integer().notNull(),
+    challengesWon: integer().notNull(),
+  },
+  (t) => [index(indexName('tournament_results_run_idx')).on(t.runId)]
+);
+
+export const tournamentRunsRelations = relations(
+  tournamentRuns,
+  ({ many }) => ({
+    results: many(tournamentResults),
+  })
+);
+
+export const tournamentResultsRelations = relations(
+  tournamentResults,
+  ({ one }) => ({
+    run: one(tournamentRuns, {
+      fields: [tournamentResults.runId],
+      references: [tournamentRuns.id],
+    }),
+  })
+);
+
+export const insertTournamentRunSchema = createInsertSchema(tournamentRuns, {
+  games: (schema) => schema.int().min(1),
+  players: (schema) => schema.int().min(2),
+});
+export const selectTournamentRunSchema = createSelectSchema(tournamentRuns);
+
+export const insertTournamentResultSchema =
+  createInsertSchema(tournamentResults);
+export const selectTournamentResultSchema =
+  createSelectSchema(tournamentResults);
+
+export type TournamentRun = typeof tournamentRuns.$inferSelect;
+export type NewTournamentRun = typeof tournamentRuns.$inferInsert;
+export type TournamentResult = typeof tournamentResults.$inferSelect;
+export type NewTournamentResult = typeof tournamentResults.$inferInsert;
@@ -0,0 +1,85 @@
+import { relations, sql } from 'drizzle-orm';
+import { index, integer, text, uniqueIndex } from 'drizzle-orm/sqlite-core';
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
+import { v7 as uuidv7 } from 'uuid';
+import { z } from 'zod';
+
+import { players } from '@/lib/db/schema/players';
+import { createTable, indexName } from '@/lib/db/utils';
+
+/**
+ * Someone using the app. Guests have neither a username nor a password; they
+ * only exist for as long as their session cookie does. Signing up turns the
+ * guest into an account without changing the id.
+ */
+export const users = createTable(
+  'users',
+  {
+    id: text()
+      .primaryKey()
+      .$defaultFn(() => uuidv7()),
+    /** Lowercase; `null` for guests. */
+    username: text(),
+    /** `scrypt$<salt>$<hash>`, see `hashPassword`. */
+    passwordHash: text(),
+    createdAt: integer({ mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (t) => [uniqueIndex(indexName('users_username_unique')).on(t.username)]
+);
+
+/** A signed-in browser. The cookie carries the id, signed with AUTH_SECRET. */
+export const sessions = createTable(
+  'sessions',
+  {
+    id: text()
+      .primaryKey()
+      .$defaultFn(() => uuidv7()),
+    userId: text()
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    expiresAt: integer({ mode: 'timestamp' }).notNull(),
+    createdAt: integer({ mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (t) => [
+    index(indexName('sessions_user_idx')).on(t.userId),
+    index(indexName('sessions_expires_at_idx')).on(t.expiresAt),
+  ]
+);
+
+export const usersRelations = relations(users, ({ one, many }) => ({
+  player: one(players),
+  sessions: many(sessions),
+}));
+
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, { fields: [sessions.userId], references: [users.id] }),
+}));
+
+export const usernameSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(3, 'Usernames need at least 3 characters')
+  .max(24, 'Usernames are at most 24 characters')
+  .regex(
+    /^[a-z0-9_-]+$/,
+    'Usernames use letters, digits, dashes and underscores'
+  );
+
+export const insertUserSchema = createInsertSchema(users, {
+  // Guests have no username
+  username: usernameSchema.nullish(),
+});
+export const selectUserSchema = createSelectSchema(users);
+
+export const insertSessionSchema = createInsertSchema(sessions);
+export const selectSessionSchema = createSelectSchema(sessions);
+
+export type User = typeof users.$inferSelect;
+export type NewUser = typeof users.$inferInsert;
+export type Session = typeof sessions.$inferSelect;
+export type NewSession = typeof sessions.$inferInsert;
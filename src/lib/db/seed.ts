@@ -0,0 +1,91 @@
+import type { db } from '@/lib/db/client';
+import {
+  assassinationSeeder,
+  challengeSeeder,
+  finishedGamesSeeder,
+  gamesInProgressSeeder,
+  lobbiesSeeder,
+  playersSeeder,
+  seededIds,
+} from '@/lib/db/fixtures';
+import { createRandom } from '@/lib/game/bots/strategy';
+import { seedFrom } from '@/lib/game/rng';
+
+export type SeedTransaction = Parameters<
+  Parameters<typeof db.transaction>[0]
+>[0];
+
+export interface SeedContext {
+  tx: SeedTransaction;
+  /** Seeded from `--seed` and the seeder's name. */
+  random: () => number;
+  /** uuid v7 drawn from `random`, so re-runs produce the same ids. */
+  id: () => string;
+}
+
+export interface Seeder {
+  name: string;
+  /**
+   * Inserts the seed rows and returns how many were written. Rows that are
+   * already there must be skipped, so seeding twice changes nothing.
+   */
+  run: (context: SeedContext) => Promise<number>;
+}
+
+export interface Scenario {
+  description: string;
+  seeders: Seeder[];
+}
+
+/** Seed used when `--seed` is not given, so plain runs are reproducible. */
+export const DEFAULT_SEED = 1;
+
+export const DEFAULT_SCENARIO = 'default';
+
+/**
+ * Named data sets for `bun run db seed --scenario=<name>`. Every scenario
+ * starts with the shared roster of players, and its seeders run in order
+ * inside a single transaction.
+ */
+export const scenarios: Record<string, Scenario> = {
+  [DEFAULT_SCENARIO]: {
+    description: 'Rooms in every state, from open lobbies to finished games',
+    seeders: [
+      playersSeeder,
+      lobbiesSeeder,
+      gamesInProgressSeeder,
+      assassinationSeeder,
+      challengeSeeder,
+      finishedGamesSeeder,
+    ],
+  },
+  lobby: {
+    description: 'Open rooms waiting for players, bots and a start',
+    seeders: [playersSeeder, lobbiesSeeder],
+  },
+  'mid-game-assassination': {
+    description: 'A game waiting on responses to an assassination',
+    seeders: [playersSeeder, assassinationSeeder],
+  },
+  'mid-challenge': {
+    description: 'A game waiting on a challenged player to prove a claim',
+    seeders: [playersSeeder, challengeSeeder],
+  },
+  'finished-games': {
+    description: 'Finished games with ratings, for profiles and leaderboards',
+    seeders: [playersSeeder, finishedGamesSeeder],
+  },
+};
+
+/**
+ * Each seeder draws from its own stream, so adding or removing a seeder does
+ * not change what the others write.
+ */
+export function seedContext(
+  tx: SeedTransaction,
+  seed: number,
+  seeder: Seeder
+): SeedContext {
+  const random = createRandom(seedFrom(`${seed}:${seeder.name}`));
+  return { tx, random, id: seededIds(random) };
+}
@@ -0,0 +1,118 @@
+import { afterAll, beforeAll, mock } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+
+import { type Client, createClient } from '@libsql/client';
+import { migrate } from 'drizzle-orm/libsql/migrator';
+
+import * as configured from '@/lib/db/client';
+import { createDatabase, type Database } from '@/lib/db/client';
+import { MIGRATIONS_TABLE } from '@/lib/db/utils';
+
+/**
+ * Throwaway databases for `bun test`. A test file that calls
+ * `setupTestDatabase()` gets a database of its own with every migration
+ * applied, and `@/lib/db/client` is swapped for it while the file runs, so the
+ * lobby, server actions and the game log all write there.
+ *
+ * The configured client is still created when `@/lib/db/client` is first
+ * imported, but under `bun test` it is always an empty in-memory database
+ * (see `@/lib/db/profiles`), whatever DATABASE_URL says.
+ */
+
+export type TestDatabaseMode = 'file' | 'memory';
+
+export interface TestDatabase {
+  url: string;
+  client: Client;
+  db: Database;
+  /** Closes the client and deletes the database. */
+  close: () => Promise<void>;
+}
+
+/** Same folder as `MIGRATIONS_FOLDER` in cli/migrate.ts. */
+const MIGRATIONS_FOLDER = resolve(import.meta.dir, 'migrations');
+
+/**
+ * Plain `:memory:` does not survive a transaction: libsql hands the
+ * connection to the transaction and opens a new, empty database for the next
+ * query. A shared-cache memory database does, but every connection in the
+ * process sees the same one.
+ */
+const SHARED_MEMORY_URL = 'file::memory:?cache=shared';
+
+let memoryInUse = false;
+
+/**
+ * Creates a migrated database. `file` (the default) uses a temp file and can
+ * be opened any number of times; `memory` is faster, but only one can be
+ * open at a time.
+ */
+export async function createTestDatabase(
+  mode: TestDatabaseMode = 'file'
+): Promise<TestDatabase> {
+  if (mode === 'memory') {
+    if (memoryInUse) {
+      throw new Error('Another in-memory test database is still open');
+    }
+    memoryInUse = true;
+  }
+
+  const dir =
+    mode === 'file' ? await mkdtemp(join(tmpdir(), 'coop-test-')) : null;
+  const url = dir ? `file:${join(dir, 'test.db')}` : SHARED_MEMORY_URL;
+  const client = createClient({ url });
+
+  const close = async () => {
+    client.close();
+    if (dir) {
+      await rm(dir, { recursive: true, force: true });
+    } else {
+      memoryInUse = false;
+    }
+  };
+
+  const db = createDatabase(client);
+  try {
+    await migrate(db, {
+      migrationsFolder: MIGRATIONS_FOLDER,
+      migrationsTable: MIGRATIONS_TABLE,
+    });
+  } catch (error) {
+    await close();
+    throw error;
+  }
+
+  return { url, client, db, close };
+}
+
+/**
+ * Gives the calling test file its own database: created before its first
+ * test, used by everything importing `@/lib/db/client`, and removed after its
+ * last. Call at the top level of the file; the returned function gets the
+ * database inside tests.
+ */
+export function setupTestDatabase(mode?: TestDatabaseMode): () => TestDatabase {
+  const original = { ...configured };
+  let current: TestDatabase | null = null;
+
+  beforeAll(async () => {
+    current = await createTestDatabase(mode);
+    const { client, db } = current;
+    await mock.module('@/lib/db/client', () => ({ ...original, client, db }));
+  });
+
+  afterAll(async () => {
+    await mock.module('@/lib/db/client', () => original);
+    await current?.close();
+    current = null;
+  });
+
+  return () => {
+    if (!current) {
+      throw new Error('The test database only exists while the tests run');
+    }
+    return current;
+  };
+}
@@ -0,0 +1,74 @@
+import { and, desc, eq, ne } from 'drizzle-orm';
+
+import { db } from '@/lib/db/client';
+import { tournamentResults, tournamentRuns } from '@/lib/db/schema/tournaments';
+import type {
+  TournamentOptions,
+  TournamentResult,
+} from '@/lib/game/bots/tournament';
+
+/**
+ * Saved tournament runs. Runs are compared with the latest earlier run of the
+ * same line-up, whatever its seed, so a change to a strategy shows up as a
+ * shift in its win rate.
+ */
+
+/** Key shared by runs that played the same line-up, seats and game count. */
+export function tournamentSettings({
+  strategies,
+  players,
+  games,
+}: TournamentOptions): string {
+  return `${strategies.join(',')}:${players}p:${games}g`;
+}
+
+/** Stores a finished tournament with one result row per strategy. */
+export async function saveTournament(
+  tournament: TournamentResult,
+  durationMs: number
+): Promise<string> {
+  const { options } = tournament;
+
+  return db.transaction(async (tx) => {
+    const [run] = await tx
+      .insert(tournamentRuns)
+      .values({
+        settings: tournamentSettings(options),
+        strategies: options.strategies,
+        games: options.games,
+        players: options.players,
+        seed: options.seed,
+        abandoned: tournament.abandoned,
+        averageTurns: tournament.averageTurns,
+        durationMs,
+      })
+      .returning({ id: tournamentRuns.id });
+
+    await tx.insert(tournamentResults).values(
+      tournament.results.map(({ interval, ...stats }) => ({
+        ...stats,
+        runId: run.id,
+        intervalLow: interval[0],
+        intervalHigh: interval[1],
+      }))
+    );
+
+    return run.id;
+  });
+}
+
+/** The latest saved run with the same settings, other than `excludeId`. */
+export function findPreviousTournament(
+  options: TournamentOptions,
+  excludeId?: string
+) {
+  const settings = eq(tournamentRuns.settings, tournamentSettings(options));
+
+  return db.query.tournamentRuns.findFirst({
+    where: excludeId
+      ? and(settings, ne(tournamentRuns.id, excludeId))
+      : settings,
+    orderBy: [desc(tournamentRuns.createdAt), desc(tournamentRuns.id)],
+    with: { results: true },
+  });
+}
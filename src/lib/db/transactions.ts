@@ -0,0 +1,29 @@
+import { db } from '@/lib/db/client';
+
+/**
+ * Write transactions of this process, one at a time. libsql gives every
+ * transaction a connection of its own, and on a local file a connection does
+ * not wait for a lock another one holds: two transactions of the same process
+ * would fail each other with SQLITE_BUSY. `writeTransaction` queues them
+ * instead; the write lock still guards against other processes.
+ */
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/** The shared `db`, or the transaction a helper should join. */
+export type Executor = typeof db | Transaction;
+
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs `work` in an immediate transaction once this process's earlier ones
+ * have finished. Never call it from inside `work`: the inner one would wait
+ * for the outer one forever.
+ */
+export function writeTransaction<T>(
+  work: (tx: Transaction) => Promise<T>
+): Promise<T> {
+  const run = queue.then(() => db.transaction(work, { behavior: 'immediate' }));
+  queue = run.catch(() => undefined);
+  return run;
+}
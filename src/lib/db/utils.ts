@@ -11,3 +11,40 @@ import { env } from '@/lib/env';
 export const createTable = sqliteTableCreator(
   (name) => `${env.DATABASE_PREFIX}.${name}`
 );
+
+/**
+ * Index names share a single namespace per SQLite database, so they carry the project prefix
+ * just like table names do.
+ */
+export const indexName = (name: string) => `${env.DATABASE_PREFIX}.${name}`;
+
+/**
+ * Drizzle's migration history, one table per prefix: projects sharing the
+ * database each apply and roll back their own migrations.
+ */
+export const MIGRATIONS_TABLE = `${env.DATABASE_PREFIX}.__drizzle_migrations`;
+
+/**
+ * The libsql error code behind `error`. Drizzle wraps driver errors, so it may
+ * sit further down the `cause` chain.
+ */
+function sqliteCode(error: unknown): string | undefined {
+  for (let e = error; e instanceof Error; e = e.cause) {
+    const { code } = e as { code?: unknown };
+    if (typeof code === 'string' && code.startsWith('SQLITE_')) return code;
+  }
+  return undefined;
+}
+
+/** Whether `error` broke a unique index. */
+export function isUniqueViolation(error: unknown): boolean {
+  return sqliteCode(error) === 'SQLITE_CONSTRAINT_UNIQUE';
+}
+
+/**
+ * Whether another connection held the write lock. Local files give up at
+ * once rather than wait, as the holder may be in this very process.
+ */
+export function isBusy(error: unknown): boolean {
+  return sqliteCode(error) === 'SQLITE_BUSY';
+}
@@ -2,6 +2,9 @@ import { vercel } from '@t3-oss/env-core/presets-zod';
 import { createEnv } from '@t3-oss/env-nextjs';
 import { z } from 'zod';
 
+/** Never secret: it is in the source. Production must set its own. */
+const DEV_AUTH_SECRET = 'development-only-auth-secret-do-not-deploy';
+
 export const env = createEnv({
   extends: [vercel()],
   client: {
@@ -13,17 +16,42 @@ export const env = createEnv({
       .default('development'),
     PORT: z.coerce.number().default(3000),
 
-    DATABASE_URL: z.string(),
+    /** local, sqld or remote (see db/profiles.ts); follows DATABASE_URL. */
+    DATABASE_PROFILE: z.enum(['local', 'sqld', 'remote']).optional(),
+    /** Optional outside production, where it falls back to a local file. */
+    DATABASE_URL: z.string().optional(),
     DATABASE_PREFIX: z.string().default('coop'),
     DATABASE_AUTH_TOKEN: z.string().optional(),
+    /** Local file kept in sync with a remote DATABASE_URL. */
+    DATABASE_REPLICA: z.string().optional(),
+    DATABASE_SYNC_INTERVAL: z.coerce.number().int().positive().optional(),
+    /** Query log: every query, slow ones only, or JSON lines (db/logging.ts). */
+    DATABASE_LOG: z.enum(['off', 'pretty', 'slow', 'json']).default('off'),
+    DATABASE_SLOW_QUERY_MS: z.coerce.number().int().positive().default(100),
+
+    /**
+     * Signs session cookies; rotating it signs everyone out. Only production
+     * has to set it; everywhere else falls back to a fixed, public secret.
+     */
+    AUTH_SECRET:
+      process.env.NODE_ENV === 'production'
+        ? z.string().min(32)
+        : z.string().min(32).default(DEV_AUTH_SECRET),
   },
   runtimeEnv: {
     PORT: process.env.PORT,
     NODE_ENV: process.env.NODE_ENV,
 
+    DATABASE_PROFILE: process.env.DATABASE_PROFILE,
     DATABASE_URL: process.env.DATABASE_URL,
     DATABASE_PREFIX: process.env.DATABASE_PREFIX,
     DATABASE_AUTH_TOKEN: process.env.DATABASE_AUTH_TOKEN,
+    DATABASE_REPLICA: process.env.DATABASE_REPLICA,
+    DATABASE_SYNC_INTERVAL: process.env.DATABASE_SYNC_INTERVAL,
+    DATABASE_LOG: process.env.DATABASE_LOG,
+    DATABASE_SLOW_QUERY_MS: process.env.DATABASE_SLOW_QUERY_MS,
+
+    AUTH_SECRET: process.env.AUTH_SECRET,
 
     NEXT_PUBLIC_BASE_URL:
       process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000',
@@ -0,0 +1,166 @@
+import { honestStrategy } from '@/lib/game/bots/honest';
+import {
+  type BotContext,
+  claimedRoles,
+  dukeClaimed,
+  handOf,
+  impossibleClaim,
+  pick,
+  richTreasury,
+  type Strategy,
+  seenCopies,
+  self,
+  strongestOpponent,
+  targetFor,
+} from '@/lib/game/bots/strategy';
+import { influenceCount } from '@/lib/game/engine';
+import { ACTION_COSTS, actionClaim, fifthRole } from '@/lib/game/rules';
+import type { GameAction, PlayerId, Role } from '@/lib/game/types';
+
+/** Chance to claim a role the bot does not hold. */
+const BLUFF_RATE = 0.35;
+/** Chance to challenge a claim nothing speaks against. */
+const BASE_CHALLENGE_RATE = 0.02;
+/** Added for every copy of the claimed role the bot can account for. */
+const CHALLENGE_PER_COPY = 0.15;
+/** Added for every other role the claimant has claimed before. */
+const CHALLENGE_PER_OTHER_CLAIM = 0.1;
+/** Added when the claim costs the bot influence or coins. */
+const CHALLENGE_AT_STAKE = 0.1;
+
+function challengeOdds(
+  { view, history }: BotContext,
+  claimant: PlayerId,
+  role: Role,
+  atStake: boolean
+): number {
+  if (impossibleClaim(view, role)) return 1;
+
+  const claimed = claimedRoles(history, view.rules).get(claimant);
+  const others = [...(claimed ?? [])].filter((claimed) => claimed !== role);
+  let odds =
+    BASE_CHALLENGE_RATE +
+    CHALLENGE_PER_COPY * seenCopies(view, role) +
+    CHALLENGE_PER_OTHER_CLAIM * others.length +
+    (atStake ? CHALLENGE_AT_STAKE : 0);
+
+  // A lost challenge on the last card ends the game for the bot
+  if (influenceCount(self(view)) === 1 && !atStake) odds /= 2;
+  return Math.min(1, odds);
+}
+
+/** Whether a bluffed claim of `role` is worth the risk right now. */
+function bluffs({ view, random }: BotContext, role: Role): boolean {
+  return !impossibleClaim(view, role) && random() < BLUFF_RATE;
+}
+
+function takeTurn(context: BotContext, player: PlayerId): GameAction {
+  const { view, history } = context;
+  const me = self(view);
+  const hand = handOf(me);
+  const can = (type: GameAction['type']) => view.legal.includes(type);
+  const target = strongestOpponent(view);
+
+  if (can('coup') && target && me.coins >= (ACTION_COSTS.coup ?? 0)) {
+    return { type: 'coup', player, target: target.id };
+  }
+
+  const mark = targetFor(view, history, 'assassinate');
+  if (
+    can('assassinate') &&
+    mark &&
+    (hand.includes('assassin') || bluffs(context, 'assassin'))
+  ) {
+    return { type: 'assassinate', player, target: mark.id };
+  }
+  if (hand.includes('duke') || bluffs(context, 'duke')) {
+    return { type: 'tax', player };
+  }
+  if (richTreasury(view)) return { type: 'embezzle', player };
+
+  const victim = targetFor(view, history, 'steal');
+  if (victim && (hand.includes('captain') || bluffs(context, 'captain'))) {
+    return { type: 'steal', player, target: victim.id };
+  }
+
+  if (hand.includes(fifthRole(view.rules))) {
+    return { type: 'exchange', player };
+  }
+
+  return dukeClaimed(view, history)
+    ? { type: 'income', player }
+    : { type: 'foreign_aid', player };
+}
+
+function respond(context: BotContext, player: PlayerId): GameAction {
+  const { view, random } = context;
+  const { phase } = view;
+  if (phase.kind !== 'respond') throw new Error('Not a response window');
+
+  const me = self(view);
+  const { action } = phase;
+  const targeted = action.target === player;
+
+  const honestBlock = view.blockingRoles.find((role) =>
+    handOf(me).includes(role)
+  );
+  if (honestBlock) return { type: 'block', player, role: honestBlock };
+
+  const claim = actionClaim(action.type, view.rules);
+  if (
+    claim &&
+    view.legal.includes('challenge') &&
+    random() < challengeOdds(context, action.actor, claim, targeted)
+  ) {
+    return { type: 'challenge', player };
+  }
+
+  const bluffRoles = view.blockingRoles.filter(
+    (role) => !impossibleClaim(view, role)
+  );
+  // An Assassin on the last card is fatal unless a Contessa turns up
+  const desperate =
+    action.type === 'assassinate' && targeted && influenceCount(me) === 1;
+  if (
+    bluffRoles.length > 0 &&
+    (desperate || (targeted && bluffs(context, bluffRoles[0])))
+  ) {
+    return { type: 'block', player, role: pick(bluffRoles, random) };
+  }
+
+  return { type: 'allow', player };
+}
+
+/**
+ * Keeps track of who claimed what. It bluffs now and then, blocks truthfully
+ * when it can, and challenges more often the more copies of a claimed role it
+ * has seen or the more roles the claimant has laid claim to.
+ */
+export const heuristicStrategy: Strategy = {
+  name: 'heuristic',
+  choose(context) {
+    const { view, random } = context;
+    const player = self(view).id;
+    const { phase } = view;
+
+    switch (phase.kind) {
+      case 'turn':
+        return takeTurn(context, player);
+      case 'respond':
+        return respond(context, player);
+      case 'respond-block':
+        return random() <
+          challengeOdds(
+            context,
+            phase.blocker,
+            phase.role,
+            phase.action.actor === player
+          )
+          ? { type: 'challenge', player }
+          : { type: 'allow', player };
+      default:
+        // Card choices have no bluffing involved
+        return honestStrategy.choose(context);
+    }
+  },
+};
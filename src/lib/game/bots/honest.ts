@@ -0,0 +1,108 @@
+import {
+  type BotContext,
+  bestKeep,
+  cardOf,
+  dukeClaimed,
+  handOf,
+  impossibleClaim,
+  richTreasury,
+  type Strategy,
+  self,
+  strongestOpponent,
+  strongRole,
+  targetFor,
+  weakestCard,
+} from '@/lib/game/bots/strategy';
+import { ACTION_COSTS, actionClaim, fifthRole } from '@/lib/game/rules';
+import type { GameAction, PlayerId } from '@/lib/game/types';
+
+function honestTurn(
+  { view, history }: BotContext,
+  player: PlayerId
+): GameAction {
+  const me = self(view);
+  const hand = handOf(me);
+  const can = (type: GameAction['type']) => view.legal.includes(type);
+  const target = strongestOpponent(view);
+
+  if (can('coup') && target && me.coins >= (ACTION_COSTS.coup ?? 0)) {
+    return { type: 'coup', player, target: target.id };
+  }
+
+  const mark = targetFor(view, history, 'assassinate');
+  if (hand.includes('assassin') && can('assassinate') && mark) {
+    return { type: 'assassinate', player, target: mark.id };
+  }
+  if (hand.includes('duke')) return { type: 'tax', player };
+  if (richTreasury(view)) return { type: 'embezzle', player };
+
+  const victim = targetFor(view, history, 'steal');
+  if (hand.includes('captain') && victim) {
+    return { type: 'steal', player, target: victim.id };
+  }
+  if (hand.includes(fifthRole(view.rules))) {
+    return { type: 'exchange', player };
+  }
+
+  return dukeClaimed(view, history)
+    ? { type: 'income', player }
+    : { type: 'foreign_aid', player };
+}
+
+/**
+ * Never claims a role it does not hold. It blocks whenever it truthfully can
+ * and only challenges claims that cannot be true.
+ */
+export const honestStrategy: Strategy = {
+  name: 'honest',
+  choose(context) {
+    const { view } = context;
+    const me = self(view);
+    const player = me.id;
+    const { phase } = view;
+
+    switch (phase.kind) {
+      case 'turn':
+        return honestTurn(context, player);
+      case 'respond': {
+        const block = view.blockingRoles.find((role) =>
+          handOf(me).includes(role)
+        );
+        if (block) return { type: 'block', player, role: block };
+
+        const claim = actionClaim(phase.action.type, view.rules);
+        if (
+          claim &&
+          view.legal.includes('challenge') &&
+          impossibleClaim(view, claim)
+        ) {
+          return { type: 'challenge', player };
+        }
+        return { type: 'allow', player };
+      }
+      case 'respond-block':
+        return impossibleClaim(view, phase.role)
+          ? { type: 'challenge', player }
+          : { type: 'allow', player };
+      case 'prove': {
+        const card = cardOf(me, phase.role);
+        return card === -1
+          ? { type: 'lose_influence', player, card: weakestCard(me) }
+          : { type: 'reveal', player, card };
+      }
+      case 'lose-influence':
+        return { type: 'lose_influence', player, card: weakestCard(me) };
+      case 'exchange':
+        return { type: 'keep', player, cards: bestKeep(view) };
+      case 'show':
+        return { type: 'show', player, card: weakestCard(me) };
+      case 'examine':
+        // Strong cards are better off back in the court
+        return phase.role && strongRole(phase.role)
+          ? { type: 'force_exchange', player }
+          : { type: 'allow', player };
+      case 'game-over':
+        throw new Error('The game is over');
+    }
+  },
+};
@@ -0,0 +1,10 @@
+import { heuristicStrategy } from '@/lib/game/bots/heuristic';
+import { honestStrategy } from '@/lib/game/bots/honest';
+import { randomStrategy } from '@/lib/game/bots/random';
+import type { Strategy, StrategyName } from '@/lib/game/bots/strategy';
+
+export const strategies: Record<StrategyName, Strategy> = {
+  random: randomStrategy,
+  honest: honestStrategy,
+  heuristic: heuristicStrategy,
+};
@@ -0,0 +1,9 @@
+import { legalMoves, pick, type Strategy } from '@/lib/game/bots/strategy';
+
+/** Plays any legal move with equal odds; a baseline for the others. */
+export const randomStrategy: Strategy = {
+  name: 'random',
+  choose({ view, random }) {
+    return pick(legalMoves(view), random);
+  },
+};
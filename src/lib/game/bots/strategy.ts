@@ -0,0 +1,336 @@
+import { influenceCount, isAlive } from '@/lib/game/engine';
+import { nextRandom } from '@/lib/game/rng';
+import {
+  ACTION_GAINS,
+  actionBlockers,
+  actionClaim,
+  CARDS_PER_ROLE,
+  CONVERT_OTHER_COST,
+  STEAL_AMOUNT,
+} from '@/lib/game/rules';
+import type {
+  ActionType,
+  GameAction,
+  PlayerId,
+  Role,
+  TurnActionType,
+  VariantRules,
+} from '@/lib/game/types';
+import type { GameView, PlayerView } from '@/lib/game/view';
+
+/**
+ * Bots only ever see what their seat would see: their own `GameView` and the
+ * public history of the game. Strategies are pure apart from the seeded
+ * `random`, so a bot game replays exactly from its seeds.
+ */
+
+export const strategyNames = ['random', 'honest', 'heuristic'] as const;
+
+export type StrategyName = (typeof strategyNames)[number];
+
+/** An action as everyone at the table saw it, without private card choices. */
+export interface PublicAction {
+  type: ActionType;
+  player: PlayerId;
+  target?: PlayerId;
+  /** Role claimed by a block. */
+  role?: Role;
+}
+
+export interface BotContext {
+  /** The bot's own view; `view.viewer` is the bot's seat. */
+  view: GameView;
+  /** Every action so far, oldest first. */
+  history: readonly PublicAction[];
+  /** Uniform in [0, 1). */
+  random: () => number;
+}
+
+/** Picks moves for a bot seat. */
+export interface Strategy {
+  readonly name: StrategyName;
+  /**
+   * Called only while the game is waiting on the bot. The move must be one
+   * of `legalMoves(context.view)`.
+   */
+  choose(context: BotContext): GameAction;
+}
+
+/** Roles from most to least useful to hold on to. */
+export const ROLE_PREFERENCE: Role[] = [
+  'duke',
+  'captain',
+  'assassin',
+  'contessa',
+  'inquisitor',
+  'ambassador',
+];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function toPublicAction(action: GameAction): PublicAction {
+  return {
+    type: action.type,
+    player: action.player,
+    ...('target' in action && { target: action.target }),
+    ...('role' in action && { role: action.role }),
+  };
+}
+
+export function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    const [value, next] = nextRandom(state);
+    state = next;
+    return value;
+  };
+}
+
+export function pick<T>(items: readonly T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+/** The bot's own seat. */
+export function self(view: GameView): PlayerView {
+  const player = view.players.find((p) => p.id === view.viewer);
+  if (!player) throw new Error('Bots need a seated view');
+  return player;
+}
+
+/** Players the bot may target; allies are spared while sides still matter. */
+export function opponents(view: GameView): PlayerView[] {
+  return view.players.filter((p) => view.targets.includes(p.id));
+}
+
+/** Roles still hidden in the bot's hand; the viewer always sees its own. */
+export function handOf(player: PlayerView): Role[] {
+  return player.influences
+    .filter((influence) => !influence.revealed)
+    .flatMap((influence) => (influence.role ? [influence.role] : []));
+}
+
+/** Copies of `role` the bot can account for: its hand and revealed cards. */
+export function seenCopies(view: GameView, role: Role): number {
+  const revealed = view.players
+    .flatMap((player) => player.influences)
+    .filter((influence) => influence.revealed && influence.role === role);
+  const held = handOf(self(view)).filter((card) => card === role);
+  return revealed.length + held.length;
+}
+
+/** Whether every copy of `role` is accounted for, so a claim must be a lie. */
+export function impossibleClaim(view: GameView, role: Role): boolean {
+  return seenCopies(view, role) >= CARDS_PER_ROLE;
+}
+
+/** Roles each player has claimed through actions and blocks so far. */
+export function claimedRoles(
+  history: readonly PublicAction[],
+  rules: VariantRules
+): Map<PlayerId, Set<Role>> {
+  const claims = new Map<PlayerId, Set<Role>>();
+
+  for (const action of history) {
+    const role =
+      action.type === 'block'
+        ? action.role
+        : actionClaim(action.type as TurnActionType, rules);
+    if (!role) continue;
+
+    const roles = claims.get(action.player) ?? new Set<Role>();
+    roles.add(role);
+    claims.set(action.player, roles);
+  }
+
+  return claims;
+}
+
+/** Whether `player` has claimed a role that blocks `type`. */
+export function claimsBlock(
+  history: readonly PublicAction[],
+  rules: VariantRules,
+  player: PlayerId,
+  type: TurnActionType
+): boolean {
+  const claimed = claimedRoles(history, rules).get(player);
+  return (actionBlockers(type, rules) ?? []).some((role) => claimed?.has(role));
+}
+
+/** The opponent most likely to win: most influence, then most coins. */
+export function strongestOpponent(
+  view: GameView,
+  candidates = opponents(view)
+): PlayerView | undefined {
+  return candidates.reduce<PlayerView | undefined>((best, player) => {
+    if (!best) return player;
+    const lead = influenceCount(player) - influenceCount(best);
+    return lead > 0 || (lead === 0 && player.coins > best.coins)
+      ? player
+      : best;
+  }, undefined);
+}
+
+/**
+ * Who to Assassinate or Steal from, passing over anyone who claimed a role
+ * that blocks it; repeating a blocked action gets nowhere.
+ */
+export function targetFor(
+  view: GameView,
+  history: readonly PublicAction[],
+  type: 'assassinate' | 'steal'
+): PlayerView | undefined {
+  const open = opponents(view).filter(
+    (p) => !claimsBlock(history, view.rules, p.id, type)
+  );
+  if (type === 'assassinate') return strongestOpponent(view, open);
+
+  return open
+    .filter((p) => p.coins >= STEAL_AMOUNT)
+    .sort((a, b) => b.coins - a.coins)[0];
+}
+
+/** Whether an opponent has claimed the Duke, who blocks Foreign Aid. */
+export function dukeClaimed(
+  view: GameView,
+  history: readonly PublicAction[]
+): boolean {
+  return opponents(view).some((p) =>
+    claimsBlock(history, view.rules, p.id, 'foreign_aid')
+  );
+}
+
+/** Whether the treasury reserve is worth Embezzling: at least a Tax. */
+export function richTreasury(view: GameView): boolean {
+  return (
+    view.legal.includes('embezzle') && view.treasury >= (ACTION_GAINS.tax ?? 0)
+  );
+}
+
+/** Roles in the better half of `ROLE_PREFERENCE`. */
+export function strongRole(role: Role): boolean {
+  return ROLE_PREFERENCE.indexOf(role) < ROLE_PREFERENCE.length / 2;
+}
+
+/** Index of the hidden card the bot minds losing least. */
+export function weakestCard(player: PlayerView): number {
+  let weakest = -1;
+  player.influences.forEach((influence, index) => {
+    if (influence.revealed || !influence.role) return;
+    if (
+      weakest === -1 ||
+      ROLE_PREFERENCE.indexOf(influence.role) >
+        ROLE_PREFERENCE.indexOf(player.influences[weakest].role as Role)
+    ) {
+      weakest = index;
+    }
+  });
+  return weakest;
+}
+
+/** Index of a hidden card showing `role`, or -1. */
+export function cardOf(player: PlayerView, role: Role): number {
+  return player.influences.findIndex(
+    (influence) => !influence.revealed && influence.role === role
+  );
+}
+
+/**
+ * Options for an exchange in the engine's `keep` order (hidden hand, then
+ * drawn cards), or `null` when the bot is not exchanging.
+ */
+export function exchangeOptions(view: GameView): Role[] | null {
+  const { phase } = view;
+  if (phase.kind !== 'exchange' || phase.player !== view.viewer) return null;
+  return [
+    ...handOf(self(view)),
+    ...phase.drawn.flatMap((role) => (role ? [role] : [])),
+  ];
+}
+
+/** Keeps the most useful distinct roles first, then the best duplicates. */
+export function bestKeep(view: GameView): number[] {
+  const options = exchangeOptions(view) ?? [];
+  const count = handOf(self(view)).length;
+  const ranked = options
+    .map((role, index) => ({ role, index }))
+    .sort(
+      (a, b) =>
+        ROLE_PREFERENCE.indexOf(a.role) - ROLE_PREFERENCE.indexOf(b.role)
+    );
+
+  const kept: number[] = [];
+  const roles = new Set<Role>();
+  for (const { role, index } of ranked) {
+    if (kept.length < count && !roles.has(role)) {
+      kept.push(index);
+      roles.add(role);
+    }
+  }
+  for (const { index } of ranked) {
+    if (kept.length < count && !kept.includes(index)) kept.push(index);
+  }
+  return kept.sort((a, b) => a - b);
+}
+
+function combinations(size: number, count: number): number[][] {
+  if (count === 0) return [[]];
+  const result: number[][] = [];
+  for (let first = 0; first <= size - count; first++) {
+    for (const rest of combinations(size - first - 1, count - 1)) {
+      result.push([first, ...rest.map((i) => i + first + 1)]);
+    }
+  }
+  return result;
+}
+
+/** Every move the bot could submit right now. */
+export function legalMoves(view: GameView): GameAction[] {
+  const player = view.viewer;
+  if (!player) return [];
+
+  const me = self(view);
+  const hidden = me.influences.flatMap((influence, index) =>
+    influence.revealed ? [] : [index]
+  );
+
+  return view.legal.flatMap((type): GameAction[] => {
+    switch (type) {
+      case 'coup':
+      case 'assassinate':
+      case 'steal':
+      case 'examine':
+        return opponents(view).map((target) => ({
+          type,
+          player,
+          target: target.id,
+        }));
+      case 'convert': {
+        const others =
+          me.coins >= CONVERT_OTHER_COST
+            ? view.players.filter((p) => p.id !== player && isAlive(p))
+            : [];
+        return [
+          { type, player },
+          ...others.map((target) => ({ type, player, target: target.id })),
+        ];
+      }
+      case 'block':
+        return view.blockingRoles.map((role) => ({ type, player, role }));
+      case 'reveal':
+      case 'lose_influence':
+      case 'show':
+        return hidden.map((card) => ({ type, player, card }));
+      case 'keep':
+        return combinations(
+          exchangeOptions(view)?.length ?? 0,
+          hidden.length
+        ).map((cards) => ({ type, player, cards }));
+      case 'forfeit':
+        return [];
+      default:
+        return [{ type, player } as GameAction];
+    }
+  });
+}
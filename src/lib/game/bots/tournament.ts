@@ -0,0 +1,222 @@
+import { strategies } from '@/lib/game/bots';
+import {
+  createRandom,
+  type PublicAction,
+  type StrategyName,
+  toPublicAction,
+} from '@/lib/game/bots/strategy';
+import {
+  applyAction,
+  claimFor,
+  createGame,
+  pendingPlayers,
+} from '@/lib/game/engine';
+import { seedFrom } from '@/lib/game/rng';
+import type { PlayerId } from '@/lib/game/types';
+import { viewFor } from '@/lib/game/view';
+
+/**
+ * Headless bot-versus-bot games. Everything is derived from the tournament
+ * seed, so the same options always produce the same result.
+ */
+
+/** Games longer than this are abandoned instead of looping forever. */
+const MAX_ACTIONS = 5000;
+
+const YIELD_EVERY = 50;
+
+/** z for a 95% confidence interval. */
+const Z_95 = 1.96;
+
+export interface TournamentOptions {
+  /** Strategies taking part; seats cycle through them in this order. */
+  strategies: StrategyName[];
+  games: number;
+  /** Seats per game. */
+  players: number;
+  seed: number;
+}
+
+export interface StrategyStats {
+  strategy: StrategyName;
+  /** Seats the strategy played, across all games. */
+  seats: number;
+  wins: number;
+  winRate: number;
+  /** Wilson score interval for `winRate`. */
+  interval: [low: number, high: number];
+  /** Claims of a role the player did not hold. */
+  bluffs: number;
+  /** Bluffs that were challenged. */
+  bluffsCaught: number;
+  challenges: number;
+  /** Challenges of a claim that was in fact a bluff. */
+  challengesWon: number;
+}
+
+export interface TournamentResult {
+  options: TournamentOptions;
+  /** Games that reached a winner. */
+  completed: number;
+  /** Games abandoned after `MAX_ACTIONS`. */
+  abandoned: number;
+  averageTurns: number;
+  averageActions: number;
+  results: StrategyStats[];
+}
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+/** 95% Wilson score interval for `successes` out of `trials`. */
+export function wilsonInterval(
+  successes: number,
+  trials: number
+): [low: number, high: number] {
+  if (trials === 0) return [0, 0];
+
+  const p = successes / trials;
+  const z2 = Z_95 * Z_95;
+  const center = (p + z2 / (2 * trials)) / (1 + z2 / trials);
+  const margin =
+    (Z_95 * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) /
+    (1 + z2 / trials);
+
+  return [Math.max(0, center - margin), Math.min(1, center + margin)];
+}
+
+export function ratio(part: number, whole: number): number {
+  return whole === 0 ? 0 : part / whole;
+}
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+function playGame(
+  seats: StrategyName[],
+  seed: number,
+  stats: Map<StrategyName, StrategyStats>
+) {
+  const ids = seats.map((_, index) => `seat-${index}`);
+  const strategyOf = new Map(ids.map((id, index) => [id, seats[index]]));
+  const statsOf = (id: PlayerId) => {
+    const entry = stats.get(strategyOf.get(id) as StrategyName);
+    if (!entry) throw new Error(`No stats for seat ${id}`);
+    return entry;
+  };
+
+  let state = createGame({ players: ids, seed });
+  const random = createRandom(seedFrom(`bots:${seed}`));
+  const history: PublicAction[] = [];
+
+  for (const id of ids) statsOf(id).seats++;
+
+  while (state.phase.kind !== 'game-over') {
+    if (history.length >= MAX_ACTIONS) return null;
+
+    const player = pendingPlayers(state)[0];
+    const strategy = strategies[statsOf(player).strategy];
+    const action = strategy.choose({
+      view: viewFor(state, player),
+      history,
+      random,
+    });
+
+    const claim = claimFor(state, action);
+    if (claim && action.type === 'challenge') {
+      statsOf(player).challenges++;
+      if (!claim.truthful) {
+        statsOf(player).challengesWon++;
+        statsOf(claim.claimant).bluffsCaught++;
+      }
+    } else if (claim && !claim.truthful) {
+      statsOf(player).bluffs++;
+    }
+
+    const result = applyAction(state, action);
+    if (!result.ok) {
+      throw new Error(
+        `${statsOf(player).strategy} made an illegal move: ${result.violation.message}`
+      );
+    }
+    state = result.state;
+    history.push(toPublicAction(action));
+  }
+
+  statsOf(state.phase.winner).wins++;
+  return { turns: state.turnNumber, actions: history.length };
+}
+
+/** Seats for game `index`: strategies in turn, shifted so starts rotate. */
+function seatsFor(options: TournamentOptions, index: number): StrategyName[] {
+  const { strategies: names, players } = options;
+  return Array.from(
+    { length: players },
+    (_, seat) => names[(seat + index) % names.length]
+  );
+}
+
+/**
+ * Plays `options.games` seeded games and aggregates the results per strategy.
+ * Yields to the event loop every `YIELD_EVERY` games so a spinner keeps
+ * turning.
+ */
+export async function runTournament(
+  options: TournamentOptions
+): Promise<TournamentResult> {
+  const stats = new Map<StrategyName, StrategyStats>(
+    options.strategies.map((strategy) => [
+      strategy,
+      {
+        strategy,
+        seats: 0,
+        wins: 0,
+        winRate: 0,
+        interval: [0, 0],
+        bluffs: 0,
+        bluffsCaught: 0,
+        challenges: 0,
+        challengesWon: 0,
+      },
+    ])
+  );
+
+  let completed = 0;
+  let turns = 0;
+  let actions = 0;
+
+  for (let index = 0; index < options.games; index++) {
+    const game = playGame(
+      seatsFor(options, index),
+      seedFrom(`${options.seed}:${index}`),
+      stats
+    );
+    if (game) {
+      completed++;
+      turns += game.turns;
+      actions += game.actions;
+    }
+
+    if ((index + 1) % YIELD_EVERY === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+
+  // Win rates count seats, so several seats of one strategy share its wins
+  const results = [...stats.values()].map((entry) => ({
+    ...entry,
+    winRate: ratio(entry.wins, entry.seats),
+    interval: wilsonInterval(entry.wins, entry.seats),
+  }));
+
+  return {
+    options,
+    completed,
+    abandoned: options.games - completed,
+    averageTurns: ratio(turns, completed),
+    averageActions: ratio(actions, completed),
+    results,
+  };
+}
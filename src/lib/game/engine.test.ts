@@ -0,0 +1,489 @@
+import { describe, expect, test } from 'bun:test';
+
+import {
+  applyAction,
+  createGame,
+  influenceCount,
+  winnersOf,
+} from '@/lib/game/engine';
+import { BASE_RULES, CARDS_PER_ROLE } from '@/lib/game/rules';
+import type {
+  GameAction,
+  GameState,
+  Role,
+  RuleViolationCode,
+  VariantRules,
+} from '@/lib/game/types';
+
+const IDS = ['alice', 'bob', 'carol', 'dave'];
+
+/** A game with fixed hands; everything else comes from `createGame`. */
+function deal(
+  hands: Role[][],
+  {
+    rules = BASE_RULES,
+    coins,
+    deck,
+  }: { rules?: VariantRules; coins?: number[]; deck?: Role[] } = {}
+): GameState {
+  const state = createGame({
+    players: IDS.slice(0, hands.length),
+    seed: 1,
+    rules,
+  });
+  state.players.forEach((player, i) => {
+    player.influences = hands[i].map((role) => ({ role, revealed: false }));
+    if (coins) player.coins = coins[i];
+  });
+  if (deck) state.deck = deck;
+  return state;
+}
+
+function play(state: GameState, ...actions: GameAction[]): GameState {
+  return actions.reduce((current, action) => {
+    const result = applyAction(current, action);
+    if (!result.ok) {
+      throw new Error(`${action.type} rejected: ${result.violation.message}`);
+    }
+    return result.state;
+  }, state);
+}
+
+function rejection(state: GameState, action: GameAction): RuleViolationCode {
+  const result = applyAction(state, action);
+  if (result.ok) throw new Error(`${action.type} was accepted`);
+  return result.violation.code;
+}
+
+function player(state: GameState, id: string) {
+  const found = state.players.find((p) => p.id === id);
+  if (!found) throw new Error(`No player ${id}`);
+  return found;
+}
+
+/** Every card in hands and the deck, sorted, to check none go missing. */
+function allCards(state: GameState): Role[] {
+  return [
+    ...state.players.flatMap((p) => p.influences.map((i) => i.role)),
+    ...state.deck,
+  ].sort();
+}
+
+describe('setup', () => {
+  test('the same seed deals the same game', () => {
+    const options = { players: ['alice', 'bob', 'carol'], seed: 42 };
+    expect(createGame(options)).toEqual(createGame(options));
+    expect(createGame(options).deck).not.toEqual(
+      createGame({ ...options, seed: 43 }).deck
+    );
+  });
+
+  test('deals two cards each from a full court deck', () => {
+    const state = createGame({ players: ['alice', 'bob', 'carol'], seed: 7 });
+    expect(state.players.every((p) => p.influences.length === 2)).toBe(true);
+    expect(allCards(state)).toHaveLength(5 * CARDS_PER_ROLE);
+  });
+});
+
+describe('turn actions', () => {
+  test('ten or more coins force a Coup', () => {
+    const state = deal(
+      [
+        ['duke', 'captain'],
+        ['contessa', 'assassin'],
+      ],
+      { coins: [10, 2] }
+    );
+    expect(rejection(state, { type: 'income', player: 'alice' })).toBe(
+      'must-coup'
+    );
+
+    const next = play(state, { type: 'coup', player: 'alice', target: 'bob' });
+    expect(player(next, 'alice').coins).toBe(3);
+    expect(next.phase).toMatchObject({ kind: 'lose-influence', player: 'bob' });
+
+    const after = play(next, {
+      type: 'lose_influence',
+      player: 'bob',
+      card: 1,
+    });
+    expect(player(after, 'bob').influences[1].revealed).toBe(true);
+    expect(after.phase).toEqual({ kind: 'turn' });
+    expect(after.turn).toBe(1);
+  });
+
+  test('rejects acting out of turn', () => {
+    const state = deal([
+      ['duke', 'captain'],
+      ['contessa', 'assassin'],
+    ]);
+    expect(rejection(state, { type: 'income', player: 'bob' })).toBe(
+      'not-your-turn'
+    );
+  });
+});
+
+describe('challenges', () => {
+  test('a proven claim replaces the card and costs the challenger', () => {
+    const state = deal(
+      [
+        ['duke', 'captain'],
+        ['contessa', 'assassin'],
+      ],
+      { deck: ['ambassador', 'ambassador', 'ambassador'] }
+    );
+    const challenged = play(
+      state,
+      { type: 'tax', player: 'alice' },
+      { type: 'challenge', player: 'bob' }
+    );
+    expect(challenged.phase).toMatchObject({
+      kind: 'prove',
+      claimant: 'alice',
+      role: 'duke',
+    });
+
+    const proven = play(challenged, {
+      type: 'reveal',
+      player: 'alice',
+      card: 0,
+    });
+    // The Duke went back into the deck and a fresh card came out
+    expect(player(proven, 'alice').influences[0].revealed).toBe(false);
+    expect(allCards(proven)).toEqual(allCards(state));
+    expect(proven.deck).toHaveLength(3);
+    expect(proven.phase).toMatchObject({
+      kind: 'lose-influence',
+      player: 'bob',
+    });
+
+    const resolved = play(proven, {
+      type: 'lose_influence',
+      player: 'bob',
+      card: 0,
+    });
+    expect(influenceCount(player(resolved, 'bob'))).toBe(1);
+    expect(player(resolved, 'alice').coins).toBe(1 + 3);
+    expect(resolved.turn).toBe(1);
+  });
+
+  test('a bluff caught by a challenge loses a card and the action', () => {
+    const state = deal([
+      ['captain', 'contessa'],
+      ['duke', 'assassin'],
+    ]);
+    const caught = play(
+      state,
+      { type: 'tax', player: 'alice' },
+      { type: 'challenge', player: 'bob' },
+      { type: 'reveal', player: 'alice', card: 1 }
+    );
+    expect(player(caught, 'alice').influences[1].revealed).toBe(true);
+    expect(player(caught, 'alice').coins).toBe(1);
+    expect(influenceCount(player(caught, 'bob'))).toBe(2);
+    expect(caught.phase).toEqual({ kind: 'turn' });
+  });
+
+  test('a caught Assassination bluff refunds the coins', () => {
+    const state = deal(
+      [
+        ['captain', 'contessa'],
+        ['duke', 'assassin'],
+      ],
+      { coins: [3, 2] }
+    );
+    const declared = play(state, {
+      type: 'assassinate',
+      player: 'alice',
+      target: 'bob',
+    });
+    expect(player(declared, 'alice').coins).toBe(0);
+
+    const caught = play(
+      declared,
+      { type: 'challenge', player: 'bob' },
+      { type: 'lose_influence', player: 'alice', card: 0 }
+    );
+    expect(player(caught, 'alice').coins).toBe(3);
+    expect(influenceCount(player(caught, 'bob'))).toBe(2);
+  });
+
+  test('a failed challenge to an Assassination costs both influences', () => {
+    const state = deal(
+      [
+        ['assassin', 'captain'],
+        ['duke', 'contessa'],
+      ],
+      { coins: [3, 2] }
+    );
+    const proven = play(
+      state,
+      { type: 'assassinate', player: 'alice', target: 'bob' },
+      { type: 'challenge', player: 'bob' },
+      { type: 'reveal', player: 'alice', card: 0 },
+      { type: 'lose_influence', player: 'bob', card: 0 }
+    );
+    // Bob may still block with the Contessa left in hand
+    expect(proven.phase).toMatchObject({
+      kind: 'respond',
+      challengeable: false,
+    });
+
+    const over = play(proven, { type: 'allow', player: 'bob' });
+    expect(influenceCount(player(over, 'bob'))).toBe(0);
+    expect(over.phase).toEqual({ kind: 'game-over', winner: 'alice' });
+    expect(rejection(over, { type: 'income', player: 'alice' })).toBe(
+      'game-over'
+    );
+  });
+});
+
+describe('blocks', () => {
+  test('a block caught by a counter-challenge lets the action through', () => {
+    const state = deal([
+      ['captain', 'contessa'],
+      ['assassin', 'contessa'],
+    ]);
+    const blocked = play(
+      state,
+      { type: 'foreign_aid', player: 'alice' },
+      { type: 'block', player: 'bob', role: 'duke' }
+    );
+    expect(blocked.phase).toMatchObject({
+      kind: 'respond-block',
+      blocker: 'bob',
+    });
+
+    const caught = play(
+      blocked,
+      { type: 'challenge', player: 'alice' },
+      { type: 'reveal', player: 'bob', card: 0 }
+    );
+    expect(player(caught, 'bob').influences[0].revealed).toBe(true);
+    expect(player(caught, 'alice').coins).toBe(1 + 2);
+    expect(caught.turn).toBe(1);
+  });
+
+  test('a proven block stops the action and costs the challenger', () => {
+    const state = deal([
+      ['captain', 'contessa'],
+      ['duke', 'assassin'],
+    ]);
+    const stood = play(
+      state,
+      { type: 'foreign_aid', player: 'alice' },
+      { type: 'block', player: 'bob', role: 'duke' },
+      { type: 'challenge', player: 'alice' },
+      { type: 'reveal', player: 'bob', card: 0 },
+      { type: 'lose_influence', player: 'alice', card: 0 }
+    );
+    expect(player(stood, 'alice').coins).toBe(1);
+    expect(influenceCount(player(stood, 'alice'))).toBe(1);
+    expect(influenceCount(player(stood, 'bob'))).toBe(2);
+    expect(stood.turn).toBe(1);
+  });
+
+  test('only the target may block a steal', () => {
+    const state = deal([
+      ['captain', 'contessa'],
+      ['duke', 'assassin'],
+      ['duke', 'assassin'],
+    ]);
+    const declared = play(state, {
+      type: 'steal',
+      player: 'alice',
+      target: 'bob',
+    });
+    expect(
+      rejection(declared, { type: 'block', player: 'carol', role: 'captain' })
+    ).toBe('cannot-block');
+  });
+});
+
+describe('elimination', () => {
+  test('an eliminated player is skipped and cannot act', () => {
+    const state = deal(
+      [
+        ['duke', 'captain'],
+        ['contessa', 'assassin'],
+        ['duke', 'ambassador'],
+      ],
+      { coins: [7, 2, 2] }
+    );
+    state.players[1].influences[0].revealed = true;
+
+    const next = play(state, { type: 'coup', player: 'alice', target: 'bob' });
+    expect(influenceCount(player(next, 'bob'))).toBe(0);
+    expect(next.turn).toBe(2);
+    expect(rejection(next, { type: 'income', player: 'bob' })).toBe(
+      'eliminated'
+    );
+  });
+});
+
+describe('variants', () => {
+  const inquisitor: VariantRules = { allegiance: 'none', inquisitor: true };
+
+  test('the Inquisitor replaces the Ambassador and draws one card', () => {
+    const dealt = createGame({
+      players: ['alice', 'bob'],
+      seed: 3,
+      rules: inquisitor,
+    });
+    expect(allCards(dealt)).not.toContain('ambassador');
+    expect(allCards(dealt)).toContain('inquisitor');
+
+    const state = deal(
+      [
+        ['inquisitor', 'captain'],
+        ['duke', 'contessa'],
+      ],
+      { rules: inquisitor, deck: ['assassin', 'duke', 'captain'] }
+    );
+    const exchanging = play(
+      state,
+      { type: 'exchange', player: 'alice' },
+      { type: 'allow', player: 'bob' }
+    );
+    expect(exchanging.phase).toEqual({
+      kind: 'exchange',
+      player: 'alice',
+      drawn: ['assassin'],
+    });
+
+    const done = play(exchanging, {
+      type: 'keep',
+      player: 'alice',
+      cards: [0, 2],
+    });
+    expect(player(done, 'alice').influences.map((i) => i.role)).toEqual([
+      'inquisitor',
+      'assassin',
+    ]);
+    expect(allCards(done)).toEqual(allCards(state));
+  });
+
+  test('Reformation conversion switches sides and pays the treasury', () => {
+    const rules: VariantRules = { allegiance: 'factions', inquisitor: false };
+    const state = deal(
+      [
+        ['duke', 'captain'],
+        ['contessa', 'assassin'],
+        ['duke', 'ambassador'],
+      ],
+      { rules, coins: [3, 2, 2] }
+    );
+    expect(player(state, 'alice').faction).toBe('loyalist');
+
+    const converted = play(state, { type: 'convert', player: 'alice' });
+    expect(player(converted, 'alice').faction).toBe('reformist');
+    expect(player(converted, 'alice').coins).toBe(2);
+    expect(converted.treasury).toBe(1);
+    expect(converted.turn).toBe(1);
+
+    const other = play(converted, {
+      type: 'convert',
+      player: 'bob',
+      target: 'carol',
+    });
+    expect(player(other, 'carol').faction).toBe('reformist');
+    expect(other.treasury).toBe(3);
+  });
+
+  test('Reformation factions cannot target their own side', () => {
+    const rules: VariantRules = { allegiance: 'factions', inquisitor: false };
+    const state = deal(
+      [
+        ['duke', 'captain'],
+        ['contessa', 'assassin'],
+        ['duke', 'ambassador'],
+      ],
+      { rules, coins: [7, 2, 2] }
+    );
+    expect(player(state, 'carol').faction).toBe(player(state, 'alice').faction);
+    expect(
+      rejection(state, { type: 'coup', player: 'alice', target: 'carol' })
+    ).toBe('invalid-target');
+
+    // With the other side gone, everyone is fair game again
+    for (const influence of player(state, 'bob').influences) {
+      influence.revealed = true;
+    }
+    expect(
+      play(state, { type: 'coup', player: 'alice', target: 'carol' }).phase
+    ).toMatchObject({ kind: 'lose-influence', player: 'carol' });
+  });
+
+  test('embezzling empties the treasury into the actor', () => {
+    const rules: VariantRules = { allegiance: 'factions', inquisitor: false };
+    const state = deal(
+      [
+        ['duke', 'captain'],
+        ['contessa', 'assassin'],
+        ['duke', 'ambassador'],
+      ],
+      { rules, coins: [3, 2, 2] }
+    );
+    const converted = play(state, { type: 'convert', player: 'alice' });
+
+    const embezzled = play(
+      converted,
+      { type: 'embezzle', player: 'bob' },
+      { type: 'allow', player: 'alice' },
+      { type: 'allow', player: 'carol' }
+    );
+    expect(player(embezzled, 'bob').coins).toBe(3);
+    expect(embezzled.treasury).toBe(0);
+  });
+
+  test('team players cannot target their teammates', () => {
+    const rules: VariantRules = { allegiance: 'teams', inquisitor: false };
+    const state = deal(
+      [
+        ['duke', 'captain'],
+        ['contessa', 'assassin'],
+        ['duke', 'ambassador'],
+        ['captain', 'contessa'],
+      ],
+      { rules, coins: [7, 2, 2, 2] }
+    );
+    expect(
+      rejection(state, { type: 'coup', player: 'alice', target: 'carol' })
+    ).toBe('invalid-target');
+    expect(
+      play(state, { type: 'coup', player: 'alice', target: 'bob' }).phase
+    ).toMatchObject({ kind: 'lose-influence', player: 'bob' });
+  });
+
+  test('a team wins together', () => {
+    const rules: VariantRules = { allegiance: 'teams', inquisitor: false };
+    const state = deal(
+      [
+        ['duke', 'captain'],
+        ['contessa', 'assassin'],
+        ['duke', 'ambassador'],
+        ['captain', 'contessa'],
+      ],
+      { rules, coins: [7, 2, 2, 2] }
+    );
+    player(state, 'bob').influences[0].revealed = true;
+    for (const influence of player(state, 'dave').influences) {
+      influence.revealed = true;
+    }
+
+    // Bob's last card goes without a choice, and the loyalists are left
+    const over = play(state, { type: 'coup', player: 'alice', target: 'bob' });
+    expect(over.phase).toMatchObject({ kind: 'game-over', team: 'loyalist' });
+    expect(winnersOf(over)).toEqual(['alice', 'carol']);
+  });
+
+  test('base games reject variant actions', () => {
+    const state = deal([
+      ['duke', 'captain'],
+      ['contessa', 'assassin'],
+    ]);
+    expect(rejection(state, { type: 'embezzle', player: 'alice' })).toBe(
+      'not-in-variant'
+    );
+  });
+});
@@ -0,0 +1,1019 @@
+import { shuffle } from '@/lib/game/rng';
+import {
+  ACTION_COSTS,
+  ACTION_DENIALS,
+  ACTION_GAINS,
+  actionBlockers,
+  actionClaim,
+  BASE_RULES,
+  CARDS_PER_ROLE,
+  CONVERT_OTHER_COST,
+  courtRoles,
+  exchangeDraw,
+  FORCED_COUP_COINS,
+  INFLUENCE_PER_PLAYER,
+  MAX_PLAYERS,
+  MIN_PLAYERS,
+  STARTING_COINS,
+  STEAL_AMOUNT,
+  TARGET_ONLY_BLOCKS,
+  TARGETED_ACTIONS,
+  variantActions,
+} from '@/lib/game/rules';
+import {
+  type ActionResult,
+  type ActionType,
+  type Continuation,
+  type DeclaredAction,
+  factions,
+  type GameAction,
+  type GameState,
+  type Influence,
+  type Phase,
+  type PlayerId,
+  type PlayerState,
+  type Role,
+  type RuleViolationCode,
+  type TurnActionType,
+  turnActionTypes,
+  type VariantRules,
+} from '@/lib/game/types';
+
+/**
+ * Pure Coup rules engine. Every transition takes a state and an action and
+ * returns a new state (the input is never mutated) or a typed violation.
+ * Randomness only comes from the seeded RNG stored on the state, so replaying
+ * the same actions from the same initial state always yields the same game.
+ */
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function violation(code: RuleViolationCode, message: string): ActionResult {
+  return { ok: false, violation: { code, message } };
+}
+
+function ok(state: GameState): ActionResult {
+  return { ok: true, state };
+}
+
+/** Anything with a hand, including a player as seen from another seat. */
+type Hand = { influences: readonly Pick<Influence, 'revealed'>[] };
+
+export function influenceCount(player: Hand): number {
+  return player.influences.filter((i) => !i.revealed).length;
+}
+
+export function isAlive(player: Hand): boolean {
+  return influenceCount(player) > 0;
+}
+
+export function getPlayer(
+  state: GameState,
+  id: PlayerId
+): PlayerState | undefined {
+  return state.players.find((p) => p.id === id);
+}
+
+export function currentPlayer(state: GameState): PlayerState {
+  return state.players[state.turn];
+}
+
+function alivePlayers(state: GameState): PlayerState[] {
+  return state.players.filter(isAlive);
+}
+
+/** The rules the game was dealt with. */
+export function rulesOf(state: GameState): VariantRules {
+  return state.rules ?? BASE_RULES;
+}
+
+/**
+ * Whether two players are on the same side, which keeps them from targeting
+ * or blocking each other. Sides stop mattering once only one is left.
+ */
+function allied(state: GameState, a: PlayerId, b: PlayerId): boolean {
+  if (rulesOf(state).allegiance === 'none') return false;
+  const sides = new Set(alivePlayers(state).map((p) => p.faction));
+  return (
+    sides.size > 1 &&
+    getPlayer(state, a)?.faction === getPlayer(state, b)?.faction
+  );
+}
+
+/** Whether `actor` may Coup, Assassinate, Steal from or Examine `target`. */
+export function canTarget(
+  state: GameState,
+  actor: PlayerId,
+  target: PlayerId
+): boolean {
+  const player = getPlayer(state, target);
+  return (
+    !!player &&
+    isAlive(player) &&
+    target !== actor &&
+    !allied(state, actor, target)
+  );
+}
+
+/** Everyone who won: the last player standing, or their whole team. */
+export function winnersOf(state: GameState): PlayerId[] {
+  const { phase } = state;
+  if (phase.kind !== 'game-over') return [];
+  if (!phase.team) return [phase.winner];
+  return state.players.filter((p) => p.faction === phase.team).map((p) => p.id);
+}
+
+/** Looks up a player known to exist on a cloned state. */
+function playerOf(state: GameState, id: PlayerId): PlayerState {
+  const player = getPlayer(state, id);
+  if (!player) throw new Error(`Unknown player: ${id}`);
+  return player;
+}
+
+/** Players that may block the action, ignoring who already responded. */
+function blockersFor(state: GameState, action: DeclaredAction): PlayerId[] {
+  if (!actionBlockers(action.type, rulesOf(state))) return [];
+
+  if (TARGET_ONLY_BLOCKS.includes(action.type)) {
+    const target = action.target ? getPlayer(state, action.target) : undefined;
+    return target && isAlive(target) ? [target.id] : [];
+  }
+
+  return alivePlayers(state)
+    .filter((p) => p.id !== action.actor && !allied(state, p.id, action.actor))
+    .map((p) => p.id);
+}
+
+/** Players that may challenge or block in a `respond` phase. */
+function respondersFor(
+  state: GameState,
+  phase: Extract<Phase, { kind: 'respond' }>
+): PlayerId[] {
+  const blockers = blockersFor(state, phase.action);
+  if (!phase.challengeable) return blockers;
+
+  return alivePlayers(state)
+    .filter((p) => p.id !== phase.action.actor)
+    .map((p) => p.id);
+}
+
+/** Players that may challenge a block. */
+function blockChallengers(
+  state: GameState,
+  phase: Extract<Phase, { kind: 'respond-block' }>
+): PlayerId[] {
+  return alivePlayers(state)
+    .filter((p) => p.id !== phase.blocker)
+    .map((p) => p.id);
+}
+
+/**
+ * Players the game is currently waiting on. Useful for timers and bots: the
+ * phase cannot advance until one of them acts.
+ */
+export function pendingPlayers(state: GameState): PlayerId[] {
+  const { phase } = state;
+
+  switch (phase.kind) {
+    case 'turn':
+      return [currentPlayer(state).id];
+    case 'respond':
+      return respondersFor(state, phase).filter(
+        (id) => !phase.allowed.includes(id)
+      );
+    case 'respond-block':
+      return blockChallengers(state, phase).filter(
+        (id) => !phase.allowed.includes(id)
+      );
+    case 'prove':
+      return [phase.claimant];
+    case 'lose-influence':
+    case 'exchange':
+    case 'show':
+    case 'examine':
+      return [phase.player];
+    case 'game-over':
+      return [];
+  }
+}
+
+/** A claimed role, and whether the claimant held it at the time. */
+export interface Claim {
+  claimant: PlayerId;
+  role: Role;
+  truthful: boolean;
+}
+
+function claimedRole(state: GameState, action: GameAction) {
+  const { phase } = state;
+  const rules = rulesOf(state);
+
+  switch (action.type) {
+    case 'block':
+      return { claimant: action.player, role: action.role };
+    case 'challenge':
+      if (phase.kind === 'respond') {
+        const role = actionClaim(phase.action.type, rules);
+        return role ? { claimant: phase.action.actor, role } : null;
+      }
+      return phase.kind === 'respond-block'
+        ? { claimant: phase.blocker, role: phase.role }
+        : null;
+    default: {
+      const role = actionClaim(action.type as TurnActionType, rules);
+      return role ? { claimant: action.player, role } : null;
+    }
+  }
+}
+
+/**
+ * The claim `action` makes (an action or a block) or disputes (a challenge),
+ * judged against the hands in `state`, the state `action` is applied to.
+ * Embezzlement denies a role rather than claiming one, so it has no claim.
+ */
+export function claimFor(state: GameState, action: GameAction): Claim | null {
+  const claimed = claimedRole(state, action);
+  if (!claimed) return null;
+
+  const claimant = getPlayer(state, claimed.claimant);
+  const truthful = !!claimant?.influences.some(
+    (influence) => !influence.revealed && influence.role === claimed.role
+  );
+  return { ...claimed, truthful };
+}
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+export interface NewGameOptions {
+  /** Seats in turn order; the first player starts. */
+  players: PlayerId[];
+  seed: number;
+  /** Defaults to the base game. */
+  rules?: VariantRules;
+}
+
+export function createGame({
+  players,
+  seed,
+  rules = BASE_RULES,
+}: NewGameOptions): GameState {
+  if (players.length < MIN_PLAYERS || players.length > MAX_PLAYERS) {
+    throw new Error(
+      `Coup needs ${MIN_PLAYERS}-${MAX_PLAYERS} players, got ${players.length}`
+    );
+  }
+  if (new Set(players).size !== players.length) {
+    throw new Error('Player ids must be unique');
+  }
+  if (rules.allegiance === 'teams' && players.length % 2 !== 0) {
+    throw new Error('Team games need an even number of players');
+  }
+
+  const court = courtRoles(rules).flatMap((role) =>
+    Array.from({ length: CARDS_PER_ROLE }, () => role)
+  );
+  const [deck, rng] = shuffle(court, seed);
+
+  return {
+    players: players.map((id, index) => ({
+      id,
+      // Two-player games compensate the starting player's advantage
+      coins: players.length === 2 && index === 0 ? 1 : STARTING_COINS,
+      influences: deck
+        .splice(0, INFLUENCE_PER_PLAYER)
+        .map((role) => ({ role, revealed: false })),
+      // Sides alternate around the table, so teams sit interleaved
+      ...(rules.allegiance !== 'none' && { faction: factions[index % 2] }),
+    })),
+    deck,
+    turn: 0,
+    turnNumber: 1,
+    phase: { kind: 'turn' },
+    rng,
+    rules,
+    treasury: 0,
+  };
+}
+
+// ============================================================================
+// Transitions
+// ============================================================================
+
+/** Shuffles a card back into the court deck and draws a replacement. */
+function replaceCard(state: GameState, player: PlayerState, card: number) {
+  const [deck, rng] = shuffle(
+    [...state.deck, player.influences[card].role],
+    state.rng
+  );
+  player.influences[card] = { role: deck[0], revealed: false };
+  state.deck = deck.slice(1);
+  state.rng = rng;
+}
+
+function endTurn(state: GameState): GameState {
+  const count = state.players.length;
+  let turn = state.turn;
+
+  do {
+    turn = (turn + 1) % count;
+  } while (!isAlive(state.players[turn]));
+
+  state.turn = turn;
+  state.turnNumber += 1;
+  state.phase = { kind: 'turn' };
+  return state;
+}
+
+/** Ends the game once a single player, or a single team, is left. */
+function endIfWon(state: GameState): boolean {
+  const [first, ...rest] = alivePlayers(state);
+
+  if (rulesOf(state).allegiance === 'teams') {
+    if (rest.some((p) => p.faction !== first.faction)) return false;
+    state.phase = { kind: 'game-over', winner: first.id, team: first.faction };
+    return true;
+  }
+
+  if (rest.length > 0) return false;
+  state.phase = { kind: 'game-over', winner: first.id };
+  return true;
+}
+
+function continueWith(state: GameState, then: Continuation): GameState {
+  if (endIfWon(state)) return state;
+
+  switch (then.kind) {
+    case 'end-turn':
+      return endTurn(state);
+    case 'block-window':
+      if (blockersFor(state, then.action).length === 0) {
+        return resolveAction(state, then.action);
+      }
+      state.phase = {
+        kind: 'respond',
+        action: then.action,
+        challengeable: false,
+        allowed: [],
+      };
+      return state;
+    case 'resolve':
+      return resolveAction(state, then.action);
+  }
+}
+
+/**
+ * Makes `playerId` give up an influence. With a single card left there is no
+ * choice to make, so it is revealed immediately.
+ */
+function loseInfluence(
+  state: GameState,
+  playerId: PlayerId,
+  then: Continuation
+): GameState {
+  const player = playerOf(state, playerId);
+  const hidden = player.influences.filter((i) => !i.revealed);
+
+  if (hidden.length === 0) return continueWith(state, then);
+  if (hidden.length === 1) {
+    hidden[0].revealed = true;
+    return continueWith(state, then);
+  }
+
+  state.phase = { kind: 'lose-influence', player: playerId, then };
+  return state;
+}
+
+/** Carries out an action once it can no longer be challenged or blocked. */
+function resolveAction(state: GameState, action: DeclaredAction): GameState {
+  const actor = playerOf(state, action.actor);
+  const target = action.target ? playerOf(state, action.target) : undefined;
+
+  switch (action.type) {
+    case 'income':
+    case 'foreign_aid':
+    case 'tax':
+      actor.coins += ACTION_GAINS[action.type] ?? 0;
+      return endTurn(state);
+    case 'steal': {
+      if (target && isAlive(target)) {
+        const amount = Math.min(STEAL_AMOUNT, target.coins);
+        target.coins -= amount;
+        actor.coins += amount;
+      }
+      return endTurn(state);
+    }
+    case 'coup':
+    case 'assassinate':
+      return target
+        ? loseInfluence(state, target.id, { kind: 'end-turn' })
+        : endTurn(state);
+    case 'exchange': {
+      const draw = exchangeDraw(rulesOf(state));
+      state.phase = {
+        kind: 'exchange',
+        player: actor.id,
+        drawn: state.deck.slice(0, draw),
+      };
+      state.deck = state.deck.slice(draw);
+      return state;
+    }
+    case 'examine':
+      if (!target || !isAlive(target)) return endTurn(state);
+      state.phase = { kind: 'show', player: target.id, examiner: actor.id };
+      return state;
+    case 'convert': {
+      const convert = target ?? actor;
+      convert.faction =
+        convert.faction === 'loyalist' ? 'reformist' : 'loyalist';
+      return endTurn(state);
+    }
+    case 'embezzle':
+      actor.coins += state.treasury ?? 0;
+      state.treasury = 0;
+      return endTurn(state);
+  }
+}
+
+/**
+ * Resolves a challenge to a claim of not holding `role`. There is no card to
+ * pick: a claimant holding the role loses an influence and the action, and
+ * otherwise the challenger loses one and the action goes ahead.
+ */
+function challengeDenial(
+  state: GameState,
+  action: DeclaredAction,
+  challenger: PlayerId,
+  role: Role
+): GameState {
+  const holds = playerOf(state, action.actor).influences.some(
+    (influence) => !influence.revealed && influence.role === role
+  );
+  return holds
+    ? loseInfluence(state, action.actor, { kind: 'end-turn' })
+    : loseInfluence(state, challenger, { kind: 'resolve', action });
+}
+
+// ============================================================================
+// Phase Handlers
+// ============================================================================
+
+function isTurnAction(
+  action: GameAction
+): action is Extract<GameAction, { type: TurnActionType }> {
+  return (turnActionTypes as readonly string[]).includes(action.type);
+}
+
+function costOf(action: Extract<GameAction, { type: TurnActionType }>) {
+  if (action.type === 'convert' && action.target) return CONVERT_OTHER_COST;
+  return ACTION_COSTS[action.type] ?? 0;
+}
+
+function declare(state: GameState, action: GameAction): ActionResult {
+  if (!isTurnAction(action)) {
+    return violation('wrong-phase', `Cannot ${action.type} outside a response`);
+  }
+
+  const rules = rulesOf(state);
+  if (!variantActions(rules).includes(action.type)) {
+    return violation(
+      'not-in-variant',
+      `${action.type} is not played in this variant`
+    );
+  }
+
+  const actor = currentPlayer(state);
+  if (action.player !== actor.id) {
+    return violation('not-your-turn', `It is ${actor.id}'s turn`);
+  }
+  if (actor.coins >= FORCED_COUP_COINS && action.type !== 'coup') {
+    return violation(
+      'must-coup',
+      `A player with ${FORCED_COUP_COINS} or more coins must Coup`
+    );
+  }
+
+  const cost = costOf(action);
+  if (actor.coins < cost) {
+    return violation(
+      'insufficient-coins',
+      `${action.type} costs ${cost} coins, ${actor.id} has ${actor.coins}`
+    );
+  }
+
+  const target = 'target' in action ? action.target : undefined;
+  if (
+    TARGETED_ACTIONS.includes(action.type) &&
+    !(target && canTarget(state, actor.id, target))
+  ) {
+    return violation('invalid-target', `Invalid target for ${action.type}`);
+  }
+  if (action.type === 'convert' && target !== undefined) {
+    // Conversion may change anyone's side, allies included
+    const targetPlayer = getPlayer(state, target);
+    if (!targetPlayer || !isAlive(targetPlayer) || target === actor.id) {
+      return violation('invalid-target', `Invalid target for ${action.type}`);
+    }
+  }
+
+  const next = structuredClone(state);
+  const declared: DeclaredAction = { type: action.type, actor: actor.id };
+  if (target) declared.target = target;
+
+  // Costs are paid on declaration; a blocked Assassination keeps them spent
+  playerOf(next, actor.id).coins -= cost;
+  if (action.type === 'convert') next.treasury = (next.treasury ?? 0) + cost;
+
+  const challengeable =
+    actionClaim(action.type, rules) !== undefined ||
+    ACTION_DENIALS[action.type] !== undefined;
+  if (!challengeable && blockersFor(next, declared).length === 0) {
+    return ok(resolveAction(next, declared));
+  }
+
+  next.phase = {
+    kind: 'respond',
+    action: declared,
+    challengeable,
+    allowed: [],
+  };
+  return ok(next);
+}
+
+function respond(
+  state: GameState,
+  phase: Extract<Phase, { kind: 'respond' }>,
+  action: GameAction
+): ActionResult {
+  if (!respondersFor(state, phase).includes(action.player)) {
+    return violation('wrong-phase', `${action.player} cannot respond now`);
+  }
+  if (phase.allowed.includes(action.player)) {
+    return violation(
+      'already-responded',
+      `${action.player} already allowed this action`
+    );
+  }
+
+  const next = structuredClone(state);
+  const rules = rulesOf(state);
+  const claim = actionClaim(phase.action.type, rules);
+  const denial = ACTION_DENIALS[phase.action.type];
+
+  switch (action.type) {
+    case 'allow': {
+      const allowed = [...phase.allowed, action.player];
+      const waiting = respondersFor(next, phase).filter(
+        (id) => !allowed.includes(id)
+      );
+      if (waiting.length === 0) return ok(resolveAction(next, phase.action));
+      next.phase = { ...phase, allowed };
+      return ok(next);
+    }
+    case 'challenge':
+      if (phase.challengeable && denial) {
+        return ok(challengeDenial(next, phase.action, action.player, denial));
+      }
+      if (!phase.challengeable || !claim) {
+        return violation(
+          'cannot-challenge',
+          `${phase.action.type} cannot be challenged`
+        );
+      }
+      next.phase = {
+        kind: 'prove',
+        action: phase.action,
+        claimant: phase.action.actor,
+        challenger: action.player,
+        role: claim,
+        block: false,
+      };
+      return ok(next);
+    case 'block':
+      if (
+        !blockersFor(state, phase.action).includes(action.player) ||
+        !actionBlockers(phase.action.type, rules)?.includes(action.role)
+      ) {
+        return violation(
+          'cannot-block',
+          `${action.player} cannot block ${phase.action.type} with ${action.role}`
+        );
+      }
+      next.phase = {
+        kind: 'respond-block',
+        action: phase.action,
+        blocker: action.player,
+        role: action.role,
+        allowed: [],
+      };
+      return ok(next);
+    default:
+      return violation('wrong-phase', `Cannot ${action.type} while responding`);
+  }
+}
+
+function respondToBlock(
+  state: GameState,
+  phase: Extract<Phase, { kind: 'respond-block' }>,
+  action: GameAction
+): ActionResult {
+  if (!blockChallengers(state, phase).includes(action.player)) {
+    return violation('wrong-phase', `${action.player} cannot respond now`);
+  }
+  if (phase.allowed.includes(action.player)) {
+    return violation(
+      'already-responded',
+      `${action.player} already allowed this block`
+    );
+  }
+
+  const next = structuredClone(state);
+
+  switch (action.type) {
+    case 'allow': {
+      const allowed = [...phase.allowed, action.player];
+      const waiting = blockChallengers(next, phase).filter(
+        (id) => !allowed.includes(id)
+      );
+      // The block stands and the action fails
+      if (waiting.length === 0) return ok(endTurn(next));
+      next.phase = { ...phase, allowed };
+      return ok(next);
+    }
+    case 'challenge':
+      next.phase = {
+        kind: 'prove',
+        action: phase.action,
+        claimant: phase.blocker,
+        challenger: action.player,
+        role: phase.role,
+        block: true,
+      };
+      return ok(next);
+    default:
+      return violation(
+        'wrong-phase',
+        `Cannot ${action.type} while a block is pending`
+      );
+  }
+}
+
+function validCard(player: PlayerState, card: number): boolean {
+  return (
+    Number.isInteger(card) &&
+    card >= 0 &&
+    card < player.influences.length &&
+    !player.influences[card].revealed
+  );
+}
+
+/**
+ * Resolves a challenge. Revealing the claimed role wins it: the card is
+ * shuffled back for a replacement and the challenger loses influence.
+ * Revealing anything else (or conceding with `lose_influence`) loses the card
+ * and the claim.
+ */
+function prove(
+  state: GameState,
+  phase: Extract<Phase, { kind: 'prove' }>,
+  action: GameAction
+): ActionResult {
+  if (action.player !== phase.claimant) {
+    return violation('wrong-phase', `Waiting for ${phase.claimant} to reveal`);
+  }
+  if (action.type !== 'reveal' && action.type !== 'lose_influence') {
+    return violation('wrong-phase', `Cannot ${action.type} while challenged`);
+  }
+
+  const claimant = playerOf(state, phase.claimant);
+  if (!validCard(claimant, action.card)) {
+    return violation('invalid-card', `No hidden card at ${action.card}`);
+  }
+
+  const next = structuredClone(state);
+  const player = playerOf(next, phase.claimant);
+  const proven =
+    action.type === 'reveal' &&
+    player.influences[action.card].role === phase.role;
+
+  if (proven) {
+    replaceCard(next, player, action.card);
+    // A proven block still stops the action; a proven claim may be blocked
+    return ok(
+      loseInfluence(
+        next,
+        phase.challenger,
+        phase.block
+          ? { kind: 'end-turn' }
+          : { kind: 'block-window', action: phase.action }
+      )
+    );
+  }
+
+  player.influences[action.card].revealed = true;
+
+  if (phase.block) {
+    return ok(continueWith(next, { kind: 'resolve', action: phase.action }));
+  }
+
+  // A failed claim refunds whatever the action cost
+  player.coins += ACTION_COSTS[phase.action.type] ?? 0;
+  return ok(continueWith(next, { kind: 'end-turn' }));
+}
+
+function chooseLoss(
+  state: GameState,
+  phase: Extract<Phase, { kind: 'lose-influence' }>,
+  action: GameAction
+): ActionResult {
+  if (action.player !== phase.player) {
+    return violation(
+      'wrong-phase',
+      `Waiting for ${phase.player} to lose influence`
+    );
+  }
+  if (action.type !== 'lose_influence') {
+    return violation(
+      'wrong-phase',
+      `Cannot ${action.type} while losing influence`
+    );
+  }
+  if (!validCard(playerOf(state, phase.player), action.card)) {
+    return violation('invalid-card', `No hidden card at ${action.card}`);
+  }
+
+  const next = structuredClone(state);
+  playerOf(next, phase.player).influences[action.card].revealed = true;
+  return ok(continueWith(next, phase.then));
+}
+
+/** The Ambassador keeps as many cards as they have hidden influence. */
+function keep(
+  state: GameState,
+  phase: Extract<Phase, { kind: 'exchange' }>,
+  action: GameAction
+): ActionResult {
+  if (action.player !== phase.player) {
+    return violation('wrong-phase', `Waiting for ${phase.player} to exchange`);
+  }
+  if (action.type !== 'keep') {
+    return violation('wrong-phase', `Cannot ${action.type} while exchanging`);
+  }
+
+  const player = playerOf(state, phase.player);
+  const options = [
+    ...player.influences.filter((i) => !i.revealed).map((i) => i.role),
+    ...phase.drawn,
+  ];
+  const picks = new Set(action.cards);
+
+  if (
+    action.cards.length !== influenceCount(player) ||
+    picks.size !== action.cards.length ||
+    action.cards.some(
+      (i) => !Number.isInteger(i) || i < 0 || i >= options.length
+    )
+  ) {
+    return violation(
+      'invalid-card',
+      `Keep exactly ${influenceCount(player)} of the ${options.length} cards`
+    );
+  }
+
+  const next = structuredClone(state);
+  const exchanger = playerOf(next, phase.player);
+  const kept = action.cards.map((i) => options[i]);
+  const returned = options.filter((_, i) => !picks.has(i));
+
+  exchanger.influences = [
+    ...exchanger.influences.filter((i) => i.revealed),
+    ...kept.map((role) => ({ role, revealed: false })),
+  ];
+
+  const [deck, rng] = shuffle([...next.deck, ...returned], next.rng);
+  next.deck = deck;
+  next.rng = rng;
+
+  return ok(endTurn(next));
+}
+
+/** The examined player picks which hidden card the Inquisitor gets to see. */
+function showCard(
+  state: GameState,
+  phase: Extract<Phase, { kind: 'show' }>,
+  action: GameAction
+): ActionResult {
+  if (action.player !== phase.player) {
+    return violation('wrong-phase', `Waiting for ${phase.player} to show`);
+  }
+  if (action.type !== 'show') {
+    return violation('wrong-phase', `Cannot ${action.type} while examined`);
+  }
+  if (!validCard(playerOf(state, phase.player), action.card)) {
+    return violation('invalid-card', `No hidden card at ${action.card}`);
+  }
+
+  const next = structuredClone(state);
+  next.phase = {
+    kind: 'examine',
+    player: phase.examiner,
+    target: phase.player,
+    card: action.card,
+  };
+  return ok(next);
+}
+
+/** The Inquisitor makes the shown card go back to the court, or lets it be. */
+function decideExamination(
+  state: GameState,
+  phase: Extract<Phase, { kind: 'examine' }>,
+  action: GameAction
+): ActionResult {
+  if (action.player !== phase.player) {
+    return violation('wrong-phase', `Waiting for ${phase.player} to decide`);
+  }
+  if (action.type !== 'force_exchange' && action.type !== 'allow') {
+    return violation('wrong-phase', `Cannot ${action.type} while examining`);
+  }
+
+  const next = structuredClone(state);
+  if (action.type === 'force_exchange') {
+    replaceCard(next, playerOf(next, phase.target), phase.card);
+  }
+  return ok(endTurn(next));
+}
+
+/**
+ * Takes a player out of the game at any point, e.g. after repeated timeouts.
+ * Whatever was waiting on them carries on as if they had given the answer
+ * least helpful to themselves.
+ */
+function forfeit(state: GameState, playerId: PlayerId): ActionResult {
+  const next = structuredClone(state);
+  for (const influence of playerOf(next, playerId).influences) {
+    influence.revealed = true;
+  }
+  if (endIfWon(next)) return ok(next);
+
+  const { phase } = next;
+
+  switch (phase.kind) {
+    case 'turn':
+      return ok(currentPlayer(next).id === playerId ? endTurn(next) : next);
+    case 'respond': {
+      if (phase.action.actor === playerId) return ok(endTurn(next));
+      const waiting = respondersFor(next, phase).filter(
+        (id) => !phase.allowed.includes(id)
+      );
+      return ok(
+        waiting.length === 0 ? resolveAction(next, phase.action) : next
+      );
+    }
+    case 'respond-block': {
+      if (phase.action.actor === playerId) return ok(endTurn(next));
+      if (phase.blocker === playerId) {
+        return ok(resolveAction(next, phase.action));
+      }
+      const waiting = blockChallengers(next, phase).filter(
+        (id) => !phase.allowed.includes(id)
+      );
+      return ok(waiting.length === 0 ? endTurn(next) : next);
+    }
+    case 'prove':
+      if (phase.action.actor === playerId) return ok(endTurn(next));
+      if (phase.claimant === playerId) {
+        // Only a blocker can be a claimant other than the actor
+        return ok(resolveAction(next, phase.action));
+      }
+      return ok(next);
+    case 'lose-influence':
+      return ok(
+        phase.player === playerId ? continueWith(next, phase.then) : next
+      );
+    case 'exchange': {
+      if (phase.player !== playerId) return ok(next);
+      const [deck, rng] = shuffle([...next.deck, ...phase.drawn], next.rng);
+      next.deck = deck;
+      next.rng = rng;
+      return ok(endTurn(next));
+    }
+    case 'show':
+      return ok(
+        phase.player === playerId || phase.examiner === playerId
+          ? endTurn(next)
+          : next
+      );
+    case 'examine':
+      return ok(
+        phase.player === playerId || phase.target === playerId
+          ? endTurn(next)
+          : next
+      );
+    case 'game-over':
+      return ok(next);
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Applies an action to the game. Returns the next state, or the rule the
+ * action breaks without touching the input state.
+ */
+export function applyAction(
+  state: GameState,
+  action: GameAction
+): ActionResult {
+  const { phase } = state;
+
+  if (phase.kind === 'game-over') {
+    return violation('game-over', `The game is over, ${phase.winner} won`);
+  }
+
+  const player = getPlayer(state, action.player);
+  if (!player) {
+    return violation('unknown-player', `Unknown player: ${action.player}`);
+  }
+  if (!isAlive(player)) {
+    return violation('eliminated', `${player.id} has been eliminated`);
+  }
+  if (action.type === 'forfeit') return forfeit(state, player.id);
+
+  switch (phase.kind) {
+    case 'turn':
+      return declare(state, action);
+    case 'respond':
+      return respond(state, phase, action);
+    case 'respond-block':
+      return respondToBlock(state, phase, action);
+    case 'prove':
+      return prove(state, phase, action);
+    case 'lose-influence':
+      return chooseLoss(state, phase, action);
+    case 'exchange':
+      return keep(state, phase, action);
+    case 'show':
+      return showCard(state, phase, action);
+    case 'examine':
+      return decideExamination(state, phase, action);
+  }
+}
+
+/** Action types `player` may currently submit, for enabling controls. */
+export function legalActionTypes(
+  state: GameState,
+  playerId: PlayerId
+): ActionType[] {
+  const player = getPlayer(state, playerId);
+  if (!player || !isAlive(player)) return [];
+
+  const { phase } = state;
+
+  switch (phase.kind) {
+    case 'turn': {
+      if (currentPlayer(state).id !== playerId) return [];
+      if (player.coins >= FORCED_COUP_COINS) return ['coup'];
+      return variantActions(rulesOf(state)).filter(
+        (type) => player.coins >= (ACTION_COSTS[type] ?? 0)
+      );
+    }
+    case 'respond': {
+      if (!pendingPlayers(state).includes(playerId)) return [];
+      const types: ActionType[] = ['allow'];
+      if (phase.challengeable) types.push('challenge');
+      if (blockersFor(state, phase.action).includes(playerId)) {
+        types.push('block');
+      }
+      return types;
+    }
+    case 'respond-block':
+      return pendingPlayers(state).includes(playerId)
+        ? ['allow', 'challenge']
+        : [];
+    case 'prove':
+      return phase.claimant === playerId ? ['reveal', 'lose_influence'] : [];
+    case 'lose-influence':
+      return phase.player === playerId ? ['lose_influence'] : [];
+    case 'exchange':
+      return phase.player === playerId ? ['keep'] : [];
+    case 'show':
+      return phase.player === playerId ? ['show'] : [];
+    case 'examine':
+      return phase.player === playerId ? ['force_exchange', 'allow'] : [];
+    case 'game-over':
+      return [];
+  }
+}
+
+/** Roles `player` may claim to block the pending action with. */
+export function blockingRoles(state: GameState, playerId: PlayerId): Role[] {
+  const { phase } = state;
+  if (phase.kind !== 'respond') return [];
+  if (!blockersFor(state, phase.action).includes(playerId)) return [];
+  return actionBlockers(phase.action.type, rulesOf(state)) ?? [];
+}
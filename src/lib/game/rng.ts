@@ -0,0 +1,39 @@
+/**
+ * Small seeded PRNG (mulberry32). The state is a plain number so it can live
+ * inside `GameState` and keep every transition pure and reproducible.
+ */
+export function nextRandom(state: number): [value: number, next: number] {
+  const next = (state + 0x6d2b79f5) | 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, next];
+}
+
+/** Fisher-Yates shuffle returning the shuffled copy and the next RNG state. */
+export function shuffle<T>(
+  items: readonly T[],
+  state: number
+): [shuffled: T[], next: number] {
+  const shuffled = [...items];
+  let rng = state;
+
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const [value, next] = nextRandom(rng);
+    rng = next;
+    const j = Math.floor(value * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  return [shuffled, rng];
+}
+
+/** Turns any string (e.g. a room id) into a 32-bit seed. */
+export function seedFrom(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
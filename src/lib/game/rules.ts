@@ -0,0 +1,122 @@
+import {
+  type Role,
+  type TurnActionType,
+  turnActionTypes,
+  type VariantRules,
+} from '@/lib/game/types';
+
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 6;
+
+export const BASE_RULES: VariantRules = {
+  allegiance: 'none',
+  inquisitor: false,
+};
+
+export const CARDS_PER_ROLE = 3;
+export const INFLUENCE_PER_PLAYER = 2;
+export const STARTING_COINS = 2;
+
+/** Holding this many coins at the start of a turn forces a Coup. */
+export const FORCED_COUP_COINS = 10;
+
+export const ACTION_COSTS: Partial<Record<TurnActionType, number>> = {
+  coup: 7,
+  assassinate: 3,
+  /** Converting yourself; converting someone else costs more. */
+  convert: 1,
+};
+
+/** Role a player claims by taking the action. */
+export const ACTION_CLAIMS: Partial<Record<TurnActionType, Role>> = {
+  tax: 'duke',
+  assassinate: 'assassin',
+  steal: 'captain',
+  exchange: 'ambassador',
+  examine: 'inquisitor',
+};
+
+/** Role a player claims not to hold by taking the action. */
+export const ACTION_DENIALS: Partial<Record<TurnActionType, Role>> = {
+  embezzle: 'duke',
+};
+
+/** Roles that can block the action. */
+export const ACTION_BLOCKERS: Partial<Record<TurnActionType, Role[]>> = {
+  foreign_aid: ['duke'],
+  assassinate: ['contessa'],
+  steal: ['captain', 'ambassador'],
+};
+
+/** Only the target may block these; Foreign Aid can be blocked by anyone. */
+export const TARGET_ONLY_BLOCKS: TurnActionType[] = ['assassinate', 'steal'];
+
+export const TARGETED_ACTIONS: TurnActionType[] = [
+  'coup',
+  'assassinate',
+  'steal',
+  'examine',
+];
+
+/** Actions that only exist in some variants. */
+export const INQUISITOR_ACTIONS: TurnActionType[] = ['examine'];
+export const REFORMATION_ACTIONS: TurnActionType[] = ['convert', 'embezzle'];
+
+export const ACTION_GAINS: Partial<Record<TurnActionType, number>> = {
+  income: 1,
+  foreign_aid: 2,
+  tax: 3,
+};
+
+export const STEAL_AMOUNT = 2;
+export const EXCHANGE_DRAW = 2;
+export const INQUISITOR_EXCHANGE_DRAW = 1;
+
+/** Conversions are paid into the treasury reserve. */
+export const CONVERT_OTHER_COST = 2;
+
+// ============================================================================
+// Variant Rules
+// ============================================================================
+
+/** The fifth role of the court deck. */
+export function fifthRole(rules: VariantRules): Role {
+  return rules.inquisitor ? 'inquisitor' : 'ambassador';
+}
+
+/** Roles dealt into the court deck, `CARDS_PER_ROLE` copies each. */
+export function courtRoles(rules: VariantRules): Role[] {
+  return ['duke', 'assassin', 'captain', fifthRole(rules), 'contessa'];
+}
+
+/** Turn actions the rules allow, in display order. */
+export function variantActions(rules: VariantRules): TurnActionType[] {
+  return turnActionTypes.filter(
+    (type) =>
+      (rules.inquisitor || !INQUISITOR_ACTIONS.includes(type)) &&
+      (rules.allegiance === 'factions' || !REFORMATION_ACTIONS.includes(type))
+  );
+}
+
+/** `ACTION_CLAIMS` with the Inquisitor standing in for the Ambassador. */
+export function actionClaim(
+  type: TurnActionType,
+  rules: VariantRules
+): Role | undefined {
+  const role = ACTION_CLAIMS[type];
+  return role === 'ambassador' ? fifthRole(rules) : role;
+}
+
+/** `ACTION_BLOCKERS` with the Inquisitor standing in for the Ambassador. */
+export function actionBlockers(
+  type: TurnActionType,
+  rules: VariantRules
+): Role[] | undefined {
+  return ACTION_BLOCKERS[type]?.map((role) =>
+    role === 'ambassador' ? fifthRole(rules) : role
+  );
+}
+
+export function exchangeDraw(rules: VariantRules): number {
+  return rules.inquisitor ? INQUISITOR_EXCHANGE_DRAW : EXCHANGE_DRAW;
+}
@@ -0,0 +1,196 @@
+export const roles = [
+  'duke',
+  'assassin',
+  'captain',
+  'ambassador',
+  'contessa',
+  /** Replaces the Ambassador in Inquisitor games. */
+  'inquisitor',
+] as const;
+
+export type Role = (typeof roles)[number];
+
+/** Actions a player can take on their own turn. */
+export const turnActionTypes = [
+  'income',
+  'foreign_aid',
+  'coup',
+  'tax',
+  'assassinate',
+  'steal',
+  'exchange',
+  'examine',
+  'convert',
+  'embezzle',
+] as const;
+
+export type TurnActionType = (typeof turnActionTypes)[number];
+
+/** Everything the engine accepts, including responses and follow-ups. */
+export const actionTypes = [
+  ...turnActionTypes,
+  'challenge',
+  'block',
+  'allow',
+  'reveal',
+  'lose_influence',
+  'keep',
+  'show',
+  'force_exchange',
+  'forfeit',
+] as const;
+
+export type ActionType = (typeof actionTypes)[number];
+
+export type PlayerId = string;
+
+/**
+ * How players are grouped: not at all, into Reformation factions that may
+ * switch sides, or into fixed teams that win together.
+ */
+export const allegianceModes = ['none', 'factions', 'teams'] as const;
+
+export type AllegianceMode = (typeof allegianceModes)[number];
+
+export const factions = ['loyalist', 'reformist'] as const;
+
+export type Faction = (typeof factions)[number];
+
+/** Rules a game is dealt with; the base game is `BASE_RULES`. */
+export interface VariantRules {
+  allegiance: AllegianceMode;
+  /** The Inquisitor replaces the Ambassador in the court deck. */
+  inquisitor: boolean;
+}
+
+export interface Influence {
+  role: Role;
+  /** Revealed influence is lost and stays face-up. */
+  revealed: boolean;
+}
+
+export interface PlayerState {
+  id: PlayerId;
+  coins: number;
+  influences: Influence[];
+  /** Faction or team; only set when the rules group players. */
+  faction?: Faction;
+}
+
+export interface DeclaredAction {
+  type: TurnActionType;
+  actor: PlayerId;
+  target?: PlayerId;
+}
+
+/** What happens once a pending influence loss has been resolved. */
+export type Continuation =
+  | { kind: 'end-turn' }
+  | { kind: 'block-window'; action: DeclaredAction }
+  | { kind: 'resolve'; action: DeclaredAction };
+
+export type Phase =
+  /** The current player must declare an action. */
+  | { kind: 'turn' }
+  /** Other players may challenge or block the declared action, or allow it. */
+  | {
+      kind: 'respond';
+      action: DeclaredAction;
+      challengeable: boolean;
+      allowed: PlayerId[];
+    }
+  /** Anyone but the blocker may challenge the block, or allow it. */
+  | {
+      kind: 'respond-block';
+      action: DeclaredAction;
+      blocker: PlayerId;
+      role: Role;
+      allowed: PlayerId[];
+    }
+  /** A challenged player must reveal a card, hopefully the claimed role. */
+  | {
+      kind: 'prove';
+      action: DeclaredAction;
+      claimant: PlayerId;
+      challenger: PlayerId;
+      role: Role;
+      /** The challenge targets a block rather than the action. */
+      block: boolean;
+    }
+  | { kind: 'lose-influence'; player: PlayerId; then: Continuation }
+  /** The Ambassador picks which cards to keep from hand + drawn cards. */
+  | { kind: 'exchange'; player: PlayerId; drawn: Role[] }
+  /** An examined player picks which card to show the Inquisitor. */
+  | { kind: 'show'; player: PlayerId; examiner: PlayerId }
+  /** The Inquisitor decides whether the shown card must be exchanged. */
+  | { kind: 'examine'; player: PlayerId; target: PlayerId; card: number }
+  /** In team games every member of `team` wins, eliminated or not. */
+  | { kind: 'game-over'; winner: PlayerId; team?: Faction };
+
+export interface GameState {
+  players: PlayerState[];
+  /** Court deck; cards are drawn from the front. */
+  deck: Role[];
+  /** Index into `players` of whose turn it is. */
+  turn: number;
+  /** Number of turns started so far, beginning at 1. */
+  turnNumber: number;
+  phase: Phase;
+  /** Seeded RNG state, advanced whenever the deck is shuffled. */
+  rng: number;
+  /** Missing from games dealt before variants existed, which are base games. */
+  rules?: VariantRules;
+  /** Coins paid for conversions, up for Embezzlement. */
+  treasury?: number;
+}
+
+export type GameAction =
+  | { type: 'income'; player: PlayerId }
+  | { type: 'foreign_aid'; player: PlayerId }
+  | { type: 'coup'; player: PlayerId; target: PlayerId }
+  | { type: 'tax'; player: PlayerId }
+  | { type: 'assassinate'; player: PlayerId; target: PlayerId }
+  | { type: 'steal'; player: PlayerId; target: PlayerId }
+  | { type: 'exchange'; player: PlayerId }
+  | { type: 'examine'; player: PlayerId; target: PlayerId }
+  /** Converts `target`, or the player themselves without one. */
+  | { type: 'convert'; player: PlayerId; target?: PlayerId }
+  | { type: 'embezzle'; player: PlayerId }
+  | { type: 'challenge'; player: PlayerId }
+  | { type: 'block'; player: PlayerId; role: Role }
+  | { type: 'allow'; player: PlayerId }
+  /** Answers a challenge by showing the card at `card` in the hand. */
+  | { type: 'reveal'; player: PlayerId; card: number }
+  | { type: 'lose_influence'; player: PlayerId; card: number }
+  /** Indexes into the hidden hand followed by the drawn cards. */
+  | { type: 'keep'; player: PlayerId; cards: number[] }
+  /** Shows the Inquisitor the card at `card` in the hand. */
+  | { type: 'show'; player: PlayerId; card: number }
+  /** Makes the examined player swap the shown card; `allow` lets them keep it. */
+  | { type: 'force_exchange'; player: PlayerId }
+  /** Reveals all of the player's influence; allowed at any time. */
+  | { type: 'forfeit'; player: PlayerId };
+
+export type RuleViolationCode =
+  | 'game-over'
+  | 'not-in-variant'
+  | 'unknown-player'
+  | 'eliminated'
+  | 'wrong-phase'
+  | 'not-your-turn'
+  | 'must-coup'
+  | 'insufficient-coins'
+  | 'invalid-target'
+  | 'cannot-challenge'
+  | 'cannot-block'
+  | 'already-responded'
+  | 'invalid-card';
+
+export interface RuleViolation {
+  code: RuleViolationCode;
+  message: string;
+}
+
+export type ActionResult =
+  | { ok: true; state: GameState }
+  | { ok: false; violation: RuleViolation };
@@ -0,0 +1,136 @@
+import {
+  blockingRoles,
+  canTarget,
+  legalActionTypes,
+  pendingPlayers,
+  rulesOf,
+} from '@/lib/game/engine';
+import type {
+  ActionType,
+  GameState,
+  Phase,
+  PlayerId,
+  PlayerState,
+  Role,
+  VariantRules,
+} from '@/lib/game/types';
+
+/**
+ * What a single seat is allowed to see of the game. Hidden influence of other
+ * players and the court deck are never included, so a view can be sent to a
+ * client as-is.
+ */
+
+export interface InfluenceView {
+  /** `null` when the card is face-down and belongs to someone else. */
+  role: Role | null;
+  revealed: boolean;
+}
+
+export interface PlayerView extends Omit<PlayerState, 'influences'> {
+  influences: InfluenceView[];
+}
+
+export type PhaseView =
+  | Exclude<Phase, { kind: 'exchange' | 'examine' }>
+  | {
+      kind: 'exchange';
+      player: PlayerId;
+      /** Only the exchanging player sees the drawn roles. */
+      drawn: (Role | null)[];
+    }
+  | (Extract<Phase, { kind: 'examine' }> & {
+      /** The shown card, seen only by the Inquisitor and its owner. */
+      role: Role | null;
+    });
+
+export interface GameView {
+  /** Seat the view was made for; `null` for spectators. */
+  viewer: PlayerId | null;
+  rules: VariantRules;
+  players: PlayerView[];
+  deckSize: number;
+  /** Coins in the Reformation treasury reserve. */
+  treasury: number;
+  turn: number;
+  turnNumber: number;
+  phase: PhaseView;
+  /** Players the game is waiting on. */
+  waitingOn: PlayerId[];
+  /** Action types the viewer may submit right now. */
+  legal: ActionType[];
+  /** Roles the viewer may claim to block the pending action. */
+  blockingRoles: Role[];
+  /** Players the viewer may Coup, Assassinate, Steal from or Examine. */
+  targets: PlayerId[];
+}
+
+/** Top-level fields that changed between two views. */
+export type GameViewPatch = Partial<GameView>;
+
+function viewPlayer(player: PlayerState, viewer: PlayerId | null): PlayerView {
+  return {
+    ...player,
+    influences: player.influences.map((influence) =>
+      influence.revealed || player.id === viewer
+        ? influence
+        : { role: null, revealed: false }
+    ),
+  };
+}
+
+function viewPhase(state: GameState, viewer: PlayerId | null): PhaseView {
+  const { phase } = state;
+
+  switch (phase.kind) {
+    case 'exchange':
+      return phase.player === viewer
+        ? phase
+        : { ...phase, drawn: phase.drawn.map(() => null) };
+    case 'examine': {
+      const shown = state.players.find((p) => p.id === phase.target)
+        ?.influences[phase.card];
+      const sees = viewer === phase.player || viewer === phase.target;
+      return { ...phase, role: sees ? (shown?.role ?? null) : null };
+    }
+    default:
+      return phase;
+  }
+}
+
+export function viewFor(state: GameState, viewer: PlayerId | null): GameView {
+  return {
+    viewer,
+    rules: rulesOf(state),
+    players: state.players.map((player) => viewPlayer(player, viewer)),
+    deckSize: state.deck.length,
+    treasury: state.treasury ?? 0,
+    turn: state.turn,
+    turnNumber: state.turnNumber,
+    phase: viewPhase(state, viewer),
+    waitingOn: pendingPlayers(state),
+    legal: viewer ? legalActionTypes(state, viewer) : [],
+    blockingRoles: viewer ? blockingRoles(state, viewer) : [],
+    targets: viewer
+      ? state.players
+          .filter((player) => canTarget(state, viewer, player.id))
+          .map((player) => player.id)
+      : [],
+  };
+}
+
+export function diffViews(previous: GameView, next: GameView): GameViewPatch {
+  const patch: Record<string, unknown> = {};
+
+  for (const key of Object.keys(next) as (keyof GameView)[]) {
+    if (JSON.stringify(previous[key]) !== JSON.stringify(next[key])) {
+      patch[key] = next[key];
+    }
+  }
+
+  return patch as GameViewPatch;
+}
+
+export function applyPatch(view: GameView, patch: GameViewPatch): GameView {
+  return { ...view, ...patch };
+}
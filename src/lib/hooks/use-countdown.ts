@@ -0,0 +1,31 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+function secondsUntil(deadline: number): number {
+  return Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+}
+
+/**
+ * Whole seconds left until `deadline` (epoch milliseconds), ticking down to 0.
+ * `null` while there is no deadline. The server decides what happens at 0.
+ */
+export function useCountdown(deadline: number | null): number | null {
+  const [remaining, setRemaining] = useState(() =>
+    deadline === null ? null : secondsUntil(deadline)
+  );
+
+  useEffect(() => {
+    if (deadline === null) {
+      setRemaining(null);
+      return;
+    }
+
+    const tick = () => setRemaining(secondsUntil(deadline));
+    tick();
+    const interval = setInterval(tick, 250);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  return remaining;
+}
@@ -0,0 +1,125 @@
+'use client';
+
+import { startTransition, useEffect, useEffectEvent, useState } from 'react';
+
+import { applyPatch, type GameView } from '@/lib/game/view';
+import type { RoomDiffEvent, RoomSyncEvent } from '@/lib/realtime';
+
+/** Back-off between reconnects after the browser gives up on a stream. */
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10_000];
+
+interface RoomEventsState {
+  view: GameView | null;
+  /** Sequence of the last action reflected in `view`. */
+  sequence: number | null;
+  /** When the room's clock runs out, in epoch milliseconds. */
+  deadline: number | null;
+}
+
+const EMPTY_STATE: RoomEventsState = {
+  view: null,
+  sequence: null,
+  deadline: null,
+};
+
+type UseRoomEventsOptions = {
+  /** Server-rendered view to show until the stream catches up. */
+  readonly initial?: RoomEventsState;
+  /** Called when seats or the room status change. */
+  readonly onLobbyChange?: () => void;
+};
+
+/**
+ * Subscribes to a room's event stream and keeps the caller's game view up to
+ * date. Reconnects resume from the last applied event, and a diff that does
+ * not line up with the current view forces a resync. Updates are applied in
+ * a transition so `<ViewTransition>` can animate them.
+ */
+export function useRoomEvents(
+  code: string,
+  { initial, onLobbyChange }: UseRoomEventsOptions = {}
+) {
+  const [state, setState] = useState<RoomEventsState>(initial ?? EMPTY_STATE);
+  const [connected, setConnected] = useState(false);
+
+  const handleLobbyChange = useEffectEvent(() => onLobbyChange?.());
+  const initialState = useEffectEvent(
+    (): RoomEventsState => initial ?? EMPTY_STATE
+  );
+
+  useEffect(() => {
+    let current: RoomEventsState = initialState();
+    let source: EventSource | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let disposed = false;
+
+    const update = (next: RoomEventsState) => {
+      current = next;
+      startTransition(() => setState(next));
+    };
+
+    const reconnect = () => {
+      source?.close();
+      setConnected(false);
+      if (disposed) return;
+
+      const delay =
+        RECONNECT_DELAYS_MS[Math.min(attempts, RECONNECT_DELAYS_MS.length - 1)];
+      attempts++;
+      timer = setTimeout(connect, delay);
+    };
+
+    function connect() {
+      const url = new URL(`/rooms/${code}/events`, window.location.origin);
+      if (current.sequence !== null) {
+        url.searchParams.set('lastEventId', String(current.sequence));
+      }
+
+      source = new EventSource(url);
+
+      source.addEventListener('open', () => {
+        attempts = 0;
+        setConnected(true);
+      });
+
+      source.addEventListener('sync', (event) => {
+        const { sequence, view, deadline }: RoomSyncEvent = JSON.parse(
+          event.data
+        );
+        update({ sequence, view, deadline });
+      });
+
+      source.addEventListener('diff', (event) => {
+        const diff: RoomDiffEvent = JSON.parse(event.data);
+        if (!current.view || current.sequence !== diff.from) {
+          reconnect();
+          return;
+        }
+        update({
+          sequence: diff.sequence,
+          view: applyPatch(current.view, diff.patch),
+          deadline: diff.deadline,
+        });
+      });
+
+      source.addEventListener('lobby', () => handleLobbyChange());
+
+      source.addEventListener('error', () => {
+        setConnected(false);
+        // While CONNECTING the browser retries by itself with Last-Event-ID
+        if (source?.readyState === EventSource.CLOSED) reconnect();
+      });
+    }
+
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(timer);
+      source?.close();
+    };
+  }, [code]);
+
+  return { ...state, connected };
+}
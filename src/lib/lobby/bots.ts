@@ -0,0 +1,57 @@
+import { type LoadedGame, loadHistory } from '@/lib/db/games';
+import { strategies } from '@/lib/game/bots';
+import {
+  createRandom,
+  legalMoves,
+  toPublicAction,
+} from '@/lib/game/bots/strategy';
+import { pendingPlayers } from '@/lib/game/engine';
+import { seedFrom } from '@/lib/game/rng';
+import type { GameState } from '@/lib/game/types';
+import { viewFor } from '@/lib/game/view';
+import { applyRoomAction } from '@/lib/lobby/game';
+import type { RoomWithSeats } from '@/lib/lobby/rooms';
+
+/** The first bot seat the game is waiting on, if any. */
+export function waitingBot(room: RoomWithSeats, state: GameState) {
+  const waiting = new Set(pendingPlayers(state));
+  return room.seats.find((s) => s.bot && waiting.has(s.id));
+}
+
+/**
+ * Moves the first bot the game is waiting on. Bots see only their own seat's
+ * view and submit through `applyRoomAction`, like everyone else. Throws when
+ * the move is illegal or rejected.
+ */
+export async function playBot(
+  room: RoomWithSeats,
+  game: LoadedGame
+): Promise<void> {
+  const seat = waitingBot(room, game.state);
+  if (!seat?.bot) return;
+
+  const view = viewFor(game.state, seat.id);
+  const history = await loadHistory(room.id);
+  const action = strategies[seat.bot].choose({
+    view,
+    history: history.map(toPublicAction),
+    // Seeded per decision so a bot game can be replayed exactly
+    random: createRandom(seedFrom(`${seat.id}:${game.sequence}`)),
+  });
+
+  const legal = legalMoves(view).some(
+    (move) => JSON.stringify(move) === JSON.stringify(action)
+  );
+  if (!legal) {
+    throw new Error(
+      `The ${seat.bot} bot in seat ${seat.position} chose ${action.type}, which is not legal`
+    );
+  }
+
+  const result = await applyRoomAction(room, action, game.sequence);
+  if (!result.ok) {
+    throw new Error(
+      `The ${seat.bot} bot in seat ${seat.position} played ${action.type}, which was rejected: ${result.violation.message}`
+    );
+  }
+}
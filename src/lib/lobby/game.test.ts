@@ -0,0 +1,111 @@
+import { describe, expect, test } from 'bun:test';
+
+import { eq } from 'drizzle-orm';
+
+import { loadGame } from '@/lib/db/games';
+import { INITIAL_RATING, players } from '@/lib/db/schema/players';
+import { roomTimers } from '@/lib/db/schema/timers';
+import { setupTestDatabase } from '@/lib/db/testing';
+import { writeTransaction } from '@/lib/db/transactions';
+import { BASE_RULES } from '@/lib/game/rules';
+import { applyRoomAction } from '@/lib/lobby/game';
+import { rateGame } from '@/lib/lobby/ratings';
+import {
+  createRoom,
+  getRoomByCode,
+  joinRoom,
+  type RoomWithSeats,
+  setReady,
+  startRoom,
+} from '@/lib/lobby/rooms';
+
+const database = setupTestDatabase();
+
+/** A running two-player game between two people, on a turn clock. */
+async function startDuel(): Promise<RoomWithSeats> {
+  const [host, guest] = await database()
+    .db.insert(players)
+    .values([{ name: 'Host' }, { name: 'Guest' }])
+    .returning();
+  const { code } = await createRoom(host.id, {
+    maxPlayers: 2,
+    turnSeconds: 60,
+    responseSeconds: 30,
+    rules: BASE_RULES,
+  });
+  await joinRoom(guest.id, code);
+  await setReady(guest.id, code, true);
+  await startRoom(host.id, code);
+
+  const room = await getRoomByCode(code);
+  if (!room) throw new Error('The room is gone');
+  return room;
+}
+
+function timerOf(roomId: string) {
+  return database().db.query.roomTimers.findFirst({
+    where: eq(roomTimers.roomId, roomId),
+  });
+}
+
+describe('applyRoomAction', () => {
+  test('the move that ends the game also finishes and rates the room', async () => {
+    const room = await startDuel();
+    const [hostSeat, guestSeat] = room.seats;
+    expect(await timerOf(room.id)).toBeDefined();
+
+    const result = await applyRoomAction(room, {
+      type: 'forfeit',
+      player: guestSeat.id,
+    });
+    expect(result.ok).toBe(true);
+
+    const finished = await getRoomByCode(room.code);
+    expect(finished?.status).toBe('finished');
+    expect(finished?.winnerId).toBe(hostSeat.playerId);
+    expect(
+      finished?.seats.map(({ won, ratingDelta }) => ({ won, ratingDelta }))
+    ).toEqual([
+      { won: true, ratingDelta: 16 },
+      { won: false, ratingDelta: -16 },
+    ]);
+    expect(await timerOf(room.id)).toBeUndefined();
+  });
+
+  test('a failure after the append rolls the move back', async () => {
+    const room = await startDuel();
+    const [hostSeat] = room.seats;
+
+    await expect(
+      applyRoomAction(
+        room,
+        { type: 'income', player: hostSeat.id },
+        undefined,
+        async () => {
+          throw new Error('Disk full');
+        }
+      )
+    ).rejects.toThrow('Disk full');
+
+    expect((await loadGame(room.id)).sequence).toBe(0);
+    expect((await getRoomByCode(room.code))?.status).toBe('playing');
+  });
+});
+
+describe('rateGame', () => {
+  test('rating a finished game again changes nothing', async () => {
+    const room = await startDuel();
+    const [hostSeat, guestSeat] = room.seats;
+    await applyRoomAction(room, { type: 'forfeit', player: guestSeat.id });
+
+    const finished = await getRoomByCode(room.code);
+    if (!finished) throw new Error('The room is gone');
+    await writeTransaction((tx) => rateGame(finished, [hostSeat.id], tx));
+
+    const host = await database().db.query.players.findFirst({
+      where: eq(players.id, hostSeat.playerId),
+    });
+    expect(host).toMatchObject({ rating: INITIAL_RATING + 16, ratedGames: 1 });
+    expect((await getRoomByCode(room.code))?.seats[0].ratingDelta).toBe(16);
+  });
+});
@@ -0,0 +1,200 @@
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+import { z } from 'zod';
+
+import { loadGame, type SubmitResult, submitAction } from '@/lib/db/games';
+import { rooms } from '@/lib/db/schema/rooms';
+import { seats } from '@/lib/db/schema/seats';
+import { type Executor, writeTransaction } from '@/lib/db/transactions';
+import { isAlive, winnersOf } from '@/lib/game/engine';
+import {
+  type GameAction,
+  type GameState,
+  type RuleViolationCode,
+  roles,
+} from '@/lib/game/types';
+import { viewFor } from '@/lib/game/view';
+import { rateGame } from '@/lib/lobby/ratings';
+import {
+  getRoomByCode,
+  LobbyError,
+  type RoomWithSeats,
+} from '@/lib/lobby/rooms';
+import {
+  continuesWindow,
+  getDeadline,
+  scheduleTimer,
+} from '@/lib/lobby/timers';
+import { publishRoomChange } from '@/lib/realtime';
+
+/** A game action as sent by a client; the server fills in the seat. */
+export const moveSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.enum(['income', 'foreign_aid', 'tax', 'exchange', 'embezzle']),
+  }),
+  z.object({
+    type: z.enum(['coup', 'assassinate', 'steal', 'examine']),
+    target: z.string(),
+  }),
+  z.object({ type: z.literal('convert'), target: z.string().optional() }),
+  z.object({ type: z.enum(['challenge', 'allow', 'force_exchange']) }),
+  z.object({ type: z.literal('block'), role: z.enum(roles) }),
+  z.object({
+    type: z.enum(['reveal', 'lose_influence', 'show']),
+    card: z.number().int().min(0),
+  }),
+  z.object({
+    type: z.literal('keep'),
+    cards: z.array(z.number().int().min(0)).max(4),
+  }),
+]);
+
+export type Move = z.infer<typeof moveSchema>;
+
+/** Engine messages name seat ids, so players get these instead. */
+const VIOLATION_MESSAGES: Record<RuleViolationCode, string> = {
+  'game-over': 'The game is over',
+  'not-in-variant': 'That action is not played in this variant',
+  'unknown-player': 'You are not playing in this game',
+  eliminated: 'You have been eliminated',
+  'wrong-phase': 'That move is not possible right now',
+  'not-your-turn': 'It is not your turn',
+  'must-coup': 'With 10 or more coins you must Coup',
+  'insufficient-coins': 'You do not have enough coins',
+  'invalid-target': 'You cannot target that player',
+  'cannot-challenge': 'That action cannot be challenged',
+  'cannot-block': 'You cannot block that action',
+  'already-responded': 'You have already responded',
+  'invalid-card': 'Pick a valid card',
+};
+
+function seatOf(room: RoomWithSeats, playerId: string | undefined) {
+  return room.seats.find((seat) => seat.playerId === playerId);
+}
+
+/** The room's game as seen from the player's seat, or as a spectator. */
+export async function loadTable(room: RoomWithSeats, playerId?: string) {
+  const game = await loadGame(room.id);
+  return {
+    sequence: game.sequence,
+    view: viewFor(game.state, seatOf(room, playerId)?.id ?? null),
+    deadline: await getDeadline(room.id, game.sequence),
+  };
+}
+
+/**
+ * Mirrors the folded game onto the room and seat rows used for listings, and
+ * rates the game once it is over.
+ */
+async function syncRoom(room: RoomWithSeats, state: GameState, tx: Executor) {
+  const eliminated = state.players
+    .filter((player) => !isAlive(player))
+    .map((player) => player.id);
+
+  if (eliminated.length > 0) {
+    await tx
+      .update(seats)
+      .set({ eliminatedAt: new Date() })
+      .where(and(inArray(seats.id, eliminated), isNull(seats.eliminatedAt)));
+  }
+
+  const turnSeat = room.seats.find(
+    (seat) => seat.id === state.players[state.turn].id
+  );
+
+  if (state.phase.kind !== 'game-over') {
+    await tx
+      .update(rooms)
+      .set({ turnPosition: turnSeat?.position ?? null })
+      .where(eq(rooms.id, room.id));
+    return;
+  }
+
+  const { winner } = state.phase;
+  const winners = winnersOf(state);
+  await tx
+    .update(rooms)
+    .set({
+      status: 'finished',
+      finishedAt: new Date(),
+      turnPosition: null,
+      winnerId: room.seats.find((seat) => seat.id === winner)?.playerId,
+    })
+    .where(eq(rooms.id, room.id));
+  await tx
+    .update(seats)
+    .set({ won: inArray(seats.id, winners) })
+    .where(eq(seats.roomId, room.id));
+  await rateGame(room, winners, tx);
+}
+
+/**
+ * Appends an action to the room's game and brings everything derived from it
+ * up to date: the room and seat rows, the ratings once the game ends, and the
+ * clock for the next decision. All of it commits together, so a failure
+ * never leaves a finished game on a room that is still playing, and so do
+ * the caller's own writes in `alongside`, run once the action is accepted.
+ * See `submitAction` for `after`.
+ */
+export async function applyRoomAction(
+  room: RoomWithSeats,
+  action: GameAction,
+  after?: number,
+  alongside?: (tx: Executor) => Promise<void>
+): Promise<SubmitResult> {
+  const result = await writeTransaction(async (tx) => {
+    const result = await submitAction(room.id, action, after, tx);
+    if (!result.ok) return result;
+
+    await syncRoom(room, result.state, tx);
+    await scheduleTimer(
+      room,
+      result.state,
+      result.sequence,
+      continuesWindow(result.state, action),
+      tx
+    );
+    await alongside?.(tx);
+    return result;
+  });
+  if (!result.ok) return result;
+
+  // Streams pick up the move and the new deadline
+  publishRoomChange(room.id, 'game');
+  if (result.state.phase.kind === 'game-over') {
+    publishRoomChange(room.id, 'lobby');
+  }
+  return result;
+}
+
+/** Plays a move for the player's seat in a running game. */
+export async function playMove(
+  playerId: string,
+  code: string,
+  move: Move
+): Promise<void> {
+  const room = await getRoomByCode(code);
+  if (!room) throw new LobbyError('Room not found');
+  if (room.status !== 'playing') {
+    throw new LobbyError('This game is not running');
+  }
+
+  const seat = seatOf(room, playerId);
+  if (!seat) throw new LobbyError('You are not playing in this room');
+
+  const result = await applyRoomAction(
+    room,
+    { ...move, player: seat.id } as GameAction,
+    undefined,
+    async (tx) => {
+      if (seat.timeouts > 0) {
+        await tx
+          .update(seats)
+          .set({ timeouts: 0 })
+          .where(eq(seats.id, seat.id));
+      }
+    }
+  );
+  if (!result.ok) {
+    throw new LobbyError(VIOLATION_MESSAGES[result.violation.code]);
+  }
+}
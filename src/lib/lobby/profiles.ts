@@ -0,0 +1,198 @@
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gt,
+  inArray,
+  isNotNull,
+  ne,
+  type SQL,
+  sql,
+} from 'drizzle-orm';
+
+import { db } from '@/lib/db/client';
+import { actions } from '@/lib/db/schema/actions';
+import { players } from '@/lib/db/schema/players';
+import { rooms } from '@/lib/db/schema/rooms';
+import { seats } from '@/lib/db/schema/seats';
+import type { Role } from '@/lib/game/types';
+
+/**
+ * Per-player statistics, aggregated from finished rooms and their action log;
+ * games still in play do not count yet.
+ * Claims and challenges are judged when the action is stored (see
+ * `actions.truthful`), so actions from before that was recorded are left out.
+ */
+
+export const MATCHES_PER_PAGE = 10;
+
+export const LEADERBOARD_SIZE = 50;
+
+export interface PlayerStats {
+  played: number;
+  wins: number;
+  /** Actions and blocks that claimed a role. */
+  claims: number;
+  bluffs: number;
+  /** The role bluffed most often; ties go to the first alphabetically. */
+  favoriteBluff: Role | null;
+  challenges: number;
+  /** Challenges that caught a bluff. */
+  challengesWon: number;
+}
+
+export interface MatchSummary {
+  code: string;
+  variant: string;
+  finishedAt: Date | null;
+  won: boolean;
+  ratingDelta: number | null;
+  /** Everyone at the table, in seat order. */
+  lineup: { playerId: string; name: string; bot: boolean }[];
+}
+
+/** The player's seats in finished rooms; the query must join `rooms`. */
+function finishedSeatsOf(playerId: string) {
+  return and(eq(seats.playerId, playerId), eq(rooms.status, 'finished'));
+}
+
+/** Whether the seat won, alone or with its team. */
+const seatWon = sql`${seats.won} = 1`;
+
+/** Whether the claim judged on the action was a lie. */
+const claimFalse = sql`${actions.truthful} = 0`;
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+export function getPlayerById(playerId: string) {
+  return db.query.players.findFirst({
+    where: eq(players.id, playerId),
+    columns: { id: true, name: true, rating: true, ratedGames: true },
+    with: { user: { columns: { username: true } } },
+  });
+}
+
+/**
+ * Judged claims among the player's actions in finished games matching
+ * `where`, and how many of them were lies.
+ */
+function countClaims(playerId: string, where: SQL) {
+  return db
+    .select({
+      total: count(),
+      lies: count(sql`case when ${claimFalse} then 1 end`),
+    })
+    .from(actions)
+    .innerJoin(seats, eq(seats.id, actions.seatId))
+    .innerJoin(rooms, eq(rooms.id, seats.roomId))
+    .where(and(finishedSeatsOf(playerId), isNotNull(actions.truthful), where));
+}
+
+export async function getPlayerStats(playerId: string): Promise<PlayerStats> {
+  const [[games], [claims], [challenges], [favorite]] = await Promise.all([
+    db
+      .select({
+        played: count(),
+        wins: count(sql`case when ${seatWon} then 1 end`),
+      })
+      .from(seats)
+      .innerJoin(rooms, eq(rooms.id, seats.roomId))
+      .where(finishedSeatsOf(playerId)),
+    countClaims(playerId, ne(actions.type, 'challenge')),
+    // A challenge is judged by the claim it disputes
+    countClaims(playerId, eq(actions.type, 'challenge')),
+    db
+      .select({ role: actions.claim, bluffs: count() })
+      .from(actions)
+      .innerJoin(seats, eq(seats.id, actions.seatId))
+      .innerJoin(rooms, eq(rooms.id, seats.roomId))
+      .where(
+        and(
+          finishedSeatsOf(playerId),
+          ne(actions.type, 'challenge'),
+          eq(actions.truthful, false)
+        )
+      )
+      .groupBy(actions.claim)
+      .orderBy(desc(count()), asc(actions.claim))
+      .limit(1),
+  ]);
+
+  return {
+    played: games.played,
+    wins: games.wins,
+    claims: claims.total,
+    bluffs: claims.lies,
+    favoriteBluff: favorite?.role ?? null,
+    challenges: challenges.total,
+    challengesWon: challenges.lies,
+  };
+}
+
+/** One page of the player's finished games, newest first. */
+export async function getMatchHistory(
+  playerId: string,
+  page: number
+): Promise<{ matches: MatchSummary[]; hasMore: boolean }> {
+  const rows = await db
+    .select({
+      roomId: rooms.id,
+      code: rooms.code,
+      variant: rooms.variant,
+      finishedAt: rooms.finishedAt,
+      won: sql<boolean>`${seatWon}`.mapWith(Boolean),
+      ratingDelta: seats.ratingDelta,
+    })
+    .from(seats)
+    .innerJoin(rooms, eq(rooms.id, seats.roomId))
+    .where(finishedSeatsOf(playerId))
+    .orderBy(desc(rooms.finishedAt), desc(rooms.id))
+    .limit(MATCHES_PER_PAGE + 1)
+    .offset((page - 1) * MATCHES_PER_PAGE);
+
+  const shown = rows.slice(0, MATCHES_PER_PAGE);
+  const lineups =
+    shown.length === 0
+      ? []
+      : await db.query.seats.findMany({
+          where: inArray(
+            seats.roomId,
+            shown.map((row) => row.roomId)
+          ),
+          columns: { roomId: true, playerId: true, bot: true },
+          with: { player: { columns: { name: true } } },
+          orderBy: asc(seats.position),
+        });
+
+  return {
+    matches: shown.map(({ roomId, ...row }) => ({
+      ...row,
+      lineup: lineups
+        .filter((seat) => seat.roomId === roomId)
+        .map((seat) => ({
+          playerId: seat.playerId,
+          name: seat.player.name,
+          bot: seat.bot !== null,
+        })),
+    })),
+    hasMore: rows.length > MATCHES_PER_PAGE,
+  };
+}
+
+/** The highest rated people who have finished at least one rated game. */
+export function getLeaderboard() {
+  return db.query.players.findMany({
+    where: gt(players.ratedGames, 0),
+    columns: { id: true, name: true, rating: true, ratedGames: true },
+    orderBy: [desc(players.rating), asc(players.name)],
+    limit: LEADERBOARD_SIZE,
+  });
+}
+
+export type LeaderboardEntry = Awaited<
+  ReturnType<typeof getLeaderboard>
+>[number];
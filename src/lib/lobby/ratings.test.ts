@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'bun:test';
+
+import { expectedScore, ratingChanges } from '@/lib/lobby/ratings';
+
+const players = (...ratings: number[]) =>
+  ratings.map((rating, i) => ({ id: `p${i}`, rating }));
+
+describe('expectedScore', () => {
+  test('equal ratings are an even game', () => {
+    expect(expectedScore(1200, 1200)).toBe(0.5);
+  });
+
+  test('400 points make the favorite ten times as likely to win', () => {
+    expect(expectedScore(1600, 1200)).toBeCloseTo(10 / 11);
+    expect(expectedScore(1600, 1200) + expectedScore(1200, 1600)).toBeCloseTo(
+      1
+    );
+  });
+});
+
+describe('ratingChanges', () => {
+  test('a two-player game moves both ratings by the same amount', () => {
+    expect(ratingChanges(players(1200, 1200), ['p0'])).toEqual(
+      new Map([
+        ['p0', 16],
+        ['p1', -16],
+      ])
+    );
+  });
+
+  test('beating a weaker player earns less', () => {
+    expect(ratingChanges(players(1400, 1200), ['p0'])).toEqual(
+      new Map([
+        ['p0', 8],
+        ['p1', -8],
+      ])
+    );
+  });
+
+  test('pairings are weighted by 1/losers', () => {
+    // Two on two: each winner beats each loser at half the usual K
+    expect(
+      ratingChanges(players(1200, 1200, 1200, 1200), ['p0', 'p1'])
+    ).toEqual(
+      new Map([
+        ['p0', 16],
+        ['p1', 16],
+        ['p2', -16],
+        ['p3', -16],
+      ])
+    );
+    // One against three: the winner gains what a two-player win gives
+    expect(
+      ratingChanges(players(1200, 1200, 1200, 1200), ['p0']).get('p0')
+    ).toBe(16);
+  });
+
+  test('changes are rounded per player', () => {
+    // Each loser gives up 16/3 points
+    expect(ratingChanges(players(1200, 1200, 1200, 1200), ['p0'])).toEqual(
+      new Map([
+        ['p0', 16],
+        ['p1', -5],
+        ['p2', -5],
+        ['p3', -5],
+      ])
+    );
+  });
+
+  test('a game won by a bot alone changes no rating', () => {
+    expect(ratingChanges(players(1200, 1200), ['bot']).size).toBe(0);
+  });
+});
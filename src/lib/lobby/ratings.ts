@@ -0,0 +1,103 @@
+import { and, eq, inArray, isNull, sql } from 'drizzle-orm';
+
+import { players } from '@/lib/db/schema/players';
+import { seats } from '@/lib/db/schema/seats';
+import type { Executor } from '@/lib/db/transactions';
+import type { RoomWithSeats } from '@/lib/lobby/rooms';
+
+/**
+ * Elo ratings for people. A finished game counts as each winner beating each
+ * loser once; players on the same side are not ranked against each other.
+ * Bots are not rated, and games without a person on both sides, such as one
+ * won by a bot alone, leave every rating alone.
+ */
+
+/** Most a two-player game can move a rating. */
+const K_FACTOR = 32;
+
+export interface RatedPlayer {
+  id: string;
+  rating: number;
+}
+
+/** Chance that a player rated `rating` beats one rated `opponent`. */
+export function expectedScore(rating: number, opponent: number): number {
+  return 1 / (1 + 10 ** ((opponent - rating) / 400));
+}
+
+/**
+ * Rating change per player id. Each pairing is weighted by 1/losers, so a game
+ * moves every winner about as far as a two-player game does.
+ */
+export function ratingChanges(
+  rated: RatedPlayer[],
+  winnerIds: string[]
+): Map<string, number> {
+  const winners = rated.filter((player) => winnerIds.includes(player.id));
+  const losers = rated.filter((player) => !winnerIds.includes(player.id));
+  const changes = new Map<string, number>();
+  if (winners.length === 0 || losers.length === 0) return changes;
+
+  const k = K_FACTOR / losers.length;
+  const totals = new Map(rated.map((player) => [player.id, 0]));
+
+  for (const winner of winners) {
+    for (const loser of losers) {
+      const change = k * (1 - expectedScore(winner.rating, loser.rating));
+      totals.set(winner.id, (totals.get(winner.id) ?? 0) + change);
+      totals.set(loser.id, (totals.get(loser.id) ?? 0) - change);
+    }
+  }
+  for (const [id, total] of totals) changes.set(id, Math.round(total));
+
+  return changes;
+}
+
+/**
+ * Rates a game that just ended, and records each seat's change. Run inside
+ * the transaction that records the end of the game; seats already carrying a
+ * change are skipped, so rating a game twice moves no rating twice.
+ */
+export async function rateGame(
+  room: RoomWithSeats,
+  winnerSeatIds: string[],
+  tx: Executor
+): Promise<void> {
+  const people = room.seats.filter((seat) => seat.bot === null);
+  const winners = people.filter((seat) => winnerSeatIds.includes(seat.id));
+  if (winners.length === 0 || winners.length === people.length) return;
+
+  // Fresh ratings, in case another game of theirs ended meanwhile
+  const rated = await tx
+    .select({ id: players.id, rating: players.rating })
+    .from(players)
+    .where(
+      inArray(
+        players.id,
+        people.map((seat) => seat.playerId)
+      )
+    );
+  const changes = ratingChanges(
+    rated,
+    winners.map((seat) => seat.playerId)
+  );
+
+  for (const seat of people) {
+    const change = changes.get(seat.playerId) ?? 0;
+    // A seat with a change recorded was rated already; rate each seat once
+    const claimed = await tx
+      .update(seats)
+      .set({ ratingDelta: change })
+      .where(and(eq(seats.id, seat.id), isNull(seats.ratingDelta)))
+      .returning({ id: seats.id });
+    if (claimed.length === 0) continue;
+
+    await tx
+      .update(players)
+      .set({
+        rating: sql`${players.rating} + ${change}`,
+        ratedGames: sql`${players.ratedGames} + 1`,
+      })
+      .where(eq(players.id, seat.playerId));
+  }
+}
@@ -0,0 +1,159 @@
+import { describe, expect, test } from 'bun:test';
+
+import { loadGame, rewindGame } from '@/lib/db/games';
+import { players } from '@/lib/db/schema/players';
+import { setupTestDatabase } from '@/lib/db/testing';
+import { BASE_RULES } from '@/lib/game/rules';
+import { playMove } from '@/lib/lobby/game';
+import {
+  addBot,
+  createRoom,
+  getRoomByCode,
+  joinRoom,
+  LobbyError,
+  leaveRoom,
+  type RoomSettings,
+  removeBot,
+  setReady,
+  startRoom,
+} from '@/lib/lobby/rooms';
+
+const database = setupTestDatabase();
+
+const settings = (maxPlayers: number): RoomSettings => ({
+  maxPlayers,
+  turnSeconds: null,
+  responseSeconds: null,
+  rules: BASE_RULES,
+});
+
+async function createPlayers(...names: string[]) {
+  return database()
+    .db.insert(players)
+    .values(names.map((name) => ({ name })))
+    .returning();
+}
+
+describe('seating', () => {
+  test('seats players in order until the room is full', async () => {
+    const [host, guest, late] = await createPlayers('Host', 'Guest', 'Late');
+    const room = await createRoom(host.id, settings(2));
+
+    await joinRoom(guest.id, room.code);
+    // Joining again changes nothing
+    await joinRoom(guest.id, room.code);
+    await expect(joinRoom(late.id, room.code)).rejects.toThrow(LobbyError);
+
+    const seated = await getRoomByCode(room.code);
+    expect(seated?.seats.map((seat) => seat.playerId)).toEqual([
+      host.id,
+      guest.id,
+    ]);
+  });
+
+  test('concurrent joins never overfill a room', async () => {
+    const [host, ...others] = await createPlayers('Host', 'A', 'B', 'C', 'D');
+    const room = await createRoom(host.id, settings(3));
+
+    const results = await Promise.allSettled([
+      ...others.map((player) => joinRoom(player.id, room.code)),
+      addBot(host.id, room.code, 'random'),
+    ]);
+    const failures = results.flatMap((result) =>
+      result.status === 'rejected' ? [result.reason] : []
+    );
+
+    expect(failures).toHaveLength(3);
+    expect(failures.every((error) => error instanceof LobbyError)).toBe(true);
+    expect((await getRoomByCode(room.code))?.seats).toHaveLength(3);
+  });
+});
+
+describe('leaving', () => {
+  test('the host role passes on and bots leave with the last person', async () => {
+    const [host, guest] = await createPlayers('Host', 'Guest');
+    const room = await createRoom(host.id, settings(4));
+    await joinRoom(guest.id, room.code);
+    await addBot(host.id, room.code, 'random');
+
+    await leaveRoom(host.id, room.code);
+    const handedOver = await getRoomByCode(room.code);
+    expect(handedOver?.hostId).toBe(guest.id);
+    expect(handedOver?.seats).toHaveLength(2);
+
+    await leaveRoom(guest.id, room.code);
+    expect(await getRoomByCode(room.code)).toBeUndefined();
+  });
+
+  test('only the host removes bots, and only from waiting rooms', async () => {
+    const [host, guest] = await createPlayers('Host', 'Guest');
+    const room = await createRoom(host.id, settings(4));
+    await joinRoom(guest.id, room.code);
+    await addBot(host.id, room.code, 'random');
+    const bot = (await getRoomByCode(room.code))?.seats.find((s) => s.bot);
+    if (!bot) throw new Error('The bot is missing');
+
+    await expect(removeBot(guest.id, room.code, bot.id)).rejects.toThrow(
+      'Only the host can remove bots'
+    );
+    await removeBot(host.id, room.code, bot.id);
+    expect((await getRoomByCode(room.code))?.seats).toHaveLength(2);
+
+    await setReady(guest.id, room.code, true);
+    await startRoom(host.id, room.code);
+    await expect(setReady(guest.id, room.code, false)).rejects.toThrow(
+      'This game has already started'
+    );
+  });
+});
+
+describe('games', () => {
+  test('starting deals a game that moves are stored against', async () => {
+    const [host] = await createPlayers('Host');
+    const room = await createRoom(host.id, settings(2));
+    await addBot(host.id, room.code, 'honest');
+    await startRoom(host.id, room.code);
+
+    const started = await getRoomByCode(room.code);
+    if (!started) throw new Error('The room is gone');
+    expect(started.status).toBe('playing');
+    await expect(startRoom(host.id, room.code)).rejects.toThrow(
+      'This game has already started'
+    );
+
+    const dealt = await loadGame(room.id);
+    expect(dealt.sequence).toBe(0);
+    expect(dealt.state.players.map((p) => p.id)).toEqual(
+      started.seats.map((seat) => seat.id)
+    );
+
+    // The host sits first and starts with one coin in a two-player game
+    await playMove(host.id, room.code, { type: 'income' });
+    const after = await loadGame(room.id);
+    expect(after.sequence).toBe(1);
+    expect(after.state.players[0].coins).toBe(2);
+    expect((await rewindGame(room.id, 0)).players[0].coins).toBe(1);
+  });
+
+  test('a join racing the start is dealt in or turned away', async () => {
+    const [host, guest] = await createPlayers('Host', 'Guest');
+    const room = await createRoom(host.id, settings(3));
+    await addBot(host.id, room.code, 'honest');
+
+    const [started, joined] = await Promise.allSettled([
+      startRoom(host.id, room.code),
+      joinRoom(guest.id, room.code),
+    ]);
+    expect(started.status).toBe('fulfilled');
+    if (joined.status === 'rejected') {
+      expect(joined.reason).toBeInstanceOf(LobbyError);
+    }
+
+    const seated = await getRoomByCode(room.code);
+    if (!seated) throw new Error('The room is gone');
+    const game = await loadGame(room.id);
+    expect(game.state.players.map((p) => p.id)).toEqual(
+      seated.seats.map((seat) => seat.id)
+    );
+  });
+});
@@ -0,0 +1,356 @@
+import { randomInt } from 'node:crypto';
+
+import { and, asc, desc, eq, inArray } from 'drizzle-orm';
+import type { z } from 'zod';
+
+import { db } from '@/lib/db/client';
+import { startGame } from '@/lib/db/games';
+import { players } from '@/lib/db/schema/players';
+import { insertRoomSchema, type Room, rooms } from '@/lib/db/schema/rooms';
+import { seats } from '@/lib/db/schema/seats';
+import { type Executor, writeTransaction } from '@/lib/db/transactions';
+import { isBusy, isUniqueViolation } from '@/lib/db/utils';
+import type { StrategyName } from '@/lib/game/bots/strategy';
+import { variantName } from '@/lib/lobby/settings';
+import { scheduleTimer } from '@/lib/lobby/timers';
+import { publishRoomChange } from '@/lib/realtime';
+
+export const roomSettingsSchema = insertRoomSchema.pick({
+  maxPlayers: true,
+  turnSeconds: true,
+  responseSeconds: true,
+  rules: true,
+});
+
+export type RoomSettings = z.infer<typeof roomSettingsSchema>;
+
+export const BOT_NAMES: Record<StrategyName, string> = {
+  random: 'Random bot',
+  honest: 'Honest bot',
+  heuristic: 'Heuristic bot',
+};
+
+/** Codes skip look-alike characters (0/O, 1/I) so they are easy to read out. */
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+const MAX_CODE_ATTEMPTS = 5;
+
+/** A lobby rule was broken; the message is safe to show to the player. */
+export class LobbyError extends Error {
+  name = 'LobbyError';
+}
+
+export function normalizeRoomCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/** `pick` returns a whole number below its argument; seeders pass their own. */
+export function generateRoomCode(
+  pick: (max: number) => number = randomInt
+): string {
+  return Array.from(
+    { length: CODE_LENGTH },
+    () => CODE_ALPHABET[pick(CODE_ALPHABET.length)]
+  ).join('');
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/** Rooms still waiting for players, newest first. */
+export function listOpenRooms() {
+  return db.query.rooms.findMany({
+    where: eq(rooms.status, 'waiting'),
+    with: {
+      host: { columns: { name: true } },
+      seats: { columns: { id: true } },
+    },
+    orderBy: desc(rooms.createdAt),
+    limit: 20,
+  });
+}
+
+export type OpenRoom = Awaited<ReturnType<typeof listOpenRooms>>[number];
+
+export function getRoomByCode(code: string, executor: Executor = db) {
+  return executor.query.rooms.findFirst({
+    where: eq(rooms.code, normalizeRoomCode(code)),
+    with: {
+      seats: {
+        with: { player: { columns: { id: true, name: true } } },
+        orderBy: asc(seats.position),
+      },
+    },
+  });
+}
+
+export type RoomWithSeats = NonNullable<
+  Awaited<ReturnType<typeof getRoomByCode>>
+>;
+
+function freePosition(room: RoomWithSeats): number {
+  const taken = new Set(room.seats.map((seat) => seat.position));
+  let position = 0;
+  while (taken.has(position)) position++;
+  return position;
+}
+
+async function requireRoom(
+  code: string,
+  executor: Executor = db
+): Promise<RoomWithSeats> {
+  const room = await getRoomByCode(code, executor);
+  if (!room) {
+    throw new LobbyError(`No room with code ${normalizeRoomCode(code)}`);
+  }
+  return room;
+}
+
+function requireWaiting(room: Room) {
+  if (room.status !== 'waiting') {
+    throw new LobbyError('This game has already started');
+  }
+}
+
+function requireFreeSeat(room: RoomWithSeats) {
+  if (room.seats.length >= room.maxPlayers) {
+    throw new LobbyError('This room is full');
+  }
+}
+
+/**
+ * Runs a change to a room or its seats under the write lock. The change reads
+ * the room inside it, so nothing it checked can change before it writes. A
+ * seat taken anyway (e.g. through a lagging replica) surfaces as a unique
+ * index conflict.
+ */
+async function withSeats<T>(work: (tx: Executor) => Promise<T>): Promise<T> {
+  try {
+    return await writeTransaction(work);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new LobbyError('That seat was just taken, try again');
+    }
+    if (isBusy(error)) throw new LobbyError('The room is busy, try again');
+    throw error;
+  }
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/** Creates a room and seats the host in it. */
+export async function createRoom(
+  hostId: string,
+  settings: RoomSettings
+): Promise<Room> {
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const code = generateRoomCode();
+    const taken = await db.query.rooms.findFirst({
+      columns: { id: true },
+      where: eq(rooms.code, code),
+    });
+    if (taken) continue;
+
+    return db.transaction(async (tx) => {
+      const [room] = await tx
+        .insert(rooms)
+        .values({
+          code,
+          hostId,
+          ...settings,
+          variant: variantName(settings.rules),
+        })
+        .returning();
+      await tx
+        .insert(seats)
+        .values({ roomId: room.id, playerId: hostId, position: 0 });
+      return room;
+    });
+  }
+
+  throw new Error('Could not generate a unique room code');
+}
+
+/** Seats the player at the lowest free position. Joining twice is a no-op. */
+export async function joinRoom(playerId: string, code: string): Promise<Room> {
+  const { room, joined } = await withSeats(async (tx) => {
+    const room = await requireRoom(code, tx);
+    if (room.seats.some((seat) => seat.playerId === playerId)) {
+      return { room, joined: false };
+    }
+
+    requireWaiting(room);
+    requireFreeSeat(room);
+
+    await tx
+      .insert(seats)
+      .values({ roomId: room.id, playerId, position: freePosition(room) });
+    return { room, joined: true };
+  });
+
+  if (joined) publishRoomChange(room.id, 'lobby');
+  return room;
+}
+
+/** Seats a bot at the lowest free position. Only the host may add bots. */
+export async function addBot(
+  playerId: string,
+  code: string,
+  strategy: StrategyName
+): Promise<void> {
+  const room = await withSeats(async (tx) => {
+    const room = await requireRoom(code, tx);
+    requireWaiting(room);
+
+    if (room.hostId !== playerId) {
+      throw new LobbyError('Only the host can add bots');
+    }
+    requireFreeSeat(room);
+
+    const position = freePosition(room);
+    const [bot] = await tx
+      .insert(players)
+      .values({ name: `${BOT_NAMES[strategy]} ${position + 1}` })
+      .returning({ id: players.id });
+    await tx.insert(seats).values({
+      roomId: room.id,
+      playerId: bot.id,
+      position,
+      bot: strategy,
+      ready: true,
+    });
+    return room;
+  });
+  publishRoomChange(room.id, 'lobby');
+}
+
+/** Removes a bot seat again. Only the host may remove bots. */
+export async function removeBot(
+  playerId: string,
+  code: string,
+  seatId: string
+): Promise<void> {
+  const room = await withSeats(async (tx) => {
+    const room = await requireRoom(code, tx);
+    requireWaiting(room);
+
+    if (room.hostId !== playerId) {
+      throw new LobbyError('Only the host can remove bots');
+    }
+    const seat = room.seats.find((s) => s.id === seatId && s.bot);
+    if (!seat) throw new LobbyError('There is no such bot in this room');
+
+    await tx.delete(seats).where(eq(seats.id, seat.id));
+    await tx.delete(players).where(eq(players.id, seat.playerId));
+    return room;
+  });
+  publishRoomChange(room.id, 'lobby');
+}
+
+/**
+ * Removes the player from a waiting room. The host role passes to the next
+ * person, and the room is deleted, bots and all, once no person is left.
+ */
+export async function leaveRoom(playerId: string, code: string): Promise<void> {
+  const { room, left } = await withSeats(async (tx) => {
+    const room = await requireRoom(code, tx);
+    requireWaiting(room);
+
+    const remaining = room.seats.filter((seat) => seat.playerId !== playerId);
+    if (remaining.length === room.seats.length) return { room, left: false };
+    const people = remaining.filter((seat) => !seat.bot);
+
+    if (people.length === 0) {
+      await tx.delete(rooms).where(eq(rooms.id, room.id));
+      if (remaining.length > 0) {
+        await tx.delete(players).where(
+          inArray(
+            players.id,
+            remaining.map((seat) => seat.playerId)
+          )
+        );
+      }
+      return { room, left: true };
+    }
+
+    await tx
+      .delete(seats)
+      .where(and(eq(seats.roomId, room.id), eq(seats.playerId, playerId)));
+
+    if (room.hostId === playerId) {
+      await tx
+        .update(rooms)
+        .set({ hostId: people[0].playerId })
+        .where(eq(rooms.id, room.id));
+    }
+    return { room, left: true };
+  });
+
+  if (left) publishRoomChange(room.id, 'lobby');
+}
+
+export async function setReady(
+  playerId: string,
+  code: string,
+  ready: boolean
+): Promise<void> {
+  const room = await withSeats(async (tx) => {
+    const room = await requireRoom(code, tx);
+    requireWaiting(room);
+
+    const seat = room.seats.find((s) => s.playerId === playerId);
+    if (!seat) throw new LobbyError('You are not in this room');
+
+    await tx.update(seats).set({ ready }).where(eq(seats.id, seat.id));
+    return room;
+  });
+  publishRoomChange(room.id, 'lobby');
+}
+
+/**
+ * Starts the game once every seated player is ready. Only the host may start,
+ * and seats are dealt in turn order. The checks, the deal and the first clock
+ * share one transaction, so the game gets exactly the seats that were checked.
+ */
+export async function startRoom(playerId: string, code: string): Promise<void> {
+  const room = await withSeats(async (tx) => {
+    const room = await requireRoom(code, tx);
+    requireWaiting(room);
+
+    if (room.hostId !== playerId) {
+      throw new LobbyError('Only the host can start the game');
+    }
+    if (room.seats.length < 2) {
+      throw new LobbyError('At least 2 players are needed to start');
+    }
+    if (room.seats.some((seat) => !seat.ready && seat.playerId !== playerId)) {
+      throw new LobbyError('Everyone must be ready before the game starts');
+    }
+    if (room.rules.allegiance === 'teams' && room.seats.length % 2 !== 0) {
+      throw new LobbyError('Team games need an even number of players');
+    }
+
+    await tx
+      .update(rooms)
+      .set({ status: 'playing', startedAt: new Date(), turnPosition: 0 })
+      .where(eq(rooms.id, room.id));
+
+    const state = await startGame(
+      room.id,
+      {
+        players: room.seats.map((seat) => seat.id),
+        seed: randomInt(2 ** 32),
+        rules: room.rules,
+      },
+      tx
+    );
+    await scheduleTimer(room, state, 0, false, tx);
+    return room;
+  });
+
+  publishRoomChange(room.id, 'game');
+  publishRoomChange(room.id, 'lobby');
+}
@@ -0,0 +1,24 @@
+import type { AllegianceMode, VariantRules } from '@/lib/game/types';
+
+/** Variant names by how players are grouped. */
+const ALLEGIANCE_VARIANTS: Record<AllegianceMode, string> = {
+  none: 'base',
+  factions: 'reformation',
+  teams: 'teams',
+};
+
+/** Short name for a rule set, stored as `rooms.variant` for listings. */
+export function variantName(rules: VariantRules): string {
+  const name = ALLEGIANCE_VARIANTS[rules.allegiance];
+  if (!rules.inquisitor) return name;
+  return rules.allegiance === 'none' ? 'inquisitor' : `${name} + inquisitor`;
+}
+
+/** Turn timer choices offered when creating a room, in seconds. */
+export const turnTimerOptions = [30, 60, 120] as const;
+
+/** Response timer choices: time to challenge, block or pick a card. */
+export const responseTimerOptions = [10, 15, 30] as const;
+
+/** Consecutive timeouts after which a player forfeits the game. */
+export const AFK_TIMEOUT_LIMIT = 3;
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, mock, spyOn, test } from 'bun:test';
+
+import { loadGame } from '@/lib/db/games';
+import { players } from '@/lib/db/schema/players';
+import { setupTestDatabase } from '@/lib/db/testing';
+import { strategies } from '@/lib/game/bots';
+import { BASE_RULES } from '@/lib/game/rules';
+import { playMove } from '@/lib/lobby/game';
+import {
+  addBot,
+  createRoom,
+  getRoomByCode,
+  startRoom,
+} from '@/lib/lobby/rooms';
+import { sweepTimers } from '@/lib/lobby/sweeper';
+
+const database = setupTestDatabase();
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe('bots', () => {
+  test('a bot whose move is rejected gets the default move', async () => {
+    const [host] = await database()
+      .db.insert(players)
+      .values({ name: 'Host' })
+      .returning();
+    const { code } = await createRoom(host.id, {
+      maxPlayers: 2,
+      turnSeconds: null,
+      responseSeconds: null,
+      rules: BASE_RULES,
+    });
+    await addBot(host.id, code, 'random');
+    await startRoom(host.id, code);
+    await playMove(host.id, code, { type: 'income' });
+
+    const room = await getRoomByCode(code);
+    if (!room) throw new Error('The room is gone');
+    const [hostSeat, botSeat] = room.seats;
+
+    // Two coins are not enough for a Coup
+    spyOn(strategies.random, 'choose').mockReturnValue({
+      type: 'coup',
+      player: botSeat.id,
+      target: hostSeat.id,
+    });
+    const logged = spyOn(console, 'error').mockImplementation(() => {});
+
+    await sweepTimers(new Date(Date.now() + 60_000));
+
+    expect(logged).toHaveBeenCalledTimes(1);
+    const game = await loadGame(room.id);
+    expect(game.sequence).toBe(2);
+    expect(game.state.players[1].coins).toBe(3);
+
+    // The room moved on, so the next sweep has nothing to retry
+    await sweepTimers(new Date(Date.now() + 60_000));
+    expect(logged).toHaveBeenCalledTimes(1);
+  });
+});
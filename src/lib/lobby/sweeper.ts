@@ -0,0 +1,139 @@
+import { eq, lte, or } from 'drizzle-orm';
+
+import { db } from '@/lib/db/client';
+import { type LoadedGame, loadGame } from '@/lib/db/games';
+import { withQueryScope } from '@/lib/db/logging';
+import { seats } from '@/lib/db/schema/seats';
+import { roomTimers } from '@/lib/db/schema/timers';
+import type { GameAction } from '@/lib/game/types';
+import { playBot, waitingBot } from '@/lib/lobby/bots';
+import { applyRoomAction } from '@/lib/lobby/game';
+import { getRoomByCode, type RoomWithSeats } from '@/lib/lobby/rooms';
+import { AFK_TIMEOUT_LIMIT } from '@/lib/lobby/settings';
+import { clearTimer, scheduleTimer, timeoutActions } from '@/lib/lobby/timers';
+
+/**
+ * Resolves expired clocks on the server, so a game keeps moving even when
+ * nobody has it open. Players who time out `AFK_TIMEOUT_LIMIT` times in a row
+ * forfeit instead of getting another default move. Bots are woken up here
+ * too; a bot whose move fails gets the default move instead, and forfeits if
+ * even that is rejected, so a broken strategy cannot stall its room.
+ */
+
+/** How often the clocks are checked. */
+const SWEEP_INTERVAL_MS = 1000;
+
+const globalForSweeper = globalThis as unknown as {
+  timerSweeper: NodeJS.Timeout | undefined;
+};
+
+function findDueTimers(now: Date) {
+  return db.query.roomTimers.findMany({
+    where: or(lte(roomTimers.deadline, now), lte(roomTimers.botsAt, now)),
+    with: { room: { columns: { code: true } } },
+  });
+}
+
+type DueTimer = Awaited<ReturnType<typeof findDueTimers>>[number];
+
+/** Stands in for the waiting bot after its own move failed. */
+async function replaceBotMove(room: RoomWithSeats, game: LoadedGame) {
+  const seat = waitingBot(room, game.state);
+  if (!seat) return;
+
+  const move = timeoutActions(game.state).find((m) => m.player === seat.id);
+  if (move && (await applyRoomAction(room, move, game.sequence)).ok) return;
+
+  // Rejected as well when the game moved on meanwhile, which is harmless
+  await applyRoomAction(
+    room,
+    { type: 'forfeit', player: seat.id },
+    game.sequence
+  );
+}
+
+async function expireTimer(timer: DueTimer, now: Date) {
+  const { sequence } = timer;
+  const room = await getRoomByCode(timer.room.code);
+  if (!room) return;
+  if (room.status !== 'playing') {
+    await clearTimer(room.id);
+    return;
+  }
+
+  const game = await loadGame(room.id);
+  if (game.sequence !== sequence) {
+    // A move landed since the clock was set; it gets a fresh one
+    await scheduleTimer(room, game.state, game.sequence);
+    return;
+  }
+
+  if (timer.botsAt && timer.botsAt <= now) {
+    try {
+      await playBot(room, game);
+    } catch (error) {
+      console.error(`Room ${room.code} bot failed:`, error);
+      await replaceBotMove(room, game);
+    }
+    return;
+  }
+
+  const moves = timeoutActions(game.state);
+  if (moves.length === 0) {
+    await clearTimer(room.id);
+    return;
+  }
+
+  let after = sequence;
+  for (const move of moves) {
+    const seat = room.seats.find((s) => s.id === move.player);
+    if (!seat) break;
+    // Bots move on their own schedule and never go AFK
+    if (seat.bot) continue;
+
+    const timeouts = seat.timeouts + 1;
+    const action: GameAction =
+      timeouts >= AFK_TIMEOUT_LIMIT
+        ? { type: 'forfeit', player: seat.id }
+        : move;
+
+    // Stops once a move changes the game enough to void the rest
+    const result = await applyRoomAction(room, action, after, async (tx) => {
+      await tx.update(seats).set({ timeouts }).where(eq(seats.id, seat.id));
+    });
+    if (!result.ok) break;
+    after = result.sequence;
+  }
+}
+
+/** Plays the default moves for every clock that has run out, and due bots. */
+export async function sweepTimers(now = new Date()): Promise<void> {
+  const due = await findDueTimers(now);
+
+  for (const timer of due) {
+    try {
+      await withQueryScope(`sweeper ${timer.room.code}`, () =>
+        expireTimer(timer, now)
+      );
+    } catch (error) {
+      console.error(`Room ${timer.room.code} timer failed:`, error);
+    }
+  }
+}
+
+/** Checks the clocks every second until the process exits. Idempotent. */
+export function startTimerSweeper(): void {
+  if (globalForSweeper.timerSweeper) return;
+
+  const tick = async () => {
+    try {
+      await sweepTimers();
+    } catch (error) {
+      console.error('Timer sweep failed:', error);
+    }
+    // Scheduled after the sweep so slow sweeps never overlap
+    globalForSweeper.timerSweeper = setTimeout(tick, SWEEP_INTERVAL_MS).unref();
+  };
+
+  globalForSweeper.timerSweeper = setTimeout(tick, SWEEP_INTERVAL_MS).unref();
+}
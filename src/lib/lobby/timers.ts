@@ -0,0 +1,220 @@
+import { eq } from 'drizzle-orm';
+
+import { db } from '@/lib/db/client';
+import type { Room } from '@/lib/db/schema/rooms';
+import type { Seat } from '@/lib/db/schema/seats';
+import { roomTimers, type TimerKind } from '@/lib/db/schema/timers';
+import type { Executor } from '@/lib/db/transactions';
+import {
+  canTarget,
+  currentPlayer,
+  getPlayer,
+  pendingPlayers,
+} from '@/lib/game/engine';
+import { FORCED_COUP_COINS } from '@/lib/game/rules';
+import type { GameAction, GameState, PlayerState } from '@/lib/game/types';
+
+/**
+ * Turn and response clocks. Every accepted move reschedules the room's single
+ * timer for the new state; when it runs out the sweeper plays
+ * `timeoutActions` for whoever the game is still waiting on. The same row
+ * wakes up bots, whether or not the room has a clock.
+ */
+
+type TimedRoom = Pick<Room, 'id' | 'turnSeconds' | 'responseSeconds'> & {
+  seats: Pick<Seat, 'id' | 'bot'>[];
+};
+
+/** Pause before a bot moves, so people can follow what it does. */
+export const BOT_DELAY_MS = 1500;
+
+function firstHiddenCard(player: PlayerState): number {
+  return player.influences.findIndex((influence) => !influence.revealed);
+}
+
+/** The clock that applies to a phase: turns use the turn timer. */
+export function timerKind(state: GameState): TimerKind | null {
+  if (state.phase.kind === 'game-over') return null;
+  return state.phase.kind === 'turn' ? 'turn' : 'response';
+}
+
+/**
+ * Moves made on behalf of players who ran out of time: Income on a turn (or a
+ * Coup when it is forced), allow when responding or examining, and the least
+ * harmful card choice otherwise.
+ */
+export function timeoutActions(state: GameState): GameAction[] {
+  const { phase } = state;
+
+  switch (phase.kind) {
+    case 'turn': {
+      const actor = currentPlayer(state);
+      if (actor.coins < FORCED_COUP_COINS) {
+        return [{ type: 'income', player: actor.id }];
+      }
+
+      const count = state.players.length;
+      const target = Array.from(
+        { length: count - 1 },
+        (_, offset) => state.players[(state.turn + offset + 1) % count]
+      ).find((player) => canTarget(state, actor.id, player.id));
+      return target
+        ? [{ type: 'coup', player: actor.id, target: target.id }]
+        : [];
+    }
+    case 'respond':
+    case 'respond-block':
+      return pendingPlayers(state).map((player) => ({
+        type: 'allow',
+        player,
+      }));
+    case 'prove': {
+      const claimant = getPlayer(state, phase.claimant);
+      if (!claimant) return [];
+
+      // Show the claimed card if it is there, since that can only help
+      const proof = claimant.influences.findIndex(
+        (influence) => !influence.revealed && influence.role === phase.role
+      );
+      return proof === -1
+        ? [
+            {
+              type: 'lose_influence',
+              player: claimant.id,
+              card: firstHiddenCard(claimant),
+            },
+          ]
+        : [{ type: 'reveal', player: claimant.id, card: proof }];
+    }
+    case 'lose-influence': {
+      const player = getPlayer(state, phase.player);
+      if (!player) return [];
+      return [
+        {
+          type: 'lose_influence',
+          player: player.id,
+          card: firstHiddenCard(player),
+        },
+      ];
+    }
+    case 'exchange': {
+      const player = getPlayer(state, phase.player);
+      if (!player) return [];
+
+      // Keep the current hand; drawn cards come after it
+      const hidden = player.influences.filter((i) => !i.revealed).length;
+      return [
+        {
+          type: 'keep',
+          player: player.id,
+          cards: Array.from({ length: hidden }, (_, i) => i),
+        },
+      ];
+    }
+    case 'show': {
+      const player = getPlayer(state, phase.player);
+      if (!player) return [];
+      return [
+        { type: 'show', player: player.id, card: firstHiddenCard(player) },
+      ];
+    }
+    case 'examine':
+      return [{ type: 'allow', player: phase.player }];
+    case 'game-over':
+      return [];
+  }
+}
+
+/**
+ * Whether `state` is still the response window `action` was made in, so the
+ * others keep their deadline instead of getting a fresh one.
+ */
+export function continuesWindow(state: GameState, action: GameAction): boolean {
+  const { phase } = state;
+  return (
+    action.type === 'allow' &&
+    (phase.kind === 'respond' || phase.kind === 'respond-block') &&
+    phase.allowed.includes(action.player)
+  );
+}
+
+/** Whether the game waits on a bot in `state`. */
+function waitsOnBot(room: TimedRoom, state: GameState): boolean {
+  const bots = new Set(
+    room.seats.filter((seat) => seat.bot).map((seat) => seat.id)
+  );
+  return pendingPlayers(state).some((id) => bots.has(id));
+}
+
+/**
+ * Starts the clock for the game state at `sequence`, replacing any previous
+ * one, or with `keepDeadline` moves the running clock over to it. Bots the
+ * game waits on are woken up after `BOT_DELAY_MS`. Rooms without a clock or a
+ * bot to wake, and finished games, are cleared. Returns the deadline.
+ */
+export async function scheduleTimer(
+  room: TimedRoom,
+  state: GameState,
+  sequence: number,
+  keepDeadline = false,
+  executor: Executor = db
+): Promise<Date | null> {
+  const kind = timerKind(state);
+  const now = Date.now();
+  const botsAt =
+    kind && waitsOnBot(room, state) ? new Date(now + BOT_DELAY_MS) : null;
+
+  if (keepDeadline) {
+    const [kept] = await executor
+      .update(roomTimers)
+      .set({ sequence, botsAt })
+      .where(eq(roomTimers.roomId, room.id))
+      .returning({ deadline: roomTimers.deadline });
+    if (kept) return kept.deadline;
+  }
+
+  const seconds =
+    kind === 'turn'
+      ? room.turnSeconds
+      : kind === 'response'
+        ? room.responseSeconds
+        : null;
+  const deadline = seconds === null ? null : new Date(now + seconds * 1000);
+
+  if (!kind || (!deadline && !botsAt)) {
+    await clearTimer(room.id, executor);
+    return null;
+  }
+
+  await executor
+    .insert(roomTimers)
+    .values({ roomId: room.id, sequence, kind, deadline, botsAt })
+    .onConflictDoUpdate({
+      target: roomTimers.roomId,
+      set: { sequence, kind, deadline, botsAt },
+    });
+  return deadline;
+}
+
+export async function clearTimer(
+  roomId: string,
+  executor: Executor = db
+): Promise<void> {
+  await executor.delete(roomTimers).where(eq(roomTimers.roomId, roomId));
+}
+
+/**
+ * Deadline of the room's clock for the game at `sequence`, in epoch
+ * milliseconds. A clock left over from an earlier state does not count.
+ */
+export async function getDeadline(
+  roomId: string,
+  sequence: number
+): Promise<number | null> {
+  const timer = await db.query.roomTimers.findFirst({
+    where: eq(roomTimers.roomId, roomId),
+  });
+  return timer?.sequence === sequence
+    ? (timer.deadline?.getTime() ?? null)
+    : null;
+}
@@ -0,0 +1,39 @@
+import { eq } from 'drizzle-orm';
+
+import { getSession, renameSession, startGuestSession } from '@/lib/auth';
+import { db } from '@/lib/db/client';
+import { type Player, players } from '@/lib/db/schema/players';
+
+/**
+ * The player of the signed-in session. Seats, moves and room streams are all
+ * resolved from this, never from anything the client sends.
+ */
+export async function getCurrentPlayer(): Promise<Player | undefined> {
+  return (await getSession())?.player ?? undefined;
+}
+
+/**
+ * Returns the current player, starting a guest session on first use. Passing
+ * a different name renames the existing player. Only callable from Server
+ * Actions and Route Handlers, where cookies can be written.
+ */
+export async function ensurePlayer(name: string): Promise<Player> {
+  const session = await getSession();
+  if (!session) return startGuestSession(name);
+
+  const current = session.player;
+  if (current?.name === name) return current;
+
+  const [player] = current
+    ? await db
+        .update(players)
+        .set({ name })
+        .where(eq(players.id, current.id))
+        .returning()
+    : await db
+        .insert(players)
+        .values({ userId: session.user.id, name })
+        .returning();
+  await renameSession(session, name);
+  return player;
+}
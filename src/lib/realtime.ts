@@ -0,0 +1,76 @@
+import { EventEmitter } from 'node:events';
+
+import type { GameView, GameViewPatch } from '@/lib/game/view';
+
+/**
+ * In-process notifications for room changes. Listeners re-read the database
+ * on every notification, so the payload only says what kind of data changed.
+ * With several server instances, the SSE route's periodic refresh picks up
+ * writes made elsewhere.
+ */
+
+export type RoomChange = 'lobby' | 'game';
+
+const globalForRealtime = globalThis as unknown as {
+  roomEvents: EventEmitter | undefined;
+};
+
+const roomEvents = globalForRealtime.roomEvents ?? new EventEmitter();
+// One listener per open connection, so there is no meaningful limit
+roomEvents.setMaxListeners(0);
+globalForRealtime.roomEvents = roomEvents;
+
+export function publishRoomChange(roomId: string, change: RoomChange): void {
+  roomEvents.emit(roomId, change);
+}
+
+export function subscribeToRoom(
+  roomId: string,
+  listener: (change: RoomChange) => void
+): () => void {
+  roomEvents.on(roomId, listener);
+  return () => {
+    roomEvents.off(roomId, listener);
+  };
+}
+
+// ============================================================================
+// Server-Sent Events
+// ============================================================================
+
+/** Full view, sent on connect or when the client's last event is unknown. */
+export interface RoomSyncEvent {
+  sequence: number;
+  view: GameView;
+  /** When the running clock expires, in epoch milliseconds. */
+  deadline: number | null;
+}
+
+/**
+ * Changes since the event with id `from`. A restarted clock is sent with the
+ * same `sequence` and an empty patch.
+ */
+export interface RoomDiffEvent {
+  from: number;
+  sequence: number;
+  patch: GameViewPatch;
+  deadline: number | null;
+}
+
+export type RoomEventMap = {
+  sync: RoomSyncEvent;
+  diff: RoomDiffEvent;
+  /** Seats or room status changed; re-fetch the room. */
+  lobby: Record<string, never>;
+};
+
+/** Formats one SSE message. Only game events carry an id to resume from. */
+export function formatEvent<K extends keyof RoomEventMap>(
+  event: K,
+  data: RoomEventMap[K],
+  id?: number
+): string {
+  const lines = [`event: ${event}`, `data: ${JSON.stringify(data)}`];
+  if (id !== undefined) lines.unshift(`id: ${id}`);
+  return `${lines.join('\n')}\n\n`;
+}